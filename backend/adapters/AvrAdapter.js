@@ -0,0 +1,182 @@
+const TcpFeedAdapter = require('./TcpFeedAdapter');
+const modeS = require('../lib/modeS');
+
+// Even/odd CPR frames further apart than this cannot be paired (ms)
+const CPR_PAIR_WINDOW = 10000;
+// A known position older than this is not trusted as a local decoding reference (ms)
+const LOCAL_REFERENCE_AGE = 60000;
+// Local decoding relative to the receiver is only unambiguous within 180 NM
+const RECEIVER_RANGE_KM = 333;
+
+/**
+ * Raw Mode-S / ADS-B adapter for flight data
+ * Decodes AVR frames (`*8D4840D6202CC371C32CE0576098;`) from rtl_adsb or a
+ * receiver's port 30002 output, so no third-party service is involved
+ */
+class AvrAdapter extends TcpFeedAdapter {
+    constructor(settings = {}) {
+        super(settings, {
+            label: 'AVR',
+            host: process.env.AVR_HOST,
+            port: Number(process.env.AVR_PORT) || 30002
+        });
+        this.name = 'avr';
+
+        // Optional receiver location, used to decode single CPR frames
+        const receiver = settings.receiver || {};
+        this.receiver = Number.isFinite(receiver.latitude) && Number.isFinite(receiver.longitude)
+            ? { latitude: receiver.latitude, longitude: receiver.longitude }
+            : null;
+
+        // Decoder statistics
+        this.framesDecoded = 0;
+        this.crcErrors = 0;
+        this.unknownAddresses = 0;
+    }
+
+    /**
+     * Decode an AVR line and merge it into the aircraft table
+     * @param {string} line - Single AVR line
+     * @param {number} now - Receive time in milliseconds
+     */
+    handleLine(line, now = Date.now()) {
+        if (!line.trim()) return;
+
+        const hex = modeS.parseAvrFrame(line);
+        if (!hex) {
+            this.malformedLines += 1;
+            return;
+        }
+
+        const frame = modeS.decodeFrame(hex);
+        if (frame.crcValid === false) {
+            this.crcErrors += 1;
+            return;
+        }
+
+        // Address/parity replies only count for aircraft already heard via ADS-B or all-call
+        if (frame.crcValid === null && !this.aircraft.has(frame.icao)) {
+            this.unknownAddresses += 1;
+            return;
+        }
+        if (!frame.type) return;
+
+        this.framesDecoded += 1;
+        this.applyFrame(frame, now);
+    }
+
+    /**
+     * Merge a decoded frame into the aircraft table
+     * @param {Object} frame - Result of modeS.decodeFrame
+     * @param {number} now - Receive time in milliseconds
+     */
+    applyFrame(frame, now) {
+        const state = this.getAircraftState(frame.icao, now);
+
+        switch (frame.type) {
+            case 'identification':
+                state.callsign = frame.callsign;
+                state.category = frame.category;
+                break;
+
+            case 'surface-position':
+                state.onGround = true;
+                break;
+
+            case 'airborne-position':
+                state.onGround = false;
+                if (frame.altitude !== null) state.altitude = frame.altitude;
+                this.applyPosition(state, frame.cpr, now);
+                break;
+
+            case 'velocity':
+                if (frame.speedType === 'GS') {
+                    state.groundSpeed = frame.speed;
+                    state.track = frame.track;
+                } else if (state.groundSpeed === null && frame.heading !== null) {
+                    // Airspeed messages only give heading; better than nothing without GS
+                    state.track = frame.heading;
+                }
+                if (frame.verticalRate !== null) state.verticalRate = frame.verticalRate;
+                break;
+
+            case 'altitude':
+                if (frame.altitude !== null) state.altitude = frame.altitude;
+                break;
+
+            case 'identity':
+                state.squawk = frame.squawk;
+                break;
+
+            default:
+                break;
+        }
+
+        this.touchAircraft(state, now);
+    }
+
+    /**
+     * Resolve a CPR position frame using global (even/odd) or local decoding
+     * @param {Object} state - Aircraft state
+     * @param {{odd: boolean, lat: number, lon: number}} cpr - CPR fields
+     * @param {number} now - Receive time in milliseconds
+     */
+    applyPosition(state, cpr, now) {
+        const key = cpr.odd ? 'cprOdd' : 'cprEven';
+        state[key] = { ...cpr, receivedAt: now };
+
+        let position = null;
+        const { cprEven, cprOdd } = state;
+        if (cprEven && cprOdd && Math.abs(cprEven.receivedAt - cprOdd.receivedAt) <= CPR_PAIR_WINDOW) {
+            position = modeS.decodeCprGlobal(cprEven, cprOdd, cprOdd.receivedAt > cprEven.receivedAt);
+        }
+
+        if (!position && state.lastPosition && now - state.lastPosition <= LOCAL_REFERENCE_AGE) {
+            position = modeS.decodeCprLocal(cpr, state.latitude, state.longitude);
+        }
+
+        if (!position && this.receiver) {
+            const local = modeS.decodeCprLocal(cpr, this.receiver.latitude, this.receiver.longitude);
+            if (this.distanceKm(local, this.receiver) <= RECEIVER_RANGE_KM) {
+                position = local;
+            }
+        }
+
+        if (!position) return;
+
+        state.latitude = position.latitude;
+        state.longitude = position.longitude;
+        state.lastPosition = now;
+    }
+
+    /**
+     * Great-circle distance between two points
+     * @param {{latitude: number, longitude: number}} a
+     * @param {{latitude: number, longitude: number}} b
+     * @returns {number} Distance in kilometers
+     */
+    distanceKm(a, b) {
+        const toRad = (deg) => deg * Math.PI / 180;
+        const dLat = toRad(b.latitude - a.latitude);
+        const dLon = toRad(b.longitude - a.longitude);
+        const h = Math.sin(dLat / 2) ** 2 +
+            Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+        return 6371 * 2 * Math.asin(Math.sqrt(h));
+    }
+
+    /**
+     * Get health status of the adapter
+     * @returns {Object} Health status
+     */
+    getHealthStatus() {
+        return {
+            ...super.getHealthStatus(),
+            framesDecoded: this.framesDecoded,
+            crcErrors: this.crcErrors,
+            unknownAddresses: this.unknownAddresses,
+            receiver: this.receiver
+        };
+    }
+}
+
+module.exports = AvrAdapter;
@@ -0,0 +1,100 @@
+const TcpFeedAdapter = require('./TcpFeedAdapter');
+
+// BaseStation CSV field positions (0-based)
+const FIELD = {
+    messageType: 0,
+    transmissionType: 1,
+    hexIdent: 4,
+    callsign: 10,
+    altitude: 11,
+    groundSpeed: 12,
+    track: 13,
+    latitude: 14,
+    longitude: 15,
+    verticalRate: 16,
+    squawk: 17,
+    isOnGround: 21
+};
+
+/**
+ * SBS-1 / BaseStation adapter for flight data
+ * Keeps a TCP connection to a receiver's port 30003 feed open and merges
+ * MSG,1-8 lines into a live per-aircraft table
+ */
+class BaseStationAdapter extends TcpFeedAdapter {
+    constructor(settings = {}) {
+        super(settings, {
+            label: 'BaseStation',
+            host: process.env.SBS_HOST,
+            port: Number(process.env.SBS_PORT) || 30003
+        });
+        this.name = 'basestation';
+    }
+
+    /**
+     * Parse a BaseStation line and merge it into the aircraft table
+     * @param {string} line - Single CSV line
+     * @param {number} now - Receive time in milliseconds
+     */
+    handleLine(line, now = Date.now()) {
+        const trimmed = line.trim();
+        if (!trimmed) return;
+
+        const fields = trimmed.split(',');
+        const messageType = fields[FIELD.messageType];
+
+        // STA, ID, AIR, SEL and CLK lines carry no telemetry
+        if (['STA', 'ID', 'AIR', 'SEL', 'CLK'].includes(messageType)) return;
+
+        const transmissionType = parseInt(fields[FIELD.transmissionType], 10);
+        const hex = String(fields[FIELD.hexIdent] || '').trim().toLowerCase();
+        if (messageType !== 'MSG' || !(transmissionType >= 1 && transmissionType <= 8) || !/^[0-9a-f]{6}$/.test(hex)) {
+            this.malformedLines += 1;
+            return;
+        }
+
+        const state = this.getAircraftState(hex, now);
+
+        const text = (index) => String(fields[index] || '').trim();
+        const number = (index) => {
+            const value = text(index);
+            if (!value) return null;
+            const parsed = Number(value);
+            return Number.isFinite(parsed) ? parsed : null;
+        };
+
+        const callsign = text(FIELD.callsign);
+        if (callsign) state.callsign = callsign;
+
+        const altitude = number(FIELD.altitude);
+        if (altitude !== null) state.altitude = altitude;
+
+        const groundSpeed = number(FIELD.groundSpeed);
+        if (groundSpeed !== null) state.groundSpeed = groundSpeed;
+
+        const track = number(FIELD.track);
+        if (track !== null) state.track = track;
+
+        const latitude = number(FIELD.latitude);
+        const longitude = number(FIELD.longitude);
+        if (latitude !== null && longitude !== null) {
+            state.latitude = latitude;
+            state.longitude = longitude;
+            state.lastPosition = now;
+        }
+
+        const verticalRate = number(FIELD.verticalRate);
+        if (verticalRate !== null) state.verticalRate = verticalRate;
+
+        const squawk = text(FIELD.squawk);
+        if (squawk) state.squawk = squawk;
+
+        // -1 means on the ground, 0 airborne, empty unknown
+        const onGround = text(FIELD.isOnGround);
+        if (onGround) state.onGround = onGround === '-1' || onGround === '1';
+
+        this.touchAircraft(state, now);
+    }
+}
+
+module.exports = BaseStationAdapter;
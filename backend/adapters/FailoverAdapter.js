@@ -0,0 +1,210 @@
+const FlightAdapter = require('./FlightAdapter');
+
+/**
+ * Failover chain over several flight data adapters
+ * Tries providers in order and falls through to the next one when a provider
+ * errors, times out or suddenly reports an empty sky. A failed provider is put
+ * on a cool-down before it is tried again.
+ */
+class FailoverAdapter extends FlightAdapter {
+    /**
+     * @param {Array<FlightAdapter>} adapters - Adapters in priority order
+     * @param {Object} settings - Chain settings (cooldownMs, timeoutMs)
+     */
+    constructor(adapters, settings = {}) {
+        super();
+        this.name = 'failover';
+        this.cooldownMs = Number(settings.cooldownMs) || 120000;
+        this.timeoutMs = Number(settings.timeoutMs) || 10000;
+
+        this.entries = adapters.map(adapter => ({
+            adapter,
+            failures: 0,
+            cooldownUntil: 0,
+            lastError: null,
+            lastSuccessAt: null
+        }));
+
+        // Provider that answered the most recent query, and how many flights it saw
+        this.activeProvider = null;
+        this.lastFlightCount = 0;
+    }
+
+    /**
+     * Providers to try, in order, skipping those cooling down
+     * Falls back to the full chain if every provider is cooling down
+     * @param {number} now - Current time in milliseconds
+     * @returns {Array<Object>} Chain entries
+     */
+    getCandidates(now = Date.now()) {
+        const available = this.entries.filter(entry => entry.cooldownUntil <= now);
+        return available.length > 0 ? available : this.entries;
+    }
+
+    markFailed(entry, message, now = Date.now()) {
+        entry.failures += 1;
+        entry.lastError = message;
+        entry.cooldownUntil = now + this.cooldownMs;
+        console.warn(`Failover: ${entry.adapter.name} failed (${message}), cooling down for ${this.cooldownMs}ms`);
+    }
+
+    markSucceeded(entry, now = Date.now()) {
+        entry.failures = 0;
+        entry.cooldownUntil = 0;
+        entry.lastSuccessAt = new Date(now);
+    }
+
+    /**
+     * Run a flight query against the chain
+     * @param {string} method - Adapter method name
+     * @param {Array} args - Method arguments
+     * @returns {Promise<Object>} Standardized flight data from the provider that answered
+     */
+    async queryFlights(method, args) {
+        const errors = [];
+        // An empty answer right after a busy one is suspicious (e.g. FR24 rate limiting)
+        const emptyIsSuspicious = this.lastFlightCount > 0;
+        const emptyEntries = [];
+        let emptyResult = null;
+
+        for (const entry of this.getCandidates()) {
+            const name = entry.adapter.name;
+            let result;
+            try {
+                result = await this.withTimeout(entry.adapter[method](...args), this.timeoutMs, name);
+            } catch (error) {
+                this.markFailed(entry, error.message);
+                errors.push(`${name}: ${error.message}`);
+                continue;
+            }
+
+            const flightCount = Array.isArray(result?.flights) ? result.flights.length : 0;
+            if (flightCount === 0 && emptyIsSuspicious) {
+                emptyEntries.push(entry);
+                emptyResult = emptyResult || result;
+                continue;
+            }
+
+            // Another provider sees traffic, so the empty answers were not genuine
+            for (const emptyEntry of emptyEntries) {
+                this.markFailed(emptyEntry, `returned no flights while ${name} reported ${flightCount}`);
+            }
+
+            this.markSucceeded(entry);
+            this.activeProvider = name;
+            this.lastFlightCount = flightCount;
+            return result;
+        }
+
+        if (emptyResult) {
+            // Every provider agrees the sky is empty
+            emptyEntries.forEach(entry => this.markSucceeded(entry));
+            this.activeProvider = emptyEntries[0].adapter.name;
+            this.lastFlightCount = 0;
+            return emptyResult;
+        }
+
+        throw new Error(`All providers failed: ${errors.join('; ')}`);
+    }
+
+    /**
+     * Payloads of the provider that answered the most recent query
+     * @returns {Array<Object>} Payloads as {provider, data, options}
+     */
+    getPayloads() {
+        const entry = this.entries.find(candidate => candidate.adapter.name === this.activeProvider);
+        return entry ? entry.adapter.getPayloads() : [];
+    }
+
+    async getFlightsInArea(latitude, longitude, radiusKm) {
+        return this.queryFlights('getFlightsInArea', [latitude, longitude, radiusKm]);
+    }
+
+    async getFlightsInBounds(north, south, west, east, options = {}) {
+        return this.queryFlights('getFlightsInBounds', [north, south, west, east, options]);
+    }
+
+    /**
+     * Get flight details from the first provider that can answer
+     * @param {string} flightId - Flight identifier
+     * @returns {Promise<Object>} Detailed flight information
+     */
+    async getFlightDetails(flightId) {
+        const errors = [];
+        for (const entry of this.getCandidates()) {
+            try {
+                return await this.withTimeout(entry.adapter.getFlightDetails(flightId), this.timeoutMs, entry.adapter.name);
+            } catch (error) {
+                errors.push(`${entry.adapter.name}: ${error.message}`);
+            }
+        }
+        throw new Error(`Failed to get flight details: ${errors.join('; ')}`);
+    }
+
+    /**
+     * Get an airport board from the first provider that supports it
+     * A provider that errors is put on cool-down and the next one is tried
+     * @param {string} method - 'getAirportArrivals' or 'getAirportDepartures'
+     * @param {Array} args - Method arguments
+     * @returns {Promise<Object|null>} Board data, or null if no provider supports it
+     */
+    async queryAirportBoard(method, args) {
+        const errors = [];
+        for (const entry of this.getCandidates()) {
+            const name = entry.adapter.name;
+            let data;
+            try {
+                data = await this.withTimeout(entry.adapter[method](...args), this.timeoutMs, name);
+            } catch (error) {
+                this.markFailed(entry, error.message);
+                errors.push(`${name}: ${error.message}`);
+                continue;
+            }
+            if (data !== null) {
+                this.markSucceeded(entry);
+                return data;
+            }
+        }
+        if (errors.length > 0) {
+            throw new Error(`All providers failed: ${errors.join('; ')}`);
+        }
+        return null;
+    }
+
+    async getAirportArrivals(airportCode, begin, end) {
+        return this.queryAirportBoard('getAirportArrivals', [airportCode, begin, end]);
+    }
+
+    async getAirportDepartures(airportCode, begin, end) {
+        return this.queryAirportBoard('getAirportDepartures', [airportCode, begin, end]);
+    }
+
+    close() {
+        this.entries.forEach(entry => entry.adapter.close());
+    }
+
+    /**
+     * Get health status of the chain and each provider in it
+     * @returns {Object} Health status
+     */
+    getHealthStatus() {
+        const now = Date.now();
+        return {
+            name: this.name,
+            activeProvider: this.activeProvider,
+            cooldownMs: this.cooldownMs,
+            timeoutMs: this.timeoutMs,
+            providers: this.entries.map(entry => ({
+                name: entry.adapter.name,
+                coolingDown: entry.cooldownUntil > now,
+                cooldownUntil: entry.cooldownUntil > now ? new Date(entry.cooldownUntil).toISOString() : null,
+                failures: entry.failures,
+                lastError: entry.lastError,
+                lastSuccessAt: entry.lastSuccessAt ? entry.lastSuccessAt.toISOString() : null,
+                status: typeof entry.adapter.getHealthStatus === 'function' ? entry.adapter.getHealthStatus() : null
+            }))
+        };
+    }
+}
+
+module.exports = FailoverAdapter;
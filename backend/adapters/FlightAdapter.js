@@ -5,6 +5,8 @@
 class FlightAdapter {
     constructor() {
         this.name = 'base';
+        // Provider payload behind the most recent flight query, kept for recordings
+        this.lastPayload = null;
     }
 
     /**
@@ -61,6 +63,35 @@ class FlightAdapter {
         return null; // Optional method
     }
 
+    /**
+     * Release connections or timers held by the adapter (optional)
+     * Called when the adapter is replaced after a config change
+     */
+    close() {
+        // Optional method
+    }
+
+    /**
+     * Remember a provider payload and transform it to standardized format
+     * Query methods call this instead of transformFlightData() so recordings
+     * can keep exactly what the provider sent
+     * @param {Object} rawData - Raw data from provider
+     * @param {Object} options - Transform options (center, radius, bounds, etc.)
+     * @returns {Object} Standardized flight data structure
+     */
+    parsePayload(rawData, options = {}) {
+        this.lastPayload = { provider: this.name, data: rawData, options };
+        return this.transformFlightData(rawData, options);
+    }
+
+    /**
+     * Provider payloads behind the most recent flight query
+     * @returns {Array<Object>} Payloads as {provider, data, options}
+     */
+    getPayloads() {
+        return this.lastPayload ? [this.lastPayload] : [];
+    }
+
     /**
      * Transform raw flight data to standardized format
      * @param {Object} rawData - Raw data from provider
@@ -92,6 +123,7 @@ class FlightAdapter {
             airline: '',
             aircraft: '',
             registration: '',
+            category: '', // ADS-B emitter category, e.g. 'A3' (large) or 'A7' (rotorcraft)
             origin: '',
             destination: '',
             latitude: null,
@@ -100,6 +132,7 @@ class FlightAdapter {
             heading: null,
             velocity: null,
             verticalRate: null,
+            squawk: '',
             onGround: false,
             timestamp: Date.now()
         };
@@ -140,6 +173,21 @@ class FlightAdapter {
         };
     }
 
+    /**
+     * Reject if a provider call does not settle in time
+     * @param {Promise} promise - Provider call
+     * @param {number} timeoutMs - Time limit in milliseconds
+     * @param {string} name - Provider name for the error message
+     * @returns {Promise} Provider result
+     */
+    withTimeout(promise, timeoutMs, name) {
+        let timer = null;
+        const timeout = new Promise((resolve, reject) => {
+            timer = setTimeout(() => reject(new Error(`${name} timed out after ${timeoutMs}ms`)), timeoutMs);
+        });
+        return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+    }
+
     /**
      * Generate unique flight ID
      * @param {string} icao24 - ICAO24 address
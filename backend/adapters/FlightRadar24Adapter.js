@@ -75,7 +75,7 @@ class FlightRadar24Adapter extends FlightAdapter {
             const lonDiff = east - west;
             const radius = Math.sqrt(latDiff * latDiff + lonDiff * lonDiff) * 111000 / 2; // Approximate radius in meters
             
-            return this.transformFlightData(rawData, {
+            return this.parsePayload(rawData, {
                 center: options.center || { lat: centerLat, lon: centerLon },
                 radius: options.radius || radius,
                 location: options.location || `FlightRadar24 Rectangle (${north.toFixed(4)}, ${west.toFixed(4)}) to (${south.toFixed(4)}, ${east.toFixed(4)})`,
@@ -175,8 +175,9 @@ class FlightRadar24Adapter extends FlightAdapter {
                 heading: heading || null,
                 velocity: velocity ? velocity * 0.514444 : null, // Convert knots to m/s
                 verticalRate: vertical_rate ? vertical_rate * 0.00508 : null, // Convert fpm to m/s
+                squawk: squawk || '',
                 onGround: on_ground === 1,
-                timestamp: timestamp || Date.now()
+                timestamp: timestamp ? timestamp * 1000 : Date.now() // FR24 reports seconds
             };
 
         } catch (error) {
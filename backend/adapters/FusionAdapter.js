@@ -0,0 +1,224 @@
+const FlightAdapter = require('./FlightAdapter');
+
+// Fields that change with every report; taken from the freshest source that has them
+const TELEMETRY_FIELDS = ['latitude', 'longitude', 'altitude', 'heading', 'velocity', 'verticalRate', 'squawk', 'onGround'];
+// Fields that describe the flight; taken from the first source (in configured order) that has them
+const IDENTITY_FIELDS = ['callsign', 'flightNumber', 'airline', 'aircraft', 'registration', 'category', 'origin', 'destination'];
+
+/**
+ * Fusion of several flight data adapters
+ * Queries every provider concurrently and merges aircraft by ICAO24 address, so
+ * e.g. a local receiver's positions can be combined with FR24's routes. Each
+ * merged flight carries a `sources` map naming the provider behind every field.
+ */
+class FusionAdapter extends FlightAdapter {
+    /**
+     * @param {Array<FlightAdapter>} adapters - Adapters in priority order
+     * @param {Object} settings - Chain settings (timeoutMs)
+     */
+    constructor(adapters, settings = {}) {
+        super();
+        this.name = 'fusion';
+        this.timeoutMs = Number(settings.timeoutMs) || 10000;
+
+        this.entries = adapters.map(adapter => ({
+            adapter,
+            lastError: null,
+            lastSuccessAt: null,
+            lastFlightCount: 0
+        }));
+        // Providers merged into the most recent answer
+        this.answered = [];
+    }
+
+    /**
+     * Query every provider and merge the answers
+     * @param {string} method - Adapter method name
+     * @param {Array} args - Method arguments
+     * @returns {Promise<Object>} Standardized flight data with merged flights
+     */
+    async queryFlights(method, args) {
+        const settled = await Promise.allSettled(
+            this.entries.map(entry => this.withTimeout(entry.adapter[method](...args), this.timeoutMs, entry.adapter.name))
+        );
+
+        const results = [];
+        const errors = [];
+        settled.forEach((outcome, index) => {
+            const entry = this.entries[index];
+            const name = entry.adapter.name;
+            if (outcome.status === 'rejected') {
+                entry.lastError = outcome.reason.message;
+                errors.push(`${name}: ${outcome.reason.message}`);
+                return;
+            }
+            const flights = Array.isArray(outcome.value?.flights) ? outcome.value.flights : [];
+            entry.lastError = null;
+            entry.lastSuccessAt = new Date();
+            entry.lastFlightCount = flights.length;
+            results.push({ name, data: outcome.value, flights });
+        });
+
+        this.answered = this.entries.filter((entry, index) => settled[index].status === 'fulfilled');
+        if (results.length === 0) {
+            throw new Error(`All providers failed: ${errors.join('; ')}`);
+        }
+        if (errors.length > 0) {
+            console.warn(`Fusion: merging without ${errors.join('; ')}`);
+        }
+
+        const first = results[0].data;
+        return {
+            flights: this.mergeFlights(results),
+            center: first.center,
+            radius: first.radius,
+            location: first.location,
+            source: results.map(result => result.name).join('+'),
+            timestamp: Math.max(...results.map(result => result.data.timestamp || 0)) || Date.now()
+        };
+    }
+
+    /**
+     * Merge per-provider flight lists into one list keyed by ICAO24 address
+     * @param {Array<{name: string, flights: Array<Object>}>} results - Provider answers in priority order
+     * @returns {Array<Object>} Merged standardized flights with a `sources` map
+     */
+    mergeFlights(results) {
+        const groups = new Map();
+        for (const { name, flights } of results) {
+            for (const flight of flights) {
+                const icao24 = String(flight.icao24 || '').trim().toLowerCase();
+                const key = icao24 || `${name}:${flight.id}`;
+                if (!groups.has(key)) groups.set(key, []);
+                groups.get(key).push({ name, flight });
+            }
+        }
+
+        return Array.from(groups.values()).map(reports => this.mergeReports(reports));
+    }
+
+    /**
+     * Merge the reports several providers gave for one aircraft
+     * @param {Array<{name: string, flight: Object}>} reports - Reports in priority order
+     * @returns {Object} Merged standardized flight
+     */
+    mergeReports(reports) {
+        const hasValue = (value) => value !== null && value !== undefined && value !== '';
+        const merged = this.createStandardFlight();
+        const sources = {};
+
+        // Stable sort keeps priority order between equally fresh reports
+        const freshest = [...reports].sort((a, b) => (b.flight.timestamp || 0) - (a.flight.timestamp || 0));
+
+        for (const field of TELEMETRY_FIELDS) {
+            const report = freshest.find(({ flight }) => hasValue(flight[field]));
+            if (report) {
+                merged[field] = report.flight[field];
+                sources[field] = report.name;
+            }
+        }
+
+        for (const field of IDENTITY_FIELDS) {
+            const report = reports.find(({ flight }) => hasValue(flight[field]));
+            if (report) {
+                merged[field] = report.flight[field];
+                sources[field] = report.name;
+            }
+        }
+
+        merged.icao24 = String(reports[0].flight.icao24 || '').trim().toLowerCase();
+        merged.timestamp = freshest[0].flight.timestamp || Date.now();
+        // Provider ids differ for the same aircraft, and the callsign can show up late, so key on the address alone
+        merged.id = merged.icao24 || reports[0].flight.id;
+        merged.sources = sources;
+        return merged;
+    }
+
+    /**
+     * Payloads of every provider merged into the most recent answer, in priority order
+     * @returns {Array<Object>} Payloads as {provider, data, options}
+     */
+    getPayloads() {
+        return this.answered.flatMap(entry => entry.adapter.getPayloads());
+    }
+
+    async getFlightsInArea(latitude, longitude, radiusKm) {
+        return this.queryFlights('getFlightsInArea', [latitude, longitude, radiusKm]);
+    }
+
+    async getFlightsInBounds(north, south, west, east, options = {}) {
+        return this.queryFlights('getFlightsInBounds', [north, south, west, east, options]);
+    }
+
+    /**
+     * Get flight details from the first provider that can answer
+     * @param {string} flightId - Flight identifier
+     * @returns {Promise<Object>} Detailed flight information
+     */
+    async getFlightDetails(flightId) {
+        const errors = [];
+        for (const entry of this.entries) {
+            try {
+                return await this.withTimeout(entry.adapter.getFlightDetails(flightId), this.timeoutMs, entry.adapter.name);
+            } catch (error) {
+                errors.push(`${entry.adapter.name}: ${error.message}`);
+            }
+        }
+        throw new Error(`Failed to get flight details: ${errors.join('; ')}`);
+    }
+
+    /**
+     * Ask every provider for an airport board and take the first answer in priority order
+     * @param {string} method - 'getAirportArrivals' or 'getAirportDepartures'
+     * @param {Array} args - Method arguments
+     * @returns {Promise<Object|null>} Board data, or null if no provider supports it
+     */
+    async queryAirportBoard(method, args) {
+        const settled = await Promise.allSettled(
+            this.entries.map(entry => this.withTimeout(entry.adapter[method](...args), this.timeoutMs, entry.adapter.name))
+        );
+
+        const answer = settled.find(outcome => outcome.status === 'fulfilled' && outcome.value !== null);
+        if (answer) return answer.value;
+
+        const errors = settled
+            .map((outcome, index) => outcome.status === 'rejected' ? `${this.entries[index].adapter.name}: ${outcome.reason.message}` : null)
+            .filter(Boolean);
+        if (errors.length > 0) {
+            throw new Error(`All providers failed: ${errors.join('; ')}`);
+        }
+        return null;
+    }
+
+    async getAirportArrivals(airportCode, begin, end) {
+        return this.queryAirportBoard('getAirportArrivals', [airportCode, begin, end]);
+    }
+
+    async getAirportDepartures(airportCode, begin, end) {
+        return this.queryAirportBoard('getAirportDepartures', [airportCode, begin, end]);
+    }
+
+    close() {
+        this.entries.forEach(entry => entry.adapter.close());
+    }
+
+    /**
+     * Get health status of every merged provider
+     * @returns {Object} Health status
+     */
+    getHealthStatus() {
+        return {
+            name: this.name,
+            timeoutMs: this.timeoutMs,
+            providers: this.entries.map(entry => ({
+                name: entry.adapter.name,
+                lastError: entry.lastError,
+                lastSuccessAt: entry.lastSuccessAt ? entry.lastSuccessAt.toISOString() : null,
+                lastFlightCount: entry.lastFlightCount,
+                status: typeof entry.adapter.getHealthStatus === 'function' ? entry.adapter.getHealthStatus() : null
+            }))
+        };
+    }
+}
+
+module.exports = FusionAdapter;
@@ -1,6 +1,9 @@
 const axios = require('axios');
 const FlightAdapter = require('./FlightAdapter');
 
+// OpenSky's numeric aircraft category (state vector index 17) as ADS-B emitter category codes
+const CATEGORY_CODES = ['', '', 'A1', 'A2', 'A3', 'A4', 'A5', 'A6', 'A7', 'B1', 'B2', 'B3', 'B4', '', 'B6', 'B7', 'C1', 'C2', 'C3', 'C4', 'C5'];
+
 /**
  * OpenSky Network adapter for flight data
  * Uses OpenSky Network API with OAuth2 authentication
@@ -75,13 +78,14 @@ class OpenSkyAdapter extends FlightAdapter {
                     lamin: bounds.south,
                     lamax: bounds.north,
                     lomin: bounds.west,
-                    lomax: bounds.east
+                    lomax: bounds.east,
+                    extended: 1 // adds the aircraft category
                 },
                 timeout: 10000
             });
 
             const rawData = response.data;
-            return this.transformFlightData(rawData, {
+            return this.parsePayload(rawData, {
                 center: { lat: latitude, lon: longitude },
                 radius: radiusKm * 1000, // Convert to meters
                 location: `OpenSky (${latitude.toFixed(4)}, ${longitude.toFixed(4)})`
@@ -117,7 +121,8 @@ class OpenSkyAdapter extends FlightAdapter {
                     lamin: south,
                     lamax: north,
                     lomin: west,
-                    lomax: east
+                    lomax: east,
+                    extended: 1 // adds the aircraft category
                 },
                 timeout: 10000
             });
@@ -128,7 +133,7 @@ class OpenSkyAdapter extends FlightAdapter {
             const lonDiff = east - west;
             const radius = Math.sqrt(latDiff * latDiff + lonDiff * lonDiff) * 111000 / 2;
 
-            return this.transformFlightData(response.data, {
+            return this.parsePayload(response.data, {
                 center: options.center || { lat: centerLat, lon: centerLon },
                 radius: options.radius || radius,
                 location: options.location || `OpenSky Rectangle (${north.toFixed(4)}, ${west.toFixed(4)}) to (${south.toFixed(4)}, ${east.toFixed(4)})`,
@@ -262,7 +267,7 @@ class OpenSkyAdapter extends FlightAdapter {
                 icao24, callsign, origin_country, time_position,
                 last_contact, longitude, latitude, baro_altitude,
                 on_ground, velocity, true_track, vertical_rate,
-                sensors, geo_altitude, squawk, spi, position_source
+                sensors, geo_altitude, squawk, spi, position_source, category
             ] = state;
 
             const parsedCallsign = this.parseCallsign(callsign);
@@ -275,6 +280,7 @@ class OpenSkyAdapter extends FlightAdapter {
                 airline: parsedCallsign.airline || '',
                 aircraft: '', // Not available in OpenSky states
                 registration: '', // Not available in OpenSky states
+                category: CATEGORY_CODES[category] || '',
                 origin: '', // Not available in OpenSky states
                 destination: '', // Not available in OpenSky states
                 latitude: latitude,
@@ -283,6 +289,7 @@ class OpenSkyAdapter extends FlightAdapter {
                 heading: true_track,
                 velocity: velocity,
                 verticalRate: vertical_rate,
+                squawk: squawk || '',
                 onGround: on_ground || false,
                 timestamp: last_contact ? last_contact * 1000 : Date.now()
             };
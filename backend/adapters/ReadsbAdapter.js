@@ -0,0 +1,254 @@
+const fs = require('fs');
+const axios = require('axios');
+const FlightAdapter = require('./FlightAdapter');
+
+/**
+ * Local ADS-B receiver adapter
+ * Reads the aircraft.json published by dump1090-fa, readsb or tar1090,
+ * either over HTTP or straight from the file system
+ */
+class ReadsbAdapter extends FlightAdapter {
+    constructor(settings = {}) {
+        super();
+        this.name = 'readsb';
+        this.source = settings.source || process.env.READSB_SOURCE || '';
+        // Positions older than this are dropped (seconds)
+        this.maxPositionAge = Number(settings.maxPositionAge) || 60;
+
+        // Health tracking
+        this.lastFetchAt = null;
+        this.lastError = null;
+        this.lastAircraftCount = 0;
+        this.lastMessageCount = null;
+    }
+
+    /**
+     * Whether the configured source is an HTTP(S) URL rather than a file path
+     * @returns {boolean}
+     */
+    isRemoteSource() {
+        return /^https?:\/\//i.test(this.source);
+    }
+
+    /**
+     * Read and parse aircraft.json from the configured source
+     * @returns {Promise<Object>} Raw aircraft.json payload
+     */
+    async readAircraftJson() {
+        if (!this.source) {
+            throw new Error('No aircraft.json source configured');
+        }
+
+        try {
+            let payload;
+            if (this.isRemoteSource()) {
+                const response = await axios.get(this.source, {
+                    headers: { 'accept': 'application/json' },
+                    timeout: 5000
+                });
+                payload = response.data;
+            } else {
+                const contents = await fs.promises.readFile(this.source, 'utf8');
+                payload = JSON.parse(contents);
+            }
+
+            this.lastFetchAt = new Date();
+            this.lastError = null;
+            this.lastMessageCount = Number.isFinite(payload?.messages) ? payload.messages : null;
+            return payload;
+        } catch (error) {
+            this.lastError = error.message;
+            throw error;
+        }
+    }
+
+    /**
+     * Get flights in a specific area from the local receiver
+     * @param {number} latitude - Center latitude
+     * @param {number} longitude - Center longitude
+     * @param {number} radiusKm - Radius in kilometers
+     * @returns {Promise<Object>} Standardized flight data
+     */
+    async getFlightsInArea(latitude, longitude, radiusKm) {
+        const bounds = this.calculateBounds(latitude, longitude, radiusKm);
+        return this.getFlightsInBounds(bounds.north, bounds.south, bounds.west, bounds.east, {
+            center: { lat: latitude, lon: longitude },
+            radius: radiusKm * 1000, // Convert to meters
+            location: `Local receiver (${latitude.toFixed(4)}, ${longitude.toFixed(4)})`
+        });
+    }
+
+    /**
+     * Get flights in a specific rectangular area from the local receiver
+     * @param {number} north - Northern boundary latitude
+     * @param {number} south - Southern boundary latitude
+     * @param {number} west - Western boundary longitude
+     * @param {number} east - Eastern boundary longitude
+     * @param {Object} options - Additional options for metadata
+     * @returns {Promise<Object>} Standardized flight data
+     */
+    async getFlightsInBounds(north, south, west, east, options = {}) {
+        try {
+            const rawData = await this.readAircraftJson();
+
+            const centerLat = (north + south) / 2;
+            const centerLon = (east + west) / 2;
+            const latDiff = north - south;
+            const lonDiff = east - west;
+            const radius = Math.sqrt(latDiff * latDiff + lonDiff * lonDiff) * 111000 / 2;
+
+            return this.parsePayload(rawData, {
+                center: options.center || { lat: centerLat, lon: centerLon },
+                radius: options.radius || radius,
+                location: options.location || `Local receiver Rectangle (${north.toFixed(4)}, ${west.toFixed(4)}) to (${south.toFixed(4)}, ${east.toFixed(4)})`,
+                bounds: { north, south, west, east }
+            });
+
+        } catch (error) {
+            console.error('Readsb source error:', error.message);
+            throw new Error(`Readsb source failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Get the latest receiver state for a single aircraft
+     * @param {string} flightId - Flight identifier (icao24 or generated id)
+     * @returns {Promise<Object>} Raw aircraft.json entry
+     */
+    async getFlightDetails(flightId) {
+        const hex = String(flightId || '').split('_')[0].toLowerCase();
+        const rawData = await this.readAircraftJson();
+        const aircraft = (rawData.aircraft || []).find(entry => this.parseHex(entry.hex) === hex);
+        if (!aircraft) {
+            throw new Error(`Aircraft ${hex} not seen by receiver`);
+        }
+        return aircraft;
+    }
+
+    /**
+     * Transform aircraft.json to standardized format
+     * @param {Object} rawData - Raw aircraft.json payload
+     * @param {Object} options - Additional options
+     * @returns {Object} Standardized flight data
+     */
+    transformFlightData(rawData, options = {}) {
+        const nowSeconds = Number.isFinite(rawData?.now) ? rawData.now : Date.now() / 1000;
+        const flights = [];
+
+        if (rawData && Array.isArray(rawData.aircraft)) {
+            for (const aircraft of rawData.aircraft) {
+                const flight = this.parseReadsbAircraft(aircraft, nowSeconds);
+                if (flight) {
+                    flights.push(flight);
+                }
+            }
+        }
+        this.lastAircraftCount = flights.length;
+
+        const bounds = options.bounds;
+        const inBounds = (flight) => !bounds || (
+            flight.latitude <= bounds.north &&
+            flight.latitude >= bounds.south &&
+            flight.longitude >= bounds.west &&
+            flight.longitude <= bounds.east
+        );
+
+        return {
+            flights: flights.filter(f => f.latitude !== null && f.longitude !== null && !f.onGround && inBounds(f)),
+            center: options.center || { lat: 0, lon: 0 },
+            radius: options.radius || 0,
+            location: options.location || 'Unknown',
+            source: this.name,
+            timestamp: Math.round(nowSeconds * 1000)
+        };
+    }
+
+    /**
+     * Parse an individual aircraft.json entry
+     * @param {Object} aircraft - aircraft.json entry
+     * @param {number} nowSeconds - Receiver clock from the payload (unix seconds)
+     * @returns {Object|null} Standardized flight object
+     */
+    parseReadsbAircraft(aircraft, nowSeconds) {
+        try {
+            if (!aircraft || !aircraft.hex) return null;
+            if (!Number.isFinite(aircraft.lat) || !Number.isFinite(aircraft.lon)) return null;
+
+            // Drop positions the receiver has not refreshed recently
+            const positionAge = Number.isFinite(aircraft.seen_pos) ? aircraft.seen_pos : aircraft.seen;
+            if (Number.isFinite(positionAge) && positionAge > this.maxPositionAge) return null;
+
+            const icao24 = this.parseHex(aircraft.hex);
+            const callsign = String(aircraft.flight || '').trim();
+            const onGround = aircraft.alt_baro === 'ground';
+            const altitudeFeet = onGround ? 0 : (Number.isFinite(aircraft.alt_baro) ? aircraft.alt_baro : aircraft.alt_geom);
+            const verticalRate = Number.isFinite(aircraft.baro_rate) ? aircraft.baro_rate : aircraft.geom_rate;
+
+            return {
+                id: this.generateFlightId(icao24, callsign),
+                icao24,
+                callsign,
+                flightNumber: callsign,
+                airline: this.extractAirline(callsign),
+                aircraft: aircraft.t || '', // Only present when tar1090-db is installed
+                registration: aircraft.r || '', // Only present when tar1090-db is installed
+                category: aircraft.category || '',
+                origin: '', // Not available from a receiver
+                destination: '', // Not available from a receiver
+                latitude: aircraft.lat,
+                longitude: aircraft.lon,
+                altitude: Number.isFinite(altitudeFeet) ? altitudeFeet * 0.3048 : null, // Convert feet to meters
+                heading: Number.isFinite(aircraft.track) ? aircraft.track : null,
+                velocity: Number.isFinite(aircraft.gs) ? aircraft.gs * 0.514444 : null, // Convert knots to m/s
+                verticalRate: Number.isFinite(verticalRate) ? verticalRate * 0.00508 : null, // Convert fpm to m/s
+                squawk: aircraft.squawk || '',
+                onGround,
+                timestamp: Math.round((nowSeconds - (Number.isFinite(positionAge) ? positionAge : 0)) * 1000)
+            };
+
+        } catch (error) {
+            console.warn(`Failed to parse readsb aircraft ${aircraft?.hex}:`, error.message);
+            return null;
+        }
+    }
+
+    /**
+     * Normalize a readsb hex identifier
+     * Non-ICAO addresses (TIS-B, anonymous) are prefixed with '~'
+     * @param {string} hex - Raw hex identifier
+     * @returns {string} Lowercase ICAO24 address
+     */
+    parseHex(hex) {
+        return String(hex || '').replace(/^~/, '').trim().toLowerCase();
+    }
+
+    /**
+     * Extract airline from callsign
+     * @param {string} callsign - Flight callsign
+     * @returns {string} Airline code
+     */
+    extractAirline(callsign) {
+        if (!callsign) return '';
+
+        const match = callsign.match(/^([A-Z]{3})\d/);
+        return match ? match[1] : '';
+    }
+
+    /**
+     * Get health status of the adapter
+     * @returns {Object} Health status
+     */
+    getHealthStatus() {
+        return {
+            name: this.name,
+            source: this.source || null,
+            configured: !!this.source,
+            lastFetchAt: this.lastFetchAt ? this.lastFetchAt.toISOString() : null,
+            lastError: this.lastError,
+            aircraftCount: this.lastAircraftCount,
+            receiverMessages: this.lastMessageCount
+        };
+    }
+}
+
+module.exports = ReadsbAdapter;
@@ -0,0 +1,210 @@
+const path = require('path');
+const FlightAdapter = require('./FlightAdapter');
+const OpenSkyAdapter = require('./OpenSkyAdapter');
+const FlightRadar24Adapter = require('./FlightRadar24Adapter');
+const ReadsbAdapter = require('./ReadsbAdapter');
+const BaseStationAdapter = require('./BaseStationAdapter');
+const AvrAdapter = require('./AvrAdapter');
+const FusionAdapter = require('./FusionAdapter');
+const { readRecording, DEFAULT_DIRECTORY } = require('../lib/flightRecorder');
+
+// Adapters whose parser turns a recorded payload back into standardized flight data
+const PARSERS = {
+    opensky: OpenSkyAdapter,
+    flightradar24: FlightRadar24Adapter,
+    readsb: ReadsbAdapter,
+    basestation: BaseStationAdapter,
+    avr: AvrAdapter
+};
+
+/**
+ * Replay adapter
+ * Plays back a recording made by FlightRecorder, at 1x or an accelerated speed,
+ * so a specific evening's traffic can be reproduced or demoed offline. Playback
+ * starts with the first query; each query answers with the frame that was
+ * current at the same point of the recording. Recorded provider payloads go
+ * back through the parser of the adapter that received them, and payloads from
+ * several providers are merged as fusion mode would.
+ */
+class ReplayAdapter extends FlightAdapter {
+    constructor(settings = {}) {
+        super();
+        this.name = 'replay';
+        this.file = ReplayAdapter.resolveFile(settings.file || process.env.REPLAY_FILE || '');
+        this.speed = Number(settings.speed) > 0 ? Number(settings.speed) : 1;
+        this.loop = settings.loop !== false;
+
+        this.frames = null;
+        this.loading = null;
+        this.startedAt = null;
+        this.lastFrameIndex = null;
+        this.lastError = null;
+
+        // Parser instances by provider name, created on first use
+        this.parsers = new Map();
+        this.fusion = new FusionAdapter([]);
+    }
+
+    /**
+     * Resolve a recording name against the recordings directory
+     * @param {string} file - Absolute path, or a file name inside backend/recordings
+     * @returns {string} Absolute path ('' when none is configured)
+     */
+    static resolveFile(file) {
+        if (!file) return '';
+        return path.isAbsolute(file) ? file : path.join(DEFAULT_DIRECTORY, file);
+    }
+
+    /**
+     * Load the recording once
+     * @returns {Promise<Array<Object>>} Recorded frames
+     */
+    async loadFrames() {
+        if (this.frames) return this.frames;
+        if (!this.file) {
+            throw new Error('No recording configured');
+        }
+        if (!this.loading) {
+            this.loading = readRecording(this.file)
+                .then((frames) => {
+                    if (frames.length === 0) {
+                        throw new Error(`Recording ${path.basename(this.file)} has no frames`);
+                    }
+                    this.frames = frames;
+                    this.lastError = null;
+                    return frames;
+                })
+                .catch((error) => {
+                    this.loading = null;
+                    this.lastError = error.message;
+                    throw error;
+                });
+        }
+        return this.loading;
+    }
+
+    /**
+     * Find the frame that is current a given time into the recording
+     * @param {Array<Object>} frames - Recorded frames, oldest first
+     * @param {number} offsetMs - Recording time elapsed since the first frame
+     * @returns {number} Frame index
+     */
+    frameIndexAt(frames, offsetMs) {
+        const first = frames[0].t;
+        const duration = frames[frames.length - 1].t - first;
+        let target = Math.max(0, offsetMs);
+        if (this.loop && duration > 0 && target > duration) {
+            target %= duration;
+        }
+
+        let index = 0;
+        while (index + 1 < frames.length && frames[index + 1].t - first <= target) {
+            index += 1;
+        }
+        return index;
+    }
+
+    /**
+     * Parse one recorded provider payload
+     * @param {Object} payload - {provider, data, options} as recorded
+     * @returns {Object} Standardized flight data
+     */
+    parsePayloadFrom(payload) {
+        const Parser = PARSERS[payload.provider];
+        if (!Parser) {
+            throw new Error(`Cannot replay payloads from provider '${payload.provider}'`);
+        }
+        if (!this.parsers.has(payload.provider)) {
+            this.parsers.set(payload.provider, new Parser());
+        }
+        return this.parsers.get(payload.provider).transformFlightData(payload.data, payload.options || {});
+    }
+
+    /**
+     * Turn a recorded frame back into standardized flight data
+     * @param {Object} frame - Recorded frame
+     * @returns {Object} Standardized flight data
+     */
+    frameData(frame) {
+        if (!Array.isArray(frame.payloads)) {
+            return frame.data;
+        }
+
+        const results = frame.payloads.map(payload => {
+            const data = this.parsePayloadFrom(payload);
+            return { name: payload.provider, data, flights: Array.isArray(data.flights) ? data.flights : [] };
+        });
+        if (results.length === 1) {
+            return results[0].data;
+        }
+        return {
+            ...(results[0]?.data || {}),
+            flights: this.fusion.mergeFlights(results)
+        };
+    }
+
+    /**
+     * Answer a query with the frame due now
+     * @returns {Promise<Object>} Standardized flight data from the recording
+     */
+    async currentFrame() {
+        const frames = await this.loadFrames();
+        const now = Date.now();
+        if (this.startedAt === null) {
+            this.startedAt = now;
+        }
+
+        const index = this.frameIndexAt(frames, (now - this.startedAt) * this.speed);
+        this.lastFrameIndex = index;
+        const data = this.frameData(frames[index]);
+        return {
+            ...data,
+            flights: Array.isArray(data.flights) ? data.flights : [],
+            source: this.name,
+            timestamp: now
+        };
+    }
+
+    async getFlightsInArea(latitude, longitude, radiusKm) {
+        return this.currentFrame();
+    }
+
+    async getFlightsInBounds(north, south, west, east, options = {}) {
+        return this.currentFrame();
+    }
+
+    /**
+     * Get a flight from the frame currently playing
+     * @param {string} flightId - Flight identifier
+     * @returns {Promise<Object>} Recorded flight
+     */
+    async getFlightDetails(flightId) {
+        const data = await this.currentFrame();
+        const flight = data.flights.find(entry => entry.id === flightId || entry.icao24 === flightId);
+        if (!flight) {
+            throw new Error(`Flight ${flightId} not in the current replay frame`);
+        }
+        return flight;
+    }
+
+    /**
+     * Get health status of the adapter
+     * @returns {Object} Health status
+     */
+    getHealthStatus() {
+        const frames = this.frames || [];
+        const frame = this.lastFrameIndex !== null ? frames[this.lastFrameIndex] : null;
+        return {
+            name: this.name,
+            file: this.file ? path.basename(this.file) : null,
+            speed: this.speed,
+            loop: this.loop,
+            frames: frames.length,
+            frameIndex: this.lastFrameIndex,
+            recordedAt: frame ? new Date(frame.t).toISOString() : null,
+            lastError: this.lastError
+        };
+    }
+}
+
+module.exports = ReplayAdapter;
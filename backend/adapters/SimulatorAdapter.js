@@ -0,0 +1,306 @@
+const FlightAdapter = require('./FlightAdapter');
+const { loadAirlineTables } = require('../lib/airlineTables');
+const AirlineDirectory = require('../lib/airlineDirectory');
+const { distanceMeters, bearingDegrees, destinationPoint, intermediatePoint, inBounds } = require('../lib/geo');
+
+// Traffic pattern per scenario; density is aircraft per hour crossing the area
+const SCENARIOS = {
+    'mixed': { density: 30, profiles: ['cruise', 'cruise', 'climb', 'descent'] },
+    'busy-approach': { density: 60, profiles: ['approach'], aligned: true },
+    'empty-night': { density: 2, profiles: ['cruise'] },
+    'single-flyover': { density: 1, profiles: ['descent'], single: true },
+    'emergency-squawk': { density: 20, profiles: ['cruise', 'climb', 'descent'], emergencyEvery: 4 }
+};
+
+// Vertical profiles in meters and m/s
+const PROFILES = {
+    cruise: { speed: [220, 250], altitude: [9000, 12000], verticalRate: [0, 0], floor: 9000, ceiling: 12500 },
+    climb: { speed: [130, 180], altitude: [900, 4000], verticalRate: [7, 12], floor: 0, ceiling: 11000 },
+    descent: { speed: [150, 200], altitude: [5000, 9000], verticalRate: [-9, -5], floor: 900, ceiling: 12500 },
+    approach: { speed: [70, 85], altitude: [1500, 2000], verticalRate: [-4.5, -3.5], floor: 300, ceiling: 12500 },
+    emergency: { speed: [130, 170], altitude: [6000, 8000], verticalRate: [-13, -10], floor: 1500, ceiling: 12500 }
+};
+
+// Common ICAO type codes per profile; only those in the display's aircraft table are used
+const TYPE_POOLS = {
+    narrowbody: ['A320', 'A20N', 'A321', 'A21N', 'A319', 'B738', 'B38M', 'B737', 'B739', 'E190', 'E195'],
+    widebody: ['B789', 'B788', 'B77W', 'B772', 'A333', 'A359', 'A35K', 'A388', 'B744', 'B763'],
+    regional: ['DH8D', 'AT76', 'AT72', 'E75L', 'CRJ9', 'SF34']
+};
+
+// ADS-B emitter category reported for each pool
+const POOL_CATEGORIES = { narrowbody: 'A3', widebody: 'A5', regional: 'A2' };
+
+const AIRPORTS = ['SYD', 'MEL', 'BNE', 'PER', 'AKL', 'SIN', 'HKG', 'HND', 'ICN', 'DXB', 'DOH', 'LHR',
+    'CDG', 'FRA', 'AMS', 'MAD', 'JFK', 'LAX', 'SFO', 'ORD', 'ATL', 'DFW', 'YYZ', 'YVR', 'GRU', 'JNB'];
+
+const MIN_SPEED = 60; // m/s, bounds how long an aircraft can stay in the area
+const ENTRY_RADIUS_FACTOR = 1.2; // paths start and end just outside the area
+
+/**
+ * Seeded pseudo-random generator (mulberry32)
+ * @param {number} seed - 32-bit seed
+ * @returns {Function} Generator returning floats in [0, 1)
+ */
+function createRandom(seed) {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function hashSeed(value) {
+    let hash = 2166136261;
+    for (const char of String(value)) {
+        hash = Math.imul(hash ^ char.charCodeAt(0), 16777619);
+    }
+    return hash >>> 0;
+}
+
+const between = (random, [min, max]) => min + random() * (max - min);
+const pick = (random, items) => items[Math.floor(random() * items.length)];
+
+/**
+ * Synthetic traffic simulator
+ * Generates deterministic aircraft crossing the queried area on great-circle
+ * paths, with climb/descent profiles and callsigns and types drawn from the
+ * display's airline tables. The same seed and scenario always produce the same
+ * traffic for the same time since the adapter was created.
+ */
+class SimulatorAdapter extends FlightAdapter {
+    constructor(settings = {}) {
+        super();
+        this.name = 'simulator';
+        this.scenario = SCENARIOS[settings.scenario] ? settings.scenario : 'mixed';
+        this.seed = settings.seed !== undefined ? settings.seed : 1;
+        this.density = Number(settings.density) > 0 ? Number(settings.density) : SCENARIOS[this.scenario].density;
+        this.startedAt = Date.now();
+        this.lastFlightCount = 0;
+
+        const tables = loadAirlineTables();
+        const directory = new AirlineDirectory(tables);
+        const operators = tables.airlines.map(airline => directory.lookup(airline.iata)).filter(Boolean);
+        this.operators = operators.length > 0 ? operators : [{ icao: 'SIM', iata: 'SM' }];
+
+        const hasType = (code) => Object.keys(tables.aircraftTypes).length === 0 || !!tables.aircraftTypes[code];
+        this.typePools = Object.fromEntries(
+            Object.entries(TYPE_POOLS).map(([pool, codes]) => [pool, codes.filter(hasType)])
+        );
+    }
+
+    /**
+     * Names of the built-in scenarios
+     * @returns {Array<string>}
+     */
+    static getScenarios() {
+        return Object.keys(SCENARIOS);
+    }
+
+    /**
+     * Describe aircraft number k of the traffic stream
+     * @param {number} index - Aircraft sequence number (may be negative for traffic already airborne at start)
+     * @param {Object} region - {center, radiusM}
+     * @returns {Object} Aircraft plan: spawn time, path, profile and identity
+     */
+    planAircraft(index, region) {
+        const scenario = SCENARIOS[this.scenario];
+        const random = createRandom(hashSeed(`${this.seed}:${this.scenario}:${index}`));
+        const interval = 3600000 / this.density;
+
+        const emergency = !!scenario.emergencyEvery && index % scenario.emergencyEvery === 0;
+        const profileName = emergency ? 'emergency' : pick(random, scenario.profiles);
+        const profile = PROFILES[profileName];
+
+        // Approaches share one seeded runway line; other traffic crosses at random
+        const approachBearing = createRandom(hashSeed(`${this.seed}:runway`))() * 360;
+        let entryBearing;
+        let offset;
+        if (scenario.single) {
+            entryBearing = random() * 360;
+            offset = 0;
+        } else if (scenario.aligned) {
+            entryBearing = approachBearing + between(random, [-5, 5]);
+            offset = between(random, [-8, 8]);
+        } else {
+            entryBearing = random() * 360;
+            offset = between(random, [-50, 50]);
+        }
+
+        const pathRadius = region.radiusM * ENTRY_RADIUS_FACTOR;
+        const entry = destinationPoint(region.center.lat, region.center.lon, entryBearing, pathRadius);
+        const exit = destinationPoint(region.center.lat, region.center.lon, entryBearing + 180 + offset, pathRadius);
+        const speed = between(random, profile.speed);
+        const pathLength = distanceMeters(entry.latitude, entry.longitude, exit.latitude, exit.longitude);
+
+        const operator = pick(random, this.operators);
+        const number = 1 + Math.floor(random() * 1999);
+        const pool = profileName === 'cruise' && random() < 0.4 ? 'widebody'
+            : profileName === 'approach' && random() < 0.3 ? 'regional'
+            : 'narrowbody';
+        const types = this.typePools[pool].length > 0 ? this.typePools[pool] : TYPE_POOLS[pool];
+        const icao24 = Math.floor(random() * 0xffffff).toString(16).padStart(6, '0');
+        const origin = pick(random, AIRPORTS);
+        const destination = pick(random, AIRPORTS.filter(code => code !== origin));
+        const squawk = emergency ? '7700'
+            : `${1 + Math.floor(random() * 6)}${Array.from({ length: 3 }, () => Math.floor(random() * 8)).join('')}`;
+
+        return {
+            spawnAt: scenario.single ? 5000 : (index + random() * 0.8) * interval,
+            duration: pathLength / speed * 1000,
+            entry,
+            exit,
+            speed,
+            altitude: Math.round(between(random, profile.altitude) / 30) * 30,
+            verticalRate: between(random, profile.verticalRate),
+            profile,
+            icao24,
+            callsign: `${operator.icao}${number}`,
+            flightNumber: `${operator.iata}${number}`,
+            airline: operator.icao,
+            aircraft: pick(random, types),
+            registration: `SIM-${icao24.slice(-3).toUpperCase()}`,
+            category: POOL_CATEGORIES[pool],
+            origin,
+            destination,
+            squawk
+        };
+    }
+
+    /**
+     * Position and telemetry of a planned aircraft at a point in time
+     * @param {Object} plan - Result of planAircraft
+     * @param {number} elapsedMs - Time since the simulation started
+     * @returns {Object} Standardized flight object
+     */
+    flyAircraft(plan, elapsedMs) {
+        const seconds = (elapsedMs - plan.spawnAt) / 1000;
+        const position = intermediatePoint(plan.entry, plan.exit, Math.min(1, Math.max(0, seconds * 1000 / plan.duration)));
+
+        const unclamped = plan.altitude + plan.verticalRate * seconds;
+        const altitude = Math.min(plan.profile.ceiling, Math.max(plan.profile.floor, unclamped));
+        const levelledOff = altitude !== unclamped;
+
+        const flight = this.createStandardFlight();
+        return {
+            ...flight,
+            id: this.generateFlightId(plan.icao24, plan.callsign),
+            icao24: plan.icao24,
+            callsign: plan.callsign,
+            flightNumber: plan.flightNumber,
+            airline: plan.airline,
+            aircraft: plan.aircraft,
+            registration: plan.registration,
+            category: plan.category,
+            origin: plan.origin,
+            destination: plan.destination,
+            latitude: position.latitude,
+            longitude: position.longitude,
+            altitude,
+            heading: bearingDegrees(position.latitude, position.longitude, plan.exit.latitude, plan.exit.longitude),
+            velocity: plan.speed,
+            verticalRate: levelledOff ? 0 : plan.verticalRate,
+            squawk: plan.squawk,
+            onGround: false,
+            timestamp: this.startedAt + elapsedMs
+        };
+    }
+
+    /**
+     * Aircraft inside a region at a point in time
+     * @param {number} elapsedMs - Time since the simulation started
+     * @param {Object} region - {center, radiusM, bounds?}; without bounds the region is a circle
+     * @returns {Array<Object>} Standardized flight objects
+     */
+    flightsAt(elapsedMs, region) {
+        const scenario = SCENARIOS[this.scenario];
+        const interval = 3600000 / this.density;
+        const longest = 2 * region.radiusM * ENTRY_RADIUS_FACTOR / MIN_SPEED * 1000;
+
+        const first = scenario.single ? 0 : Math.floor((elapsedMs - longest) / interval) - 1;
+        const last = scenario.single ? 0 : Math.floor(elapsedMs / interval);
+
+        const flights = [];
+        for (let index = first; index <= last; index++) {
+            const plan = this.planAircraft(index, region);
+            if (elapsedMs < plan.spawnAt || elapsedMs > plan.spawnAt + plan.duration) continue;
+
+            const flight = this.flyAircraft(plan, elapsedMs);
+            const inside = region.bounds
+                ? inBounds(flight.latitude, flight.longitude, region.bounds)
+                : distanceMeters(region.center.lat, region.center.lon, flight.latitude, flight.longitude) <= region.radiusM;
+            if (inside) flights.push(flight);
+        }
+        return flights;
+    }
+
+    /**
+     * Get simulated flights in a circular area
+     * @param {number} latitude - Center latitude
+     * @param {number} longitude - Center longitude
+     * @param {number} radiusKm - Radius in kilometers
+     * @returns {Promise<Object>} Standardized flight data
+     */
+    async getFlightsInArea(latitude, longitude, radiusKm) {
+        const region = { center: { lat: latitude, lon: longitude }, radiusM: radiusKm * 1000 };
+        return this.transformFlightData(this.flightsAt(Date.now() - this.startedAt, region), {
+            center: region.center,
+            radius: region.radiusM,
+            location: `Simulator (${this.scenario}) around ${latitude.toFixed(4)}, ${longitude.toFixed(4)}`
+        });
+    }
+
+    /**
+     * Get simulated flights in a rectangular area
+     * @param {number} north - Northern boundary latitude
+     * @param {number} south - Southern boundary latitude
+     * @param {number} west - Western boundary longitude
+     * @param {number} east - Eastern boundary longitude
+     * @returns {Promise<Object>} Standardized flight data
+     */
+    async getFlightsInBounds(north, south, west, east) {
+        const center = { lat: (north + south) / 2, lon: (east + west) / 2 };
+        const region = {
+            center,
+            radiusM: distanceMeters(center.lat, center.lon, north, east),
+            bounds: { north, south, west, east }
+        };
+        return this.transformFlightData(this.flightsAt(Date.now() - this.startedAt, region), {
+            center,
+            radius: region.radiusM,
+            location: `Simulator (${this.scenario}) Rectangle (${north.toFixed(4)}, ${west.toFixed(4)}) to (${south.toFixed(4)}, ${east.toFixed(4)})`
+        });
+    }
+
+    async getFlightDetails(flightId) {
+        throw new Error('Flight details are not available for simulated traffic');
+    }
+
+    transformFlightData(flights, options = {}) {
+        this.lastFlightCount = flights.length;
+        return {
+            ...super.transformFlightData(flights, options),
+            flights
+        };
+    }
+
+    /**
+     * Get health status of the adapter
+     * @returns {Object} Health status
+     */
+    getHealthStatus() {
+        return {
+            name: this.name,
+            scenario: this.scenario,
+            seed: this.seed,
+            density: this.density,
+            startedAt: new Date(this.startedAt).toISOString(),
+            aircraftCount: this.lastFlightCount
+        };
+    }
+}
+
+module.exports = SimulatorAdapter;
@@ -0,0 +1,345 @@
+const net = require('net');
+const FlightAdapter = require('./FlightAdapter');
+
+/**
+ * Base class for adapters fed by a line-oriented TCP stream from a local receiver
+ * Keeps the connection open, reconnects with backoff and maintains a live
+ * per-aircraft table that subclasses update from handleLine()
+ */
+class TcpFeedAdapter extends FlightAdapter {
+    /**
+     * @param {Object} settings - Provider settings (host, port, maxAge, maxPositionAge, reconnectDelay, maxReconnectDelay)
+     * @param {Object} defaults - Subclass defaults (label, host, port)
+     */
+    constructor(settings = {}, defaults = {}) {
+        super();
+        this.label = defaults.label || 'TCP feed';
+        this.host = settings.host || defaults.host || '127.0.0.1';
+        this.port = Number(settings.port || defaults.port);
+        // Aircraft not heard from for this long are dropped (seconds)
+        this.maxAge = Number(settings.maxAge) || 60;
+        // Positions not refreshed for this long are cleared (seconds)
+        this.maxPositionAge = Number(settings.maxPositionAge) || 60;
+        // Reconnect backoff bounds (milliseconds)
+        this.reconnectDelay = Number(settings.reconnectDelay) || 1000;
+        this.maxReconnectDelay = Number(settings.maxReconnectDelay) || 30000;
+
+        // Live aircraft table keyed by ICAO24 hex
+        this.aircraft = new Map();
+
+        // Connection management
+        this.socket = null;
+        this.buffer = '';
+        this.reconnectTimer = null;
+        this.currentDelay = this.reconnectDelay;
+        this.closed = false;
+
+        // Health tracking
+        this.connected = false;
+        this.connectedSince = null;
+        this.reconnects = 0;
+        this.lastMessageAt = null;
+        this.lastError = null;
+        this.messagesParsed = 0;
+        this.malformedLines = 0;
+    }
+
+    /**
+     * Open the feed connection if it is not already open
+     * Called lazily by the query methods so creating the adapter has no side effects
+     */
+    start() {
+        if (this.closed || this.socket || this.reconnectTimer) return;
+        this.connect();
+    }
+
+    /**
+     * Connect to the feed
+     */
+    connect() {
+        this.reconnectTimer = null;
+        console.log(`${this.label}: Connecting to ${this.host}:${this.port}`);
+
+        const socket = net.createConnection({ host: this.host, port: this.port });
+        this.socket = socket;
+        socket.setEncoding('utf8');
+        socket.setKeepAlive(true, 10000);
+
+        socket.on('connect', () => {
+            console.log(`${this.label}: Connected to ${this.host}:${this.port}`);
+            this.connected = true;
+            this.connectedSince = new Date();
+            this.currentDelay = this.reconnectDelay;
+            this.lastError = null;
+        });
+
+        socket.on('data', (chunk) => this.handleData(chunk));
+
+        socket.on('error', (error) => {
+            this.lastError = error.message;
+            console.warn(`${this.label}: Connection error: ${error.message}`);
+        });
+
+        socket.on('close', () => {
+            this.connected = false;
+            this.connectedSince = null;
+            this.buffer = '';
+            if (this.socket === socket) {
+                this.socket = null;
+            }
+            this.scheduleReconnect();
+        });
+    }
+
+    /**
+     * Schedule a reconnect with exponential backoff
+     */
+    scheduleReconnect() {
+        if (this.closed || this.reconnectTimer) return;
+
+        const delay = this.currentDelay;
+        this.currentDelay = Math.min(this.currentDelay * 2, this.maxReconnectDelay);
+        this.reconnects += 1;
+
+        console.log(`${this.label}: Reconnecting in ${delay}ms`);
+        this.reconnectTimer = setTimeout(() => this.connect(), delay);
+        this.reconnectTimer.unref?.();
+    }
+
+    /**
+     * Close the feed connection and stop reconnecting
+     */
+    close() {
+        this.closed = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        if (this.socket) {
+            this.socket.destroy();
+            this.socket = null;
+        }
+        this.connected = false;
+    }
+
+    /**
+     * Split incoming data into complete lines
+     * @param {string} chunk - Raw socket data
+     */
+    handleData(chunk) {
+        this.buffer += chunk;
+        const lines = this.buffer.split('\n');
+        this.buffer = lines.pop();
+
+        for (const line of lines) {
+            this.handleLine(line);
+        }
+    }
+
+    /**
+     * Parse a single feed line and merge it into the aircraft table
+     * @param {string} line - Single line from the feed
+     * @param {number} now - Receive time in milliseconds
+     */
+    handleLine(line, now = Date.now()) {
+        throw new Error('Must implement handleLine method');
+    }
+
+    /**
+     * Get or create the table entry for an aircraft
+     * @param {string} hex - ICAO24 address (lowercase)
+     * @param {number} now - Receive time in milliseconds
+     * @returns {Object} Aircraft state
+     */
+    getAircraftState(hex, now = Date.now()) {
+        let state = this.aircraft.get(hex);
+        if (!state) {
+            state = {
+                icao24: hex,
+                callsign: '',
+                category: '', // ADS-B emitter category (AVR identification messages only)
+                altitude: null, // feet
+                groundSpeed: null, // knots
+                track: null, // degrees
+                latitude: null,
+                longitude: null,
+                verticalRate: null, // feet per minute
+                squawk: '',
+                onGround: false,
+                lastSeen: now,
+                lastPosition: null,
+                messages: 0
+            };
+            this.aircraft.set(hex, state);
+        }
+        return state;
+    }
+
+    /**
+     * Record that a message for an aircraft was merged into the table
+     * @param {Object} state - Aircraft state
+     * @param {number} now - Receive time in milliseconds
+     */
+    touchAircraft(state, now = Date.now()) {
+        state.lastSeen = now;
+        state.messages += 1;
+        this.messagesParsed += 1;
+        this.lastMessageAt = new Date(now);
+    }
+
+    /**
+     * Drop aircraft that have not been heard from within maxAge, and clear
+     * positions older than maxPositionAge from aircraft that only send other messages
+     * @param {number} now - Current time in milliseconds
+     */
+    pruneAircraft(now = Date.now()) {
+        const cutoff = now - this.maxAge * 1000;
+        const positionCutoff = now - this.maxPositionAge * 1000;
+        for (const [hex, state] of this.aircraft) {
+            if (state.lastSeen < cutoff) {
+                this.aircraft.delete(hex);
+            } else if (state.lastPosition !== null && state.lastPosition < positionCutoff) {
+                state.latitude = null;
+                state.longitude = null;
+                state.lastPosition = null;
+            }
+        }
+    }
+
+    /**
+     * Get flights in a specific area from the live aircraft table
+     * @param {number} latitude - Center latitude
+     * @param {number} longitude - Center longitude
+     * @param {number} radiusKm - Radius in kilometers
+     * @returns {Promise<Object>} Standardized flight data
+     */
+    async getFlightsInArea(latitude, longitude, radiusKm) {
+        const bounds = this.calculateBounds(latitude, longitude, radiusKm);
+        return this.getFlightsInBounds(bounds.north, bounds.south, bounds.west, bounds.east, {
+            center: { lat: latitude, lon: longitude },
+            radius: radiusKm * 1000, // Convert to meters
+            location: `${this.label} (${latitude.toFixed(4)}, ${longitude.toFixed(4)})`
+        });
+    }
+
+    /**
+     * Get flights in a specific rectangular area from the live aircraft table
+     * @param {number} north - Northern boundary latitude
+     * @param {number} south - Southern boundary latitude
+     * @param {number} west - Western boundary longitude
+     * @param {number} east - Eastern boundary longitude
+     * @param {Object} options - Additional options for metadata
+     * @returns {Promise<Object>} Standardized flight data
+     */
+    async getFlightsInBounds(north, south, west, east, options = {}) {
+        this.start();
+        this.pruneAircraft();
+
+        const centerLat = (north + south) / 2;
+        const centerLon = (east + west) / 2;
+        const latDiff = north - south;
+        const lonDiff = east - west;
+        const radius = Math.sqrt(latDiff * latDiff + lonDiff * lonDiff) * 111000 / 2;
+
+        return this.parsePayload(Array.from(this.aircraft.values()), {
+            center: options.center || { lat: centerLat, lon: centerLon },
+            radius: options.radius || radius,
+            location: options.location || `${this.label} Rectangle (${north.toFixed(4)}, ${west.toFixed(4)}) to (${south.toFixed(4)}, ${east.toFixed(4)})`,
+            bounds: { north, south, west, east }
+        });
+    }
+
+    /**
+     * Get the live table entry for a single aircraft
+     * @param {string} flightId - Flight identifier (icao24 or generated id)
+     * @returns {Promise<Object>} Aircraft state
+     */
+    async getFlightDetails(flightId) {
+        const hex = String(flightId || '').split('_')[0].toLowerCase();
+        const state = this.aircraft.get(hex);
+        if (!state) {
+            throw new Error(`Aircraft ${hex} not seen on ${this.label} feed`);
+        }
+        return { ...state };
+    }
+
+    /**
+     * Transform the aircraft table to standardized format
+     * @param {Array<Object>} states - Aircraft table entries
+     * @param {Object} options - Additional options
+     * @returns {Object} Standardized flight data
+     */
+    transformFlightData(states, options = {}) {
+        const bounds = options.bounds;
+        const inBounds = (flight) => !bounds || (
+            flight.latitude <= bounds.north &&
+            flight.latitude >= bounds.south &&
+            flight.longitude >= bounds.west &&
+            flight.longitude <= bounds.east
+        );
+
+        const flights = states.map(state => this.parseAircraftState(state));
+
+        return {
+            flights: flights.filter(f => f.latitude !== null && f.longitude !== null && !f.onGround && inBounds(f)),
+            center: options.center || { lat: 0, lon: 0 },
+            radius: options.radius || 0,
+            location: options.location || 'Unknown',
+            source: this.name,
+            timestamp: Date.now()
+        };
+    }
+
+    /**
+     * Convert an aircraft table entry to a standardized flight
+     * @param {Object} state - Aircraft state
+     * @returns {Object} Standardized flight object
+     */
+    parseAircraftState(state) {
+        const match = state.callsign.match(/^([A-Z]{3})\d/);
+
+        return {
+            id: this.generateFlightId(state.icao24, state.callsign),
+            icao24: state.icao24,
+            callsign: state.callsign,
+            flightNumber: state.callsign,
+            airline: match ? match[1] : '',
+            aircraft: '', // Not available from a receiver feed
+            registration: '', // Not available from a receiver feed
+            category: state.category,
+            origin: '', // Not available from a receiver feed
+            destination: '', // Not available from a receiver feed
+            latitude: state.latitude,
+            longitude: state.longitude,
+            altitude: state.altitude !== null ? state.altitude * 0.3048 : null, // Convert feet to meters
+            heading: state.track,
+            velocity: state.groundSpeed !== null ? state.groundSpeed * 0.514444 : null, // Convert knots to m/s
+            verticalRate: state.verticalRate !== null ? state.verticalRate * 0.00508 : null, // Convert fpm to m/s
+            squawk: state.squawk,
+            onGround: state.onGround,
+            timestamp: state.lastPosition || state.lastSeen
+        };
+    }
+
+    /**
+     * Get health status of the adapter
+     * @returns {Object} Health status
+     */
+    getHealthStatus() {
+        return {
+            name: this.name,
+            host: this.host,
+            port: this.port,
+            connected: this.connected,
+            connectedSince: this.connectedSince ? this.connectedSince.toISOString() : null,
+            reconnects: this.reconnects,
+            lastMessageAt: this.lastMessageAt ? this.lastMessageAt.toISOString() : null,
+            lastError: this.lastError,
+            messagesParsed: this.messagesParsed,
+            malformedLines: this.malformedLines,
+            aircraftCount: this.aircraft.size
+        };
+    }
+}
+
+module.exports = TcpFeedAdapter;
@@ -1,12 +1,36 @@
+const fs = require('fs');
+const path = require('path');
 const OpenSkyAdapter = require('./OpenSkyAdapter');
 const FlightRadar24Adapter = require('./FlightRadar24Adapter');
+const ReadsbAdapter = require('./ReadsbAdapter');
+const BaseStationAdapter = require('./BaseStationAdapter');
+const AvrAdapter = require('./AvrAdapter');
+const FailoverAdapter = require('./FailoverAdapter');
+const FusionAdapter = require('./FusionAdapter');
+const ReplayAdapter = require('./ReplayAdapter');
+const SimulatorAdapter = require('./SimulatorAdapter');
 
 /**
  * Factory function to create flight data adapters
- * @param {string} provider - Provider name ('opensky' or 'flightradar24')
+ * @param {string|Array<string>} provider - Provider name ('opensky', 'flightradar24', 'readsb', 'basestation', 'avr', 'replay' or 'simulator'),
+ *   or an ordered list of names to use as a failover chain (or, with providerSettings.chain.mode 'fusion', to merge)
+ * @param {Object} settings - Per-provider settings keyed by provider name (config.providerSettings)
  * @returns {FlightAdapter} Configured adapter instance
  */
-function createFlightAdapter(provider) {
+function createFlightAdapter(provider, settings = {}) {
+    if (Array.isArray(provider)) {
+        if (provider.length === 1) {
+            return createFlightAdapter(provider[0], settings);
+        }
+        const adapters = provider.map(name => createFlightAdapter(name, settings));
+        if (settings.chain?.mode === 'fusion') {
+            console.log(`Creating fusion of: ${provider.join(' + ')}`);
+            return new FusionAdapter(adapters, settings.chain);
+        }
+        console.log(`Creating failover chain: ${provider.join(' -> ')}`);
+        return new FailoverAdapter(adapters, settings.chain);
+    }
+
     const normalizedProvider = provider?.toLowerCase();
     
     switch (normalizedProvider) {
@@ -18,6 +42,31 @@ function createFlightAdapter(provider) {
         case 'fr24':
             console.log('Creating FlightRadar24 adapter');
             return new FlightRadar24Adapter();
+
+        case 'readsb':
+        case 'dump1090':
+        case 'tar1090':
+            console.log('Creating local receiver (readsb) adapter');
+            return new ReadsbAdapter(settings.readsb);
+
+        case 'basestation':
+        case 'sbs':
+            console.log('Creating BaseStation (SBS-1) feed adapter');
+            return new BaseStationAdapter(settings.basestation);
+
+        case 'avr':
+        case 'rtl_adsb':
+            console.log('Creating raw Mode-S (AVR) decoding adapter');
+            return new AvrAdapter(settings.avr);
+
+        case 'replay':
+            console.log('Creating recording replay adapter');
+            return new ReplayAdapter(settings.replay);
+
+        case 'simulator':
+        case 'sim':
+            console.log('Creating synthetic traffic simulator');
+            return new SimulatorAdapter(settings.simulator);
             
         default:
             console.warn(`Unknown provider '${provider}', defaulting to FlightRadar24`);
@@ -30,15 +79,51 @@ function createFlightAdapter(provider) {
  * @returns {Array<string>} Available provider names
  */
 function getAvailableProviders() {
-    return ['opensky', 'flightradar24'];
+    return ['opensky', 'flightradar24', 'readsb', 'basestation', 'avr', 'replay', 'simulator'];
 }
 
 /**
  * Validate provider configuration
- * @param {string} provider - Provider name
+ * @param {string|Array<string>} provider - Provider name or ordered failover chain
+ * @param {Object} settings - Per-provider settings keyed by provider name (config.providerSettings)
  * @returns {Object} Validation result
  */
-function validateProviderConfig(provider) {
+function validateProviderConfig(provider, settings = {}) {
+    if (Array.isArray(provider)) {
+        if (provider.length === 0) {
+            return {
+                valid: false,
+                provider: provider,
+                message: 'Provider chain must contain at least one provider'
+            };
+        }
+
+        const mode = settings.chain?.mode;
+        if (mode !== undefined && mode !== 'failover' && mode !== 'fusion') {
+            return {
+                valid: false,
+                provider: provider,
+                message: `Unknown chain mode '${mode}'. Available: failover, fusion`
+            };
+        }
+
+        const results = provider.map(name => validateProviderConfig(name, settings));
+        const names = results.map(result => result.provider);
+        const invalid = results.filter(result => !result.valid);
+        if (new Set(names).size !== names.length) {
+            return {
+                valid: false,
+                provider: names,
+                message: `Provider chain lists a provider more than once: ${names.join(', ')}`
+            };
+        }
+        return {
+            valid: invalid.length === 0,
+            provider: names,
+            message: (invalid.length > 0 ? invalid : results).map(result => result.message).join('; ')
+        };
+    }
+
     const normalizedProvider = provider?.toLowerCase();
     
     switch (normalizedProvider) {
@@ -59,6 +144,63 @@ function validateProviderConfig(provider) {
                 provider: 'flightradar24',
                 message: 'FlightRadar24 requires no authentication'
             };
+
+        case 'readsb':
+        case 'dump1090':
+        case 'tar1090':
+            const source = settings.readsb?.source || process.env.READSB_SOURCE;
+            return {
+                valid: !!source,
+                provider: 'readsb',
+                message: source
+                    ? `Reading aircraft.json from ${source}`
+                    : 'Local receiver requires an aircraft.json URL or file path (providerSettings.readsb.source or READSB_SOURCE)'
+            };
+
+        case 'basestation':
+        case 'sbs':
+            const host = settings.basestation?.host || process.env.SBS_HOST || '127.0.0.1';
+            const port = settings.basestation?.port || process.env.SBS_PORT || 30003;
+            return {
+                valid: true,
+                provider: 'basestation',
+                message: `Reading BaseStation feed from ${host}:${port}`
+            };
+
+        case 'avr':
+        case 'rtl_adsb':
+            const avrHost = settings.avr?.host || process.env.AVR_HOST || '127.0.0.1';
+            const avrPort = settings.avr?.port || process.env.AVR_PORT || 30002;
+            return {
+                valid: true,
+                provider: 'avr',
+                message: `Decoding AVR frames from ${avrHost}:${avrPort}`
+            };
+
+        case 'replay':
+            const recording = ReplayAdapter.resolveFile(settings.replay?.file || process.env.REPLAY_FILE || '');
+            const recordingExists = !!recording && fs.existsSync(recording);
+            return {
+                valid: recordingExists,
+                provider: 'replay',
+                message: !recording
+                    ? 'Replay requires a recording (providerSettings.replay.file or REPLAY_FILE)'
+                    : recordingExists
+                        ? `Replaying ${path.basename(recording)} at ${Number(settings.replay?.speed) > 0 ? Number(settings.replay.speed) : 1}x`
+                        : `Recording not found: ${recording}`
+            };
+
+        case 'simulator':
+        case 'sim':
+            const scenario = settings.simulator?.scenario || 'mixed';
+            const scenarios = SimulatorAdapter.getScenarios();
+            return {
+                valid: scenarios.includes(scenario),
+                provider: 'simulator',
+                message: scenarios.includes(scenario)
+                    ? `Simulating '${scenario}' traffic (seed ${settings.simulator?.seed ?? 1})`
+                    : `Unknown simulator scenario '${scenario}'. Available: ${scenarios.join(', ')}`
+            };
             
         default:
             return {
@@ -0,0 +1,211 @@
+const fs = require('fs');
+const { parseCsvRecords, readCsvRecords } = require('./csv');
+
+// Accepted column names per field; the first set matches the OpenSky aircraft database export
+const COLUMN_ALIASES = {
+  icao24: ['icao24', 'hex', 'icao', 'modes'],
+  registration: ['registration', 'reg', 'tail'],
+  typeCode: ['typecode', 'type_code', 'type', 'icaotype'],
+  operator: ['operator', 'owner', 'airline'],
+  built: ['built', 'year', 'yearbuilt', 'year_built']
+};
+
+const ICAO24_PATTERN = /^[0-9a-f]{6}$/;
+// Rows written per transaction when streaming an import from disk
+const IMPORT_BATCH_SIZE = 1000;
+
+function unquote(value) {
+  return String(value ?? '').trim().replace(/^'(.*)'$/, '$1').trim();
+}
+
+function normalizeIcao24(value) {
+  return unquote(value).toLowerCase();
+}
+
+function toYearOrNull(value) {
+  const match = unquote(value).match(/^(\d{4})/);
+  return match ? Number(match[1]) : null;
+}
+
+// Which CSV column (by record key) holds each registry field
+function columnMapping(record) {
+  const keys = Object.keys(record);
+  const columns = keys.map(unquote);
+  const columnFor = (field) => {
+    const index = columns.findIndex(name => COLUMN_ALIASES[field].includes(name));
+    return index === -1 ? null : keys[index];
+  };
+  const mapping = Object.fromEntries(Object.keys(COLUMN_ALIASES).map(field => [field, columnFor(field)]));
+  if (!mapping.icao24) throw new Error('CSV needs an icao24 column');
+  return mapping;
+}
+
+/**
+ * Offline aircraft registry keyed by ICAO24 (Mode S) address
+ * Holds registration, ICAO type code, operator and year built per airframe,
+ * imported from CSV (for example the OpenSky aircraft database) or edited
+ * one airframe at a time from the Admin page.
+ */
+class AircraftRegistry {
+  /**
+   * @param {Object} options
+   * @param {import('better-sqlite3').Database} options.db - Database holding the registry table
+   */
+  constructor({ db }) {
+    this.db = db;
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS aircraft (
+        icao24 TEXT PRIMARY KEY,
+        registration TEXT,
+        typeCode TEXT,
+        operator TEXT,
+        built INTEGER,
+        updatedAt TEXT
+      );
+    `);
+    this.statements = {
+      find: db.prepare(`SELECT * FROM aircraft WHERE icao24 = ?`),
+      search: db.prepare(`SELECT * FROM aircraft
+        WHERE icao24 LIKE @pattern OR registration LIKE @pattern OR typeCode LIKE @pattern OR operator LIKE @pattern
+        ORDER BY icao24 ASC LIMIT @limit OFFSET @offset`),
+      count: db.prepare(`SELECT COUNT(*) AS total FROM aircraft
+        WHERE icao24 LIKE @pattern OR registration LIKE @pattern OR typeCode LIKE @pattern OR operator LIKE @pattern`),
+      upsert: db.prepare(`INSERT INTO aircraft (icao24, registration, typeCode, operator, built, updatedAt)
+        VALUES (@icao24, @registration, @typeCode, @operator, @built, @updatedAt)
+        ON CONFLICT(icao24) DO UPDATE SET registration=@registration, typeCode=@typeCode, operator=@operator,
+        built=@built, updatedAt=@updatedAt`),
+      remove: db.prepare(`DELETE FROM aircraft WHERE icao24 = ?`)
+    };
+  }
+
+  /**
+   * Find an airframe
+   * @param {string} icao24 - Six-digit hex address
+   * @returns {Object|null} { icao24, registration, typeCode, operator, built, updatedAt }
+   */
+  lookup(icao24) {
+    const normalized = normalizeIcao24(icao24);
+    if (!ICAO24_PATTERN.test(normalized)) return null;
+    return this.statements.find.get(normalized) || null;
+  }
+
+  /**
+   * Page through the registry
+   * @param {Object} options
+   * @param {string} [options.search] - Matches address, registration, type or operator
+   * @param {number} [options.limit] - Page size (max 500)
+   * @param {number} [options.offset] - Rows to skip
+   * @returns {{aircraft: Array<Object>, total: number}}
+   */
+  list({ search = '', limit = 50, offset = 0 } = {}) {
+    const params = {
+      pattern: `%${String(search).trim()}%`,
+      limit: Math.min(Math.max(Number(limit) || 50, 1), 500),
+      offset: Math.max(Number(offset) || 0, 0)
+    };
+    return {
+      aircraft: this.statements.search.all(params),
+      total: this.statements.count.get(params).total
+    };
+  }
+
+  /**
+   * Add or replace an airframe
+   * @param {Object} entry - icao24 plus any of registration, typeCode, operator, built
+   * @returns {Object} Stored airframe
+   */
+  save(entry = {}) {
+    const icao24 = normalizeIcao24(entry.icao24);
+    if (!ICAO24_PATTERN.test(icao24)) throw new Error('A six-digit hex ICAO24 address is required');
+
+    const row = {
+      icao24,
+      registration: unquote(entry.registration).toUpperCase() || null,
+      typeCode: unquote(entry.typeCode).toUpperCase() || null,
+      operator: unquote(entry.operator) || null,
+      built: toYearOrNull(entry.built),
+      updatedAt: new Date().toISOString()
+    };
+    this.statements.upsert.run(row);
+    return row;
+  }
+
+  /**
+   * Remove an airframe
+   * @param {string} icao24 - Six-digit hex address
+   * @returns {boolean} Whether an airframe was removed
+   */
+  remove(icao24) {
+    return this.statements.remove.run(normalizeIcao24(icao24)).changes > 0;
+  }
+
+  /**
+   * Import airframes from CSV text
+   * The header row picks the columns (icao24, registration, typecode, operator,
+   * built or their common aliases); rows without a valid address are skipped and
+   * existing airframes are replaced.
+   * @param {string} text - CSV contents
+   * @returns {{imported: number, skipped: number}}
+   */
+  importCsv(text) {
+    const records = parseCsvRecords(String(text || ''));
+    if (records.length === 0) return { imported: 0, skipped: 0 };
+    return this.importRecords(columnMapping(records[0]), records);
+  }
+
+  /**
+   * Import airframes from a CSV file, streamed line by line
+   * Takes the same columns as importCsv and writes every IMPORT_BATCH_SIZE rows
+   * in their own transaction, so a full registry dump never sits in memory.
+   * @param {string} filePath - Path to the CSV file
+   * @returns {Promise<{imported: number, skipped: number}>}
+   */
+  async importCsvFile(filePath) {
+    const totals = { imported: 0, skipped: 0 };
+    let mapping = null;
+    let batch = [];
+    const flush = () => {
+      const { imported, skipped } = this.importRecords(mapping, batch);
+      totals.imported += imported;
+      totals.skipped += skipped;
+      batch = [];
+    };
+
+    for await (const record of readCsvRecords(fs.createReadStream(filePath, 'utf8'))) {
+      if (!mapping) mapping = columnMapping(record);
+      batch.push(record);
+      if (batch.length >= IMPORT_BATCH_SIZE) flush();
+    }
+    if (batch.length > 0) flush();
+    return totals;
+  }
+
+  /**
+   * Save CSV records in one transaction
+   * @param {Object} mapping - Record key per registry field
+   * @param {Array<Object>} records - CSV records
+   * @returns {{imported: number, skipped: number}}
+   */
+  importRecords(mapping, records) {
+    let imported = 0;
+    let skipped = 0;
+    const importAll = this.db.transaction(() => {
+      for (const record of records) {
+        const entry = Object.fromEntries(
+          Object.entries(mapping).map(([field, column]) => [field, column ? record[column] : ''])
+        );
+        if (!ICAO24_PATTERN.test(normalizeIcao24(entry.icao24))) {
+          skipped += 1;
+          continue;
+        }
+        this.save(entry);
+        imported += 1;
+      }
+    });
+    importAll();
+
+    return { imported, skipped };
+  }
+}
+
+module.exports = AircraftRegistry;
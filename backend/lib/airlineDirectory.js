@@ -0,0 +1,84 @@
+const { loadAirlineTables } = require('./airlineTables');
+
+// ICAO callsigns that carry a marketed flight number: designator + 1-4 digits, optionally one letter
+const ICAO_CALLSIGN = /^([A-Z]{3})(\d{1,4}[A-Z]?)$/;
+// Marketed flight numbers: IATA code (may contain a digit) + 1-4 digits, optionally one letter
+const IATA_FLIGHT_NUMBER = /^([A-Z0-9]{2})(\d{1,4}[A-Z]?)$/;
+
+/**
+ * ICAO/IATA airline designator lookup
+ * Merges the bundled designator table with the display's airline record in
+ * src/lib/airlines.ts (whose names win), and converts ICAO callsigns such as
+ * BAW289 into marketed flight numbers such as BA289.
+ */
+class AirlineDirectory {
+  /**
+   * @param {Object} tables - Result of loadAirlineTables (defaults to the bundled tables)
+   */
+  constructor(tables = loadAirlineTables()) {
+    const displayNames = new Map(tables.airlines.map(airline => [airline.iata, airline.name]));
+
+    this.byIcao = new Map();
+    this.byIata = new Map();
+    for (const entry of tables.designators) {
+      const icao = String(entry.icao || '').toUpperCase();
+      const iata = String(entry.iata || '').toUpperCase();
+      if (!icao) continue;
+
+      const airline = {
+        icao,
+        iata,
+        name: displayNames.get(iata) || entry.name || icao,
+        callsign: entry.callsign || '',
+        country: entry.country || ''
+      };
+      this.byIcao.set(icao, airline);
+
+      // Several designators can share an IATA code (e.g. an airline and its cargo arm)
+      const existing = this.byIata.get(iata);
+      if (iata && (!existing || (displayNames.get(iata) === entry.name && displayNames.get(iata) !== existing.name))) {
+        this.byIata.set(iata, airline);
+      }
+    }
+  }
+
+  /**
+   * Resolve an airline code
+   * @param {string} code - ICAO designator (3 letters) or IATA code (2 characters)
+   * @returns {Object|null} Airline { icao, iata, name, callsign, country }
+   */
+  lookup(code) {
+    const normalized = String(code || '').trim().toUpperCase();
+    if (normalized.length === 3) return this.byIcao.get(normalized) || null;
+    if (normalized.length === 2) return this.byIata.get(normalized) || null;
+    return null;
+  }
+
+  /**
+   * Work out the operator and marketed flight number behind a callsign
+   * @param {string} callsign - ICAO callsign (BAW289) or IATA flight number (BA289)
+   * @returns {Object|null} { airline, flightNumber } or null when the callsign is not an airline flight
+   */
+  parseCallsign(callsign) {
+    const normalized = String(callsign || '').trim().toUpperCase().replace(/\s+/g, '');
+
+    const icaoMatch = normalized.match(ICAO_CALLSIGN);
+    if (icaoMatch) {
+      const airline = this.byIcao.get(icaoMatch[1]);
+      if (airline) {
+        const number = icaoMatch[2].replace(/^0+(?=\d)/, '');
+        return { airline, flightNumber: airline.iata ? `${airline.iata}${number}` : normalized };
+      }
+    }
+
+    const iataMatch = normalized.match(IATA_FLIGHT_NUMBER);
+    if (iataMatch) {
+      const airline = this.byIata.get(iataMatch[1]);
+      if (airline) return { airline, flightNumber: normalized };
+    }
+
+    return null;
+  }
+}
+
+module.exports = AirlineDirectory;
@@ -0,0 +1,48 @@
+const fs = require('fs');
+const path = require('path');
+const { parseCsvRecords } = require('./csv');
+
+// The display's airline and aircraft type tables, also bundled by the frontend from this file
+const TABLES_FILE = path.join(__dirname, '..', 'data', 'airlineTables.json');
+// ICAO designators with IATA codes and radiotelephony callsigns (OpenFlights): icao,iata,name,callsign,country
+const DESIGNATORS_FILE = path.join(__dirname, '..', 'data', 'airlines.csv');
+
+let cached = null;
+
+/**
+ * Load the airline and aircraft type tables
+ * Missing files leave the matching table empty rather than stopping the server
+ * @returns {{airlines: Array<Object>, aircraftTypes: Object<string, string>, designators: Array<Object>}}
+ */
+function loadAirlineTables() {
+  if (cached) return cached;
+
+  let tables = {};
+  try {
+    tables = JSON.parse(fs.readFileSync(TABLES_FILE, 'utf8'));
+  } catch (error) {
+    console.warn(`Airline tables not loaded: ${error.message}`);
+  }
+
+  let designators = [];
+  try {
+    designators = parseCsvRecords(fs.readFileSync(DESIGNATORS_FILE, 'utf8'));
+  } catch (error) {
+    console.warn(`Airline designators not loaded: ${error.message}`);
+  }
+
+  const airlines = Object.entries(tables.airlines || {}).map(([iata, airline]) => ({
+    iata,
+    name: airline.name || iata,
+    region: airline.region || null,
+    alliance: airline.alliance || null
+  }));
+  const aircraftTypes = { ...(tables.aircraftTypes || {}) };
+
+  cached = { airlines, aircraftTypes, designators };
+  return cached;
+}
+
+module.exports = {
+  loadAirlineTables
+};
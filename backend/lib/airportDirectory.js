@@ -0,0 +1,171 @@
+const fs = require('fs');
+const path = require('path');
+const { parseCsvRecords } = require('./csv');
+
+// Bundled airport dataset (OpenFlights / OurAirports): icao,iata,name,city,country,latitude,longitude,elevation,timezone
+const DEFAULT_DATASET = path.join(__dirname, '..', 'data', 'airports.csv');
+
+const OVERRIDE_FIELDS = ['icao', 'iata', 'name', 'city', 'country', 'latitude', 'longitude', 'elevation', 'timezone'];
+
+function toNumberOrNull(value) {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Offline airport lookup by IATA or ICAO code
+ * Answers from the bundled dataset, with admin overrides (stored in SQLite)
+ * taking precedence field by field for missing or private airfields.
+ */
+class AirportDirectory {
+  /**
+   * @param {Object} options
+   * @param {import('better-sqlite3').Database} [options.db] - Database holding the override table
+   * @param {string} [options.datasetPath] - Bundled airport CSV
+   */
+  constructor({ db = null, datasetPath = DEFAULT_DATASET } = {}) {
+    this.db = db;
+    this.datasetPath = datasetPath;
+    this.byIata = null;
+    this.byIcao = null;
+
+    if (db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS airport_overrides (
+          code TEXT PRIMARY KEY,
+          icao TEXT,
+          iata TEXT,
+          name TEXT,
+          city TEXT,
+          country TEXT,
+          latitude REAL,
+          longitude REAL,
+          elevation INTEGER,
+          timezone TEXT,
+          updatedAt TEXT
+        );
+      `);
+      this.statements = {
+        find: db.prepare(`SELECT * FROM airport_overrides WHERE code = @code OR icao = @code OR iata = @code`),
+        all: db.prepare(`SELECT * FROM airport_overrides ORDER BY code ASC`),
+        upsert: db.prepare(`INSERT INTO airport_overrides (code, icao, iata, name, city, country, latitude, longitude, elevation, timezone, updatedAt)
+          VALUES (@code, @icao, @iata, @name, @city, @country, @latitude, @longitude, @elevation, @timezone, @updatedAt)
+          ON CONFLICT(code) DO UPDATE SET icao=@icao, iata=@iata, name=@name, city=@city, country=@country,
+          latitude=@latitude, longitude=@longitude, elevation=@elevation, timezone=@timezone, updatedAt=@updatedAt`),
+        remove: db.prepare(`DELETE FROM airport_overrides WHERE code = ?`)
+      };
+    }
+  }
+
+  /**
+   * Load the bundled dataset once
+   */
+  loadDataset() {
+    if (this.byIata) return;
+    this.byIata = new Map();
+    this.byIcao = new Map();
+
+    let records = [];
+    try {
+      records = parseCsvRecords(fs.readFileSync(this.datasetPath, 'utf8'));
+    } catch (error) {
+      console.warn(`Airport dataset not loaded from ${this.datasetPath}: ${error.message}`);
+    }
+
+    for (const record of records) {
+      const airport = {
+        icao: record.icao.toUpperCase(),
+        iata: record.iata.toUpperCase(),
+        name: record.name,
+        city: record.city,
+        country: record.country,
+        latitude: toNumberOrNull(record.latitude),
+        longitude: toNumberOrNull(record.longitude),
+        elevation: toNumberOrNull(record.elevation),
+        timezone: record.timezone
+      };
+      if (airport.iata && !this.byIata.has(airport.iata)) this.byIata.set(airport.iata, airport);
+      if (airport.icao && !this.byIcao.has(airport.icao)) this.byIcao.set(airport.icao, airport);
+    }
+  }
+
+  /**
+   * Resolve an airport code
+   * @param {string} code - IATA (3 letters) or ICAO (4 letters) code
+   * @returns {Object|null} Airport with icao, iata, name, city, country, latitude, longitude, elevation, timezone
+   */
+  lookup(code) {
+    const normalized = String(code || '').trim().toUpperCase();
+    if (!normalized) return null;
+
+    this.loadDataset();
+    const findOverride = (value) => (this.statements && value ? this.statements.find.get({ code: value }) : null);
+    let dataset = this.byIata.get(normalized) || this.byIcao.get(normalized) || null;
+    // An override may be keyed by the airport's other code
+    const override = findOverride(normalized) || findOverride(dataset?.iata) || findOverride(dataset?.icao) || null;
+    if (!dataset && override) {
+      dataset = (override.icao && this.byIcao.get(override.icao)) || (override.iata && this.byIata.get(override.iata)) || null;
+    }
+
+    if (!override) return dataset;
+
+    const merged = { ...(dataset || {}) };
+    for (const field of OVERRIDE_FIELDS) {
+      if (override[field] !== null && override[field] !== undefined && override[field] !== '') {
+        merged[field] = override[field];
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * List admin overrides
+   * @returns {Array<Object>}
+   */
+  listOverrides() {
+    return this.statements ? this.statements.all.all() : [];
+  }
+
+  /**
+   * Add or replace an override
+   * @param {Object} entry - At least an icao or iata code; other fields optional
+   * @returns {Object} Stored override
+   */
+  saveOverride(entry = {}) {
+    if (!this.statements) throw new Error('Airport overrides need a database');
+
+    const icao = String(entry.icao || '').trim().toUpperCase();
+    const iata = String(entry.iata || '').trim().toUpperCase();
+    const code = String(entry.code || icao || iata).trim().toUpperCase();
+    if (!code) throw new Error('An ICAO or IATA code is required');
+
+    const row = {
+      code,
+      icao: icao || null,
+      iata: iata || null,
+      name: entry.name ? String(entry.name).trim() : null,
+      city: entry.city ? String(entry.city).trim() : null,
+      country: entry.country ? String(entry.country).trim() : null,
+      latitude: toNumberOrNull(entry.latitude),
+      longitude: toNumberOrNull(entry.longitude),
+      elevation: toNumberOrNull(entry.elevation),
+      timezone: entry.timezone ? String(entry.timezone).trim() : null,
+      updatedAt: new Date().toISOString()
+    };
+    this.statements.upsert.run(row);
+    return row;
+  }
+
+  /**
+   * Remove an override
+   * @param {string} code - Override code
+   * @returns {boolean} Whether an override was removed
+   */
+  removeOverride(code) {
+    if (!this.statements) return false;
+    return this.statements.remove.run(String(code || '').trim().toUpperCase()).changes > 0;
+  }
+}
+
+module.exports = AirportDirectory;
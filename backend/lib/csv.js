@@ -0,0 +1,93 @@
+const readline = require('readline');
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF)
+ * @param {string} text - CSV contents
+ * @returns {Array<Array<string>>} Rows of fields
+ */
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.length > 1 || fields[0] !== '');
+}
+
+/**
+ * Parse CSV text with a header row into objects keyed by column name
+ * Column names are trimmed and lower-cased.
+ * @param {string} text - CSV contents
+ * @returns {Array<Object>} One object per data row
+ */
+function parseCsvRecords(text) {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const columns = header.map(name => name.trim().toLowerCase());
+  return rows.map(fields => Object.fromEntries(columns.map((name, index) => [name, (fields[index] ?? '').trim()])));
+}
+
+/**
+ * Read CSV records with a header row from a stream, one line at a time
+ * Same output as parseCsvRecords without holding the whole file in memory;
+ * quoted fields may still span lines.
+ * @param {import('stream').Readable} input - CSV stream
+ * @returns {AsyncGenerator<Object>} One object per data row
+ */
+async function* readCsvRecords(input) {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  let columns = null;
+  let pending = null;
+
+  for await (const line of lines) {
+    pending = pending === null ? line : `${pending}\n${line}`;
+    // An odd number of quotes means a quoted field continues on the next line
+    if ((pending.match(/"/g) || []).length % 2 === 1) continue;
+
+    const [fields] = parseCsv(columns ? pending : pending.replace(/^\uFEFF/, ''));
+    pending = null;
+    if (!fields) continue;
+    if (!columns) {
+      columns = fields.map(name => name.trim().toLowerCase());
+      continue;
+    }
+    yield Object.fromEntries(columns.map((name, index) => [name, (fields[index] ?? '').trim()]));
+  }
+}
+
+module.exports = {
+  parseCsv,
+  parseCsvRecords,
+  readCsvRecords
+};
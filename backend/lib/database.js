@@ -0,0 +1,29 @@
+const fs = require('fs');
+const path = require('path');
+const Database = require('better-sqlite3');
+
+// Flight reference data and history live next to the photo metadata
+const DATA_DIR = path.join(__dirname, '..', 'photos');
+const DB_PATH = process.env.FLIGHTS_DB_PATH || path.join(DATA_DIR, 'flights.db');
+
+/**
+ * Open the flight database (created automatically)
+ * Each store creates its own tables on the connection it is given.
+ * @param {string} file - Database path, or ':memory:'
+ * @returns {Database} better-sqlite3 connection
+ */
+function openDatabase(file = DB_PATH) {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  if (file !== ':memory:') {
+    db.pragma('journal_mode = WAL');
+  }
+  return db;
+}
+
+module.exports = {
+  openDatabase,
+  DB_PATH
+};
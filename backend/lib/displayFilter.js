@@ -0,0 +1,162 @@
+// Rules in the order they are checked; a flight is counted against the first rule that hides it
+const RULES = [
+  'hiddenRegistrations',
+  'minAltitude',
+  'maxAltitude',
+  'minSpeed',
+  'maxSpeed',
+  'excludeCategories',
+  'includeAirlines',
+  'excludeAirlines',
+  'includeTypes',
+  'excludeTypes'
+];
+
+const NUMBER_RULES = ['minAltitude', 'maxAltitude', 'minSpeed', 'maxSpeed'];
+const LIST_RULES = ['hiddenRegistrations', 'excludeCategories', 'includeAirlines', 'excludeAirlines', 'includeTypes', 'excludeTypes'];
+
+// ADS-B emitter categories behind each selectable category
+const CATEGORY_GROUPS = {
+  light: ['A1'],
+  small: ['A2'],
+  large: ['A3', 'A4'],
+  heavy: ['A5'],
+  'high-performance': ['A6'],
+  rotorcraft: ['A7'],
+  glider: ['B1', 'B4'],
+  balloon: ['B2'],
+  drone: ['B6'],
+  ground: ['C1', 'C2', 'C3', 'C4', 'C5']
+};
+
+// Common helicopter type codes, for providers that report a type but no emitter category
+const ROTORCRAFT_TYPES = new Set([
+  'A109', 'A119', 'A139', 'A169', 'A189', 'AS32', 'AS50', 'AS55', 'AS65', 'B06', 'B105', 'B212',
+  'B407', 'B412', 'B429', 'B505', 'BK17', 'EC20', 'EC25', 'EC30', 'EC35', 'EC45', 'EC55', 'EC75', 'H160',
+  'MI8', 'R22', 'R44', 'R66', 'S61', 'S76', 'S92', 'UH1', 'H60'
+]);
+
+function toNumberOrNull(value) {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+function toList(value) {
+  const items = Array.isArray(value) ? value : String(value || '').split(/[\s,]+/);
+  return [...new Set(items.map(item => String(item).trim().toUpperCase()).filter(Boolean))];
+}
+
+const registrationKey = (value) => String(value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Clean up a `filters` config entry
+ * Numbers are feet (altitude) and knots (speed); lists are upper-cased codes,
+ * except categories which are names from CATEGORY_GROUPS.
+ * @param {Object} filters - Raw rules from config.json or the Admin page
+ * @returns {Object} Rules with every key present (null or [] when unused)
+ */
+function normalizeFilterRules(filters = {}) {
+  const rules = {};
+  for (const rule of NUMBER_RULES) {
+    rules[rule] = toNumberOrNull(filters?.[rule]);
+  }
+  for (const rule of LIST_RULES) {
+    rules[rule] = toList(filters?.[rule]);
+  }
+  rules.excludeCategories = rules.excludeCategories
+    .map(category => category.toLowerCase())
+    .filter(category => CATEGORY_GROUPS[category]);
+  return rules;
+}
+
+/**
+ * Names of the rules that are switched on
+ * @param {Object} rules - Result of normalizeFilterRules
+ * @returns {Array<string>}
+ */
+function activeRules(rules) {
+  return RULES.filter(rule => (Array.isArray(rules[rule]) ? rules[rule].length > 0 : rules[rule] !== null));
+}
+
+/**
+ * Category name of a normalized flight, inferred from the type code when the provider sent none
+ * @param {Object} flight - Normalized flight
+ * @returns {string|null}
+ */
+function categoryOf(flight) {
+  const code = String(flight.aircraft?.category || '').toUpperCase();
+  const group = Object.keys(CATEGORY_GROUPS).find(name => CATEGORY_GROUPS[name].includes(code));
+  if (group) return group;
+  return ROTORCRAFT_TYPES.has(String(flight.aircraft?.icao || '').toUpperCase()) ? 'rotorcraft' : null;
+}
+
+function airlineCodes(flight) {
+  return [flight.airline?.iata, flight.airline?.icao].map(code => String(code || '').toUpperCase()).filter(Boolean);
+}
+
+function typeCode(flight) {
+  return String(flight.aircraft?.icao || flight.aircraft?.type || '').toUpperCase();
+}
+
+/**
+ * Whether a rule hides a flight
+ * @param {string} rule - Rule name
+ * @param {Object} rules - Result of normalizeFilterRules
+ * @param {Object} flight - Normalized flight (feet, knots)
+ * @returns {boolean}
+ */
+function hides(rule, rules, flight) {
+  const value = rules[rule];
+  switch (rule) {
+    case 'hiddenRegistrations':
+      return value.map(registrationKey).includes(registrationKey(flight.aircraft?.registration));
+    case 'minAltitude':
+      return flight.position.altitude < value;
+    case 'maxAltitude':
+      return flight.position.altitude > value;
+    case 'minSpeed':
+      return flight.position.speed < value;
+    case 'maxSpeed':
+      return flight.position.speed > value;
+    case 'excludeCategories':
+      return value.includes(categoryOf(flight));
+    case 'includeAirlines':
+      return !airlineCodes(flight).some(code => value.includes(code));
+    case 'excludeAirlines':
+      return airlineCodes(flight).some(code => value.includes(code));
+    case 'includeTypes':
+      return !value.includes(typeCode(flight));
+    case 'excludeTypes':
+      return value.includes(typeCode(flight));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Drop flights that should not reach the display
+ * @param {Array<Object>} flights - Normalized flights
+ * @param {Object} filters - Rules (raw or normalized)
+ * @returns {{flights: Array<Object>, filtered: Object<string, number>}} Kept flights and, per active rule, how many it hid
+ */
+function applyDisplayFilters(flights, filters) {
+  const rules = normalizeFilterRules(filters);
+  const active = activeRules(rules);
+  const filtered = Object.fromEntries(active.map(rule => [rule, 0]));
+  if (active.length === 0) return { flights, filtered };
+
+  const kept = flights.filter(flight => {
+    const rule = active.find(name => hides(name, rules, flight));
+    if (!rule) return true;
+    filtered[rule] += 1;
+    return false;
+  });
+  return { flights: kept, filtered };
+}
+
+module.exports = {
+  CATEGORY_GROUPS,
+  normalizeFilterRules,
+  applyDisplayFilters
+};
@@ -1,7 +1,30 @@
+const { applyDisplayFilters } = require('./displayFilter');
+const { observeFlight } = require('./observer');
+
 const FEET_PER_METER = 3.28084;
 const KNOTS_PER_MPS = 1.94384;
 const FPM_PER_MPS = 196.8504;
 
+// Where each raw flight field ends up in the normalized flight
+const SOURCE_FIELDS = {
+  callsign: 'callsign',
+  flightNumber: 'flightNumber',
+  squawk: 'squawk',
+  airline: 'airline',
+  aircraft: 'aircraft.type',
+  registration: 'aircraft.registration',
+  category: 'aircraft.category',
+  origin: 'departure',
+  destination: 'arrival',
+  latitude: 'position.latitude',
+  longitude: 'position.longitude',
+  altitude: 'position.altitude',
+  velocity: 'position.speed',
+  heading: 'position.heading',
+  verticalRate: 'position.verticalSpeed',
+  onGround: 'status'
+};
+
 function toNumber(value, fallback = 0) {
   const num = Number(value);
   return Number.isFinite(num) ? num : fallback;
@@ -19,8 +42,18 @@ function mpsToFpm(value) {
   return Math.round(toNumber(value) * FPM_PER_MPS);
 }
 
-function normalizeAirline(code) {
+function normalizeAirline(code, airlines, operator = null) {
   const trimmed = String(code || '').trim();
+  const known = operator || (airlines ? airlines.lookup(trimmed) : null);
+  if (known) {
+    return {
+      name: known.name,
+      iata: known.iata,
+      icao: known.icao,
+      callsign: known.callsign
+    };
+  }
+
   if (!trimmed) {
     return { name: 'Unknown Airline', iata: '', icao: '' };
   }
@@ -32,13 +65,69 @@ function normalizeAirline(code) {
   };
 }
 
-function normalizeAirport(code) {
+function normalizeAirport(code, airports) {
   const trimmed = String(code || '').trim();
+  const known = airports ? airports.lookup(trimmed) : null;
+  if (!known) {
+    return {
+      airport: trimmed || 'Unknown Airport',
+      iata: trimmed,
+      city: '',
+      country: ''
+    };
+  }
+
   return {
-    airport: trimmed || 'Unknown Airport',
-    iata: trimmed,
-    city: '',
-    country: ''
+    airport: known.name || trimmed,
+    iata: known.iata || trimmed,
+    icao: known.icao || '',
+    city: known.city || '',
+    country: known.country || '',
+    latitude: known.latitude ?? null,
+    longitude: known.longitude ?? null,
+    timezone: known.timezone || ''
+  };
+}
+
+function resolveRoute(rawFlight, routes, callsigns) {
+  const origin = String(rawFlight.origin || '').trim();
+  const destination = String(rawFlight.destination || '').trim();
+  if ((origin && destination) || !routes) return { origin, destination };
+
+  for (const callsign of callsigns) {
+    const known = callsign ? routes.lookup(callsign) : null;
+    if (known) {
+      return {
+        origin: origin || known.origin,
+        destination: destination || known.destination
+      };
+    }
+  }
+  return { origin, destination };
+}
+
+function normalizeAircraft(rawFlight, registry) {
+  const reportedType = String(rawFlight.aircraft || '').trim();
+  const reportedRegistration = String(rawFlight.registration || '').trim();
+  const category = String(rawFlight.category || '').trim().toUpperCase();
+  const known = registry && rawFlight.icao24 ? registry.lookup(rawFlight.icao24) : null;
+  if (!known) {
+    return {
+      type: reportedType,
+      icao: reportedType,
+      registration: reportedRegistration,
+      category
+    };
+  }
+
+  const type = reportedType || known.typeCode || '';
+  return {
+    type,
+    icao: type,
+    registration: reportedRegistration || known.registration || '',
+    category,
+    operator: known.operator || '',
+    built: known.built ?? null
   };
 }
 
@@ -54,7 +143,19 @@ function resolveStatus({ onGround, verticalSpeed, altitude }) {
   return 'cruising';
 }
 
-function normalizeFlight(rawFlight) {
+function normalizeSources(sources) {
+  if (!sources || typeof sources !== 'object') return undefined;
+
+  const normalized = {};
+  for (const [field, source] of Object.entries(sources)) {
+    if (SOURCE_FIELDS[field]) {
+      normalized[SOURCE_FIELDS[field]] = source;
+    }
+  }
+  return normalized;
+}
+
+function normalizeFlight(rawFlight, options = {}) {
   if (!rawFlight) return null;
 
   const latitude = toNumber(rawFlight.latitude, null);
@@ -66,44 +167,60 @@ function normalizeFlight(rawFlight) {
   const verticalFpm = mpsToFpm(rawFlight.verticalRate);
   const heading = Math.round(toNumber(rawFlight.heading, 0));
 
-  const airline = normalizeAirline(rawFlight.airline);
-  const departure = normalizeAirport(rawFlight.origin);
-  const arrival = normalizeAirport(rawFlight.destination);
+  const callsign = String(rawFlight.callsign || '').trim();
+  const reportedFlightNumber = String(rawFlight.flightNumber || '').trim();
+  // Receivers only know the ICAO callsign (BAW289); derive the marketed number (BA289) from it
+  const operation = options.airlines
+    ? options.airlines.parseCallsign(callsign) || options.airlines.parseCallsign(reportedFlightNumber)
+    : null;
+  const flightNumber = reportedFlightNumber && reportedFlightNumber !== callsign
+    ? reportedFlightNumber
+    : operation?.flightNumber || reportedFlightNumber || callsign;
+
+  const airline = normalizeAirline(rawFlight.airline, options.airlines, operation?.airline);
+  const route = resolveRoute(rawFlight, options.routes, [callsign, flightNumber]);
+  const departure = normalizeAirport(route.origin, options.airports);
+  const arrival = normalizeAirport(route.destination, options.airports);
+  const position = {
+    altitude: altitudeFeet,
+    speed: speedKnots,
+    heading,
+    verticalSpeed: verticalFpm,
+    latitude,
+    longitude
+  };
 
   return {
     id: rawFlight.id || `${rawFlight.icao24 || 'unknown'}_${rawFlight.callsign || 'unknown'}`,
-    flightNumber: String(rawFlight.flightNumber || rawFlight.callsign || '').trim(),
-    callsign: String(rawFlight.callsign || '').trim(),
+    icao24: String(rawFlight.icao24 || '').trim().toLowerCase(),
+    flightNumber,
+    callsign,
+    squawk: String(rawFlight.squawk || '').trim(),
     airline,
-    aircraft: {
-      type: String(rawFlight.aircraft || '').trim(),
-      icao: String(rawFlight.aircraft || '').trim(),
-      registration: String(rawFlight.registration || '').trim()
-    },
+    aircraft: normalizeAircraft(rawFlight, options.aircraft),
     departure,
     arrival,
-    position: {
-      altitude: altitudeFeet,
-      speed: speedKnots,
-      heading,
-      verticalSpeed: verticalFpm,
-      latitude,
-      longitude
-    },
+    position,
+    observer: options.observer ? observeFlight(position, options.observer) : undefined,
     status: resolveStatus({
       onGround: rawFlight.onGround,
       verticalSpeed: verticalFpm,
       altitude: altitudeFeet
-    })
+    }),
+    sources: normalizeSources(rawFlight.sources)
   };
 }
 
-function normalizeFlightData(data) {
+function normalizeFlightData(data, options = {}) {
   const flights = Array.isArray(data?.flights) ? data.flights : [];
-  const normalized = flights.map(normalizeFlight).filter(Boolean);
+  const normalized = flights.map(flight => normalizeFlight(flight, options)).filter(Boolean);
+  const { flights: shown, filtered } = options.filters
+    ? applyDisplayFilters(normalized, options.filters)
+    : { flights: normalized, filtered: undefined };
 
   return {
-    flights: normalized,
+    flights: shown,
+    filtered,
     source: data?.source || 'unknown',
     timestamp: data?.timestamp || Date.now(),
     center: data?.center || null,
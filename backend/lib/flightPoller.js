@@ -0,0 +1,194 @@
+const EventEmitter = require('events');
+
+const DEFAULT_POLLING_INTERVAL = 15000;
+const DEFAULT_EMPTY_POLLING_INTERVAL = 30000;
+const DEFAULT_MAX_CONSECUTIVE_EMPTY_POLLS = 10;
+
+/**
+ * Polls the configured area in the background and keeps one shared snapshot,
+ * so every client is served from memory instead of triggering its own
+ * upstream request. Emits 'snapshot' (snapshot, previous) with each new snapshot; failed polls are
+ * recorded and the previous snapshot is kept.
+ */
+class FlightPoller extends EventEmitter {
+  /**
+   * @param {Object} options
+   * @param {Function} options.fetchFlights - Async function returning normalized flight data
+   */
+  constructor({ fetchFlights }) {
+    super();
+    this.fetchFlights = fetchFlights;
+
+    this.pollingInterval = DEFAULT_POLLING_INTERVAL;
+    this.reducedPollingWhenEmpty = true;
+    this.emptyPollingInterval = DEFAULT_EMPTY_POLLING_INTERVAL;
+    this.maxConsecutiveEmptyPolls = DEFAULT_MAX_CONSECUTIVE_EMPTY_POLLS;
+
+    this.snapshot = null; // { data, fetchedAt }
+    this.inFlight = null;
+    this.generation = 0;
+    this.timer = null;
+    this.running = false;
+
+    this.consecutiveEmptyPolls = 0;
+    this.upstreamRequests = 0;
+    this.lastError = null;
+    this.lastErrorAt = null;
+  }
+
+  /**
+   * Apply polling settings from config.json
+   * @param {Object} config - Server config (pollingInterval, powerSaving)
+   */
+  configure(config = {}) {
+    const powerSaving = config.powerSaving || {};
+    this.pollingInterval = Number(config.pollingInterval) || DEFAULT_POLLING_INTERVAL;
+    this.reducedPollingWhenEmpty = powerSaving.reducedPollingWhenEmpty !== false;
+    this.emptyPollingInterval = Number(powerSaving.emptyPollingInterval) || DEFAULT_EMPTY_POLLING_INTERVAL;
+    this.maxConsecutiveEmptyPolls = Number.isFinite(Number(powerSaving.maxConsecutiveEmptyPolls))
+      ? Number(powerSaving.maxConsecutiveEmptyPolls)
+      : DEFAULT_MAX_CONSECUTIVE_EMPTY_POLLS;
+  }
+
+  /**
+   * Start the background loop (polls immediately)
+   */
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop the background loop
+   */
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Drop the current snapshot after the area or provider changed
+   * Answers still in flight for the old configuration are discarded.
+   */
+  reset() {
+    this.generation += 1;
+    this.snapshot = null;
+    this.inFlight = null;
+    this.consecutiveEmptyPolls = 0;
+    if (this.running) {
+      this.schedule(0);
+    }
+  }
+
+  /**
+   * Delay before the next poll, reduced after a run of empty answers
+   * @returns {number} Delay in milliseconds
+   */
+  getCurrentInterval() {
+    if (this.reducedPollingWhenEmpty && this.consecutiveEmptyPolls >= this.maxConsecutiveEmptyPolls) {
+      return this.emptyPollingInterval;
+    }
+    return this.pollingInterval;
+  }
+
+  schedule(delay) {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.poll(), delay);
+    this.timer.unref?.();
+  }
+
+  async poll() {
+    this.timer = null;
+    const generation = this.generation;
+    try {
+      await this.refresh();
+    } catch (error) {
+      // Recorded by refresh(); keep polling
+    }
+    // After a reset() the loop has already been restarted
+    if (this.running && generation === this.generation && !this.timer) {
+      this.schedule(this.getCurrentInterval());
+    }
+  }
+
+  /**
+   * Fetch a new snapshot from upstream
+   * Concurrent callers share a single upstream request. A request overtaken by
+   * reset() resolves with a snapshot for the new configuration.
+   * @returns {Promise<Object>} The new snapshot
+   */
+  refresh() {
+    if (this.inFlight) return this.inFlight;
+
+    const generation = this.generation;
+    this.upstreamRequests += 1;
+    const request = Promise.resolve()
+      .then(() => this.fetchFlights())
+      .then((data) => {
+        // Callers waiting on an answer for the old config get one for the new config instead
+        if (generation !== this.generation) return this.refresh();
+
+        const count = Array.isArray(data?.flights) ? data.flights.length : 0;
+        this.consecutiveEmptyPolls = count === 0 ? this.consecutiveEmptyPolls + 1 : 0;
+        const previous = this.snapshot;
+        this.snapshot = { data, fetchedAt: Date.now() };
+        this.lastError = null;
+        this.emit('snapshot', this.snapshot, previous);
+        return this.snapshot;
+      })
+      .catch((error) => {
+        if (generation !== this.generation) return this.refresh();
+        this.lastError = error.message;
+        this.lastErrorAt = new Date();
+        throw error;
+      })
+      .finally(() => {
+        if (this.inFlight === request) this.inFlight = null;
+      });
+
+    this.inFlight = request;
+    return request;
+  }
+
+  /**
+   * Get the shared snapshot, fetching one if it is missing or stale
+   * Falls back to the previous snapshot when the refresh fails.
+   * @returns {Promise<Object>} Snapshot { data, fetchedAt }
+   */
+  async getSnapshot() {
+    // While the loop runs, allow for upstream latency before treating the snapshot as stale
+    const maxAge = this.getCurrentInterval() * (this.running ? 2 : 1);
+    if (this.snapshot && Date.now() - this.snapshot.fetchedAt <= maxAge) {
+      return this.snapshot;
+    }
+
+    try {
+      return await this.refresh();
+    } catch (error) {
+      if (this.snapshot) return this.snapshot;
+      throw error;
+    }
+  }
+
+  /**
+   * Get poller state for the health endpoint
+   * @returns {Object} Poller status
+   */
+  getStatus() {
+    return {
+      running: this.running,
+      interval: this.getCurrentInterval(),
+      consecutiveEmptyPolls: this.consecutiveEmptyPolls,
+      upstreamRequests: this.upstreamRequests,
+      snapshotAge: this.snapshot ? Date.now() - this.snapshot.fetchedAt : null,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt ? this.lastErrorAt.toISOString() : null
+    };
+  }
+}
+
+module.exports = FlightPoller;
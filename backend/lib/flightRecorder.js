@@ -0,0 +1,141 @@
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_DIRECTORY = path.join(__dirname, '..', 'recordings');
+
+/**
+ * Writes provider answers to disk so an evening's traffic can be replayed later
+ * Each recording is a JSON Lines file; every line is one provider answer
+ * `{ t, method, args, payloads }` where `t` is when it arrived (unix ms) and
+ * `payloads` holds what each provider sent, `{ provider, data, options }`, so
+ * replay runs it through the same parser. Answers from adapters without a
+ * provider payload (the simulator) are stored as standardized `data` instead.
+ */
+class FlightRecorder {
+  /**
+   * @param {Object} options
+   * @param {string} options.directory - Where recordings are written (default backend/recordings)
+   */
+  constructor({ directory = DEFAULT_DIRECTORY } = {}) {
+    this.directory = directory;
+    this.file = null;
+    this.startedAt = null;
+    this.frames = 0;
+  }
+
+  /**
+   * Apply the recording toggle from config.json
+   * @param {Object} config - Server config (recording.enabled)
+   */
+  configure(config = {}) {
+    if (config.recording?.enabled) {
+      this.start();
+    } else {
+      this.stop();
+    }
+  }
+
+  get active() {
+    return this.file !== null;
+  }
+
+  /**
+   * Open a new recording file (no-op while already recording)
+   * @returns {string} Recording file name
+   */
+  start() {
+    if (this.active) return path.basename(this.file);
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.startedAt = new Date();
+    this.file = path.join(this.directory, `${this.startedAt.toISOString().replace(/[:.]/g, '-')}.jsonl`);
+    this.frames = 0;
+    console.log(`Recording provider answers to ${this.file}`);
+    return path.basename(this.file);
+  }
+
+  /**
+   * Close the current recording
+   */
+  stop() {
+    if (!this.active) return;
+    console.log(`Stopped recording after ${this.frames} frames`);
+    this.file = null;
+    this.startedAt = null;
+  }
+
+  /**
+   * Append one provider answer to the current recording
+   * @param {string} method - Adapter method that produced the answer
+   * @param {Array} args - Method arguments (the queried area)
+   * @param {Object} data - Standardized flight data returned by the adapter
+   * @param {Array<Object>} [payloads] - Provider payloads behind the answer (adapter.getPayloads())
+   */
+  record(method, args, data, payloads = []) {
+    if (!this.active) return;
+    const frame = payloads.length > 0
+      ? { t: Date.now(), method, args, payloads }
+      : { t: Date.now(), method, args, data };
+    try {
+      fs.appendFileSync(this.file, `${JSON.stringify(frame)}\n`);
+      this.frames += 1;
+    } catch (error) {
+      console.error('Failed to write recording frame:', error.message);
+    }
+  }
+
+  /**
+   * List recordings on disk, newest first
+   * @returns {Array<Object>} Recording file name, size and modification time
+   */
+  list() {
+    if (!fs.existsSync(this.directory)) return [];
+    return fs.readdirSync(this.directory)
+      .filter(name => name.endsWith('.jsonl'))
+      .map(name => {
+        const stat = fs.statSync(path.join(this.directory, name));
+        return { name, size: stat.size, modifiedAt: stat.mtime.toISOString() };
+      })
+      .sort((a, b) => b.name.localeCompare(a.name));
+  }
+
+  /**
+   * Get recorder state for the API
+   * @returns {Object} Recorder status
+   */
+  getStatus() {
+    return {
+      recording: this.active,
+      file: this.file ? path.basename(this.file) : null,
+      startedAt: this.startedAt ? this.startedAt.toISOString() : null,
+      frames: this.frames
+    };
+  }
+}
+
+/**
+ * Read a recording written by FlightRecorder
+ * @param {string} file - Path to a .jsonl recording
+ * @returns {Promise<Array<Object>>} Frames in recorded order
+ */
+async function readRecording(file) {
+  const contents = await fs.promises.readFile(file, 'utf8');
+  return contents
+    .split('\n')
+    .filter(line => line.trim())
+    .map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Invalid recording frame on line ${index + 1}: ${error.message}`);
+      }
+    })
+    .filter(frame => Number.isFinite(frame.t) && (Array.isArray(frame.payloads) || frame.data))
+    .sort((a, b) => a.t - b.t);
+}
+
+module.exports = {
+  FlightRecorder,
+  readRecording,
+  DEFAULT_DIRECTORY
+};
@@ -0,0 +1,146 @@
+// Comment line sent to idle connections so proxies do not time them out
+const HEARTBEAT_INTERVAL = 25000;
+// Reconnect delay suggested to EventSource clients (ms)
+const CLIENT_RETRY = 5000;
+
+/**
+ * Compare two flight lists by id
+ * @param {Array<Object>} previous - Flights in the previous snapshot
+ * @param {Array<Object>} next - Flights in the new snapshot
+ * @returns {{added: Array<Object>, updated: Array<Object>, removed: Array<string>}} Changes
+ */
+function diffFlights(previous = [], next = []) {
+  const before = new Map(previous.map(flight => [flight.id, flight]));
+  const added = [];
+  const updated = [];
+
+  for (const flight of next) {
+    const old = before.get(flight.id);
+    if (!old) {
+      added.push(flight);
+    } else if (JSON.stringify(old) !== JSON.stringify(flight)) {
+      updated.push(flight);
+    }
+    before.delete(flight.id);
+  }
+
+  return { added, updated, removed: Array.from(before.keys()) };
+}
+
+/**
+ * Server-Sent Events fan-out of poller snapshots
+ * Each client receives the current snapshot on connect, then one `diff` event per poll,
+ * plus any events passed to broadcast().
+ */
+class FlightStream {
+  /**
+   * @param {import('./flightPoller')} poller - Shared flight poller
+   */
+  constructor(poller) {
+    this.poller = poller;
+    this.clients = new Set();
+    this.heartbeat = null;
+
+    poller.on('snapshot', (snapshot, previous) => this.broadcastSnapshot(snapshot, previous));
+  }
+
+  /**
+   * Express handler for GET /api/flights/stream
+   */
+  async handle(req, res) {
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    res.write(`retry: ${CLIENT_RETRY}\n\n`);
+
+    this.clients.add(res);
+    this.startHeartbeat();
+    req.on('close', () => {
+      this.clients.delete(res);
+      if (this.clients.size === 0) this.stopHeartbeat();
+    });
+
+    try {
+      const snapshot = await this.poller.getSnapshot();
+      // The poll may already have been broadcast to this client as a snapshot event
+      if (!res.sentSnapshot) this.send(res, 'snapshot', this.describe(snapshot));
+    } catch (error) {
+      this.send(res, 'flights-error', { error: 'Failed to fetch flight data' });
+    }
+  }
+
+  /**
+   * Push a new poller snapshot to every client
+   * @param {Object} snapshot - New snapshot { data, fetchedAt }
+   * @param {Object|null} previous - Snapshot it replaces, null after a reset
+   */
+  broadcastSnapshot(snapshot, previous) {
+    if (this.clients.size === 0) return;
+
+    const payload = this.describe(snapshot);
+    const { flights, ...meta } = payload;
+    const diff = previous ? { ...meta, ...diffFlights(previous.data?.flights, flights) } : null;
+
+    for (const res of this.clients) {
+      if (diff && res.sentSnapshot) {
+        this.send(res, 'diff', diff);
+      } else {
+        this.send(res, 'snapshot', payload);
+      }
+    }
+  }
+
+  /**
+   * Push a standalone event, such as an overflight, to every client
+   * @param {string} event - SSE event name
+   * @param {Object} data - Event payload
+   */
+  broadcast(event, data) {
+    for (const res of this.clients) {
+      this.send(res, event, data);
+    }
+  }
+
+  describe(snapshot) {
+    return {
+      ...snapshot.data,
+      fetchedAt: new Date(snapshot.fetchedAt).toISOString()
+    };
+  }
+
+  send(res, event, data) {
+    if (event === 'snapshot') res.sentSnapshot = true;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  startHeartbeat() {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      for (const res of this.clients) res.write(': ping\n\n');
+    }, HEARTBEAT_INTERVAL);
+    this.heartbeat.unref?.();
+  }
+
+  stopHeartbeat() {
+    clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+
+  /**
+   * End every open stream (on shutdown)
+   */
+  close() {
+    this.stopHeartbeat();
+    for (const res of this.clients) res.end();
+    this.clients.clear();
+  }
+}
+
+module.exports = {
+  FlightStream,
+  diffFlights
+};
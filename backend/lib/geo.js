@@ -0,0 +1,164 @@
+const EARTH_RADIUS_M = 6371008.8;
+
+const toRadians = (degrees) => degrees * Math.PI / 180;
+const toDegrees = (radians) => radians * 180 / Math.PI;
+
+/**
+ * Great-circle distance between two points (haversine)
+ * @param {number} lat1 - Latitude of the first point
+ * @param {number} lon1 - Longitude of the first point
+ * @param {number} lat2 - Latitude of the second point
+ * @param {number} lon2 - Longitude of the second point
+ * @returns {number} Distance in meters
+ */
+function distanceMeters(lat1, lon1, lat2, lon2) {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Initial compass bearing from the first point towards the second
+ * @returns {number} Bearing in degrees, 0-360
+ */
+function bearingDegrees(lat1, lon1, lat2, lon2) {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLon = toRadians(lon2 - lon1);
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+/**
+ * Point reached by travelling a distance along a great circle
+ * @param {number} lat - Start latitude
+ * @param {number} lon - Start longitude
+ * @param {number} bearing - Initial bearing in degrees
+ * @param {number} meters - Distance travelled
+ * @returns {{latitude: number, longitude: number}} Destination point
+ */
+function destinationPoint(lat, lon, bearing, meters) {
+  const delta = meters / EARTH_RADIUS_M;
+  const theta = toRadians(bearing);
+  const phi1 = toRadians(lat);
+  const lambda1 = toRadians(lon);
+
+  const phi2 = Math.asin(Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta));
+  const lambda2 = lambda1 + Math.atan2(
+    Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+    Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2)
+  );
+
+  return {
+    latitude: toDegrees(phi2),
+    longitude: ((toDegrees(lambda2) + 540) % 360) - 180
+  };
+}
+
+/**
+ * Point a fraction of the way along the great circle between two points
+ * @param {Object} from - Start {latitude, longitude}
+ * @param {Object} to - End {latitude, longitude}
+ * @param {number} fraction - 0 at the start, 1 at the end
+ * @returns {{latitude: number, longitude: number}} Intermediate point
+ */
+function intermediatePoint(from, to, fraction) {
+  const phi1 = toRadians(from.latitude);
+  const lambda1 = toRadians(from.longitude);
+  const phi2 = toRadians(to.latitude);
+  const lambda2 = toRadians(to.longitude);
+  const delta = distanceMeters(from.latitude, from.longitude, to.latitude, to.longitude) / EARTH_RADIUS_M;
+  if (delta === 0) return { latitude: from.latitude, longitude: from.longitude };
+
+  const a = Math.sin((1 - fraction) * delta) / Math.sin(delta);
+  const b = Math.sin(fraction * delta) / Math.sin(delta);
+  const x = a * Math.cos(phi1) * Math.cos(lambda1) + b * Math.cos(phi2) * Math.cos(lambda2);
+  const y = a * Math.cos(phi1) * Math.sin(lambda1) + b * Math.cos(phi2) * Math.sin(lambda2);
+  const z = a * Math.sin(phi1) + b * Math.sin(phi2);
+
+  return {
+    latitude: toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))),
+    longitude: toDegrees(Math.atan2(y, x))
+  };
+}
+
+/**
+ * Whether a point lies inside a bounding box
+ * @param {number} lat - Point latitude
+ * @param {number} lon - Point longitude
+ * @param {Object} bounds - {north, south, west, east}
+ * @returns {boolean}
+ */
+function inBounds(lat, lon, bounds) {
+  return lat <= bounds.north && lat >= bounds.south && lon >= bounds.west && lon <= bounds.east;
+}
+
+/**
+ * Whether a point lies inside a polygon (ray casting on plain lat/lon)
+ * @param {number} lat - Point latitude
+ * @param {number} lon - Point longitude
+ * @param {Array<Object>} vertices - [{latitude, longitude}], open or closed ring
+ * @returns {boolean}
+ */
+function pointInPolygon(lat, lon, vertices) {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    const crosses = (a.latitude > lat) !== (b.latitude > lat) &&
+      lon < (b.longitude - a.longitude) * (lat - a.latitude) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Bounding box of a polygon
+ * @param {Array<Object>} vertices - [{latitude, longitude}]
+ * @returns {Object} {north, south, west, east}
+ */
+function polygonBounds(vertices) {
+  const latitudes = vertices.map(vertex => vertex.latitude);
+  const longitudes = vertices.map(vertex => vertex.longitude);
+  return {
+    north: Math.max(...latitudes),
+    south: Math.min(...latitudes),
+    west: Math.min(...longitudes),
+    east: Math.max(...longitudes)
+  };
+}
+
+/**
+ * Bounding box grown by a margin on every side
+ * @param {Object} bounds - {north, south, west, east}
+ * @param {number} km - Margin in kilometres
+ * @returns {Object} {north, south, west, east}
+ */
+function expandBounds(bounds, km) {
+  if (!(km > 0)) return bounds;
+  const dLat = toDegrees(km * 1000 / EARTH_RADIUS_M);
+  const dLon = dLat / Math.max(Math.cos(toRadians((bounds.north + bounds.south) / 2)), 0.01);
+  return {
+    north: Math.min(90, bounds.north + dLat),
+    south: Math.max(-90, bounds.south - dLat),
+    west: bounds.west - dLon,
+    east: bounds.east + dLon
+  };
+}
+
+module.exports = {
+  EARTH_RADIUS_M,
+  toRadians,
+  toDegrees,
+  distanceMeters,
+  bearingDegrees,
+  destinationPoint,
+  intermediatePoint,
+  inBounds,
+  pointInPolygon,
+  polygonBounds,
+  expandBounds
+};
@@ -0,0 +1,382 @@
+// Mode-S / ADS-B (1090ES) frame decoding.
+// Bit positions follow "The 1090MHz Riddle" (Sun, 2021): bits are numbered from 1
+// at the start of the frame, and the 56-bit ME field of DF17/18 starts at bit 33.
+
+const CRC_GENERATOR = 0x1fff409;
+const CALLSIGN_CHARSET = '#ABCDEFGHIJKLMNOPQRSTUVWXYZ##### ###############0123456789######';
+const CPR_MAX = 131072; // 2^17
+const NZ = 15;
+
+function mod(a, b) {
+  return a - b * Math.floor(a / b);
+}
+
+function hexToBits(hex) {
+  return hex
+    .split('')
+    .map((char) => parseInt(char, 16).toString(2).padStart(4, '0'))
+    .join('');
+}
+
+// 1-based inclusive bit range, as numbered in the spec
+function bitsAt(bits, start, end) {
+  return parseInt(bits.slice(start - 1, end), 2);
+}
+
+/**
+ * Extract the hex payload from an AVR line.
+ * Accepts `*HEX;` (rtl_adsb, dump1090 port 30002) and `@TTTTTTTTTTTTHEX;`
+ * (AVR with a 48-bit MLAT timestamp). Returns null for anything else.
+ */
+function parseAvrFrame(line) {
+  const trimmed = String(line || '').trim();
+  const match = trimmed.match(/^([*@])([0-9A-Fa-f]+);?$/);
+  if (!match) return null;
+
+  let hex = match[2];
+  if (match[1] === '@') {
+    hex = hex.slice(12);
+  }
+  if (hex.length !== 14 && hex.length !== 28) return null;
+  return hex.toUpperCase();
+}
+
+/**
+ * CRC-24 remainder of a full frame (data plus parity field).
+ * Zero for an intact DF11/17/18 frame; for DF0/4/5/16/20/21 the parity is
+ * overlaid with the aircraft address, so the remainder is the ICAO address.
+ */
+function crcRemainder(hex) {
+  const bytes = Buffer.from(hex, 'hex');
+  const dataLength = bytes.length - 3;
+  let crc = 0;
+
+  for (let i = 0; i < dataLength; i += 1) {
+    crc ^= bytes[i] << 16;
+    for (let bit = 0; bit < 8; bit += 1) {
+      crc <<= 1;
+      if (crc & 0x1000000) crc ^= CRC_GENERATOR;
+    }
+  }
+
+  const parity = (bytes[dataLength] << 16) | (bytes[dataLength + 1] << 8) | bytes[dataLength + 2];
+  return (crc ^ parity) & 0xffffff;
+}
+
+function downlinkFormat(hex) {
+  const df = parseInt(hex.slice(0, 2), 16) >> 3;
+  // DF24 and above share the "11" prefix
+  return df >= 24 ? 24 : df;
+}
+
+function typeCode(hex) {
+  return parseInt(hex.slice(8, 10), 16) >> 3;
+}
+
+function formatIcao(value) {
+  return value.toString(16).padStart(6, '0');
+}
+
+// Gray code to binary
+function grayToInt(bits) {
+  let value = 0;
+  let previous = 0;
+  for (const bit of bits) {
+    previous ^= Number(bit);
+    value = (value << 1) | previous;
+  }
+  return value;
+}
+
+/**
+ * Decode a 13-bit altitude code (AC field of DF0/4/16/20).
+ * Handles 25 ft (Q=1), Gillham 100 ft (Q=0) and metric (M=1) encodings.
+ * @returns {number|null} Altitude in feet
+ */
+function decodeAltitudeCode(ac13) {
+  if (ac13 === 0) return null;
+  const bits = ac13.toString(2).padStart(13, '0');
+  const mBit = bits[6];
+  const qBit = bits[8];
+
+  if (mBit === '1') {
+    const meters = parseInt(bits.slice(0, 6) + bits.slice(7), 2);
+    return Math.round(meters * 3.28084);
+  }
+
+  if (qBit === '1') {
+    const n = parseInt(bits.slice(0, 6) + bits[7] + bits.slice(9), 2);
+    return n * 25 - 1000;
+  }
+
+  // Gillham code: C1 A1 C2 A2 C4 A4 M B1 Q B2 D2 B4 D4
+  const [c1, a1, c2, a2, c4, a4, , b1, , b2, d2, b4, d4] = bits;
+  const n500 = grayToInt(d2 + d4 + a1 + a2 + a4 + b1 + b2 + b4);
+  let n100 = grayToInt(c1 + c2 + c4);
+  if (n100 === 0 || n100 === 5 || n100 === 6) return null;
+  if (n100 === 7) n100 = 5;
+  if (n500 % 2) n100 = 6 - n100;
+  return n500 * 500 + n100 * 100 - 1300;
+}
+
+/**
+ * Decode a 13-bit identity code (ID field of DF5/21) into a squawk.
+ * @returns {string} Four-digit octal squawk
+ */
+function decodeIdentityCode(id13) {
+  const bits = id13.toString(2).padStart(13, '0');
+  // C1 A1 C2 A2 C4 A4 X B1 D1 B2 D2 B4 D4
+  const [c1, a1, c2, a2, c4, a4, , b1, d1, b2, d2, b4, d4] = bits.split('').map(Number);
+  const a = a4 * 4 + a2 * 2 + a1;
+  const b = b4 * 4 + b2 * 2 + b1;
+  const c = c4 * 4 + c2 * 2 + c1;
+  const d = d4 * 4 + d2 * 2 + d1;
+  return `${a}${b}${c}${d}`;
+}
+
+/**
+ * Decode an ADS-B identification message (TC 1-4).
+ * @returns {{callsign: string, category: string}}
+ */
+function decodeIdentification(hex) {
+  const bits = hexToBits(hex);
+  const tc = bitsAt(bits, 33, 37);
+  const ca = bitsAt(bits, 38, 40);
+
+  let callsign = '';
+  for (let i = 0; i < 8; i += 1) {
+    const start = 41 + i * 6;
+    callsign += CALLSIGN_CHARSET[bitsAt(bits, start, start + 5)];
+  }
+
+  // TC 4 = set A, 3 = B, 2 = C, 1 = D
+  const set = ['', 'D', 'C', 'B', 'A'][tc];
+  return {
+    callsign: callsign.replace(/#/g, '').trim(),
+    category: `${set}${ca}`
+  };
+}
+
+/**
+ * Decode the altitude of an airborne position message (TC 9-18 barometric, 20-22 GNSS).
+ * @returns {number|null} Altitude in feet
+ */
+function decodeAirborneAltitude(hex) {
+  const bits = hexToBits(hex);
+  const tc = bitsAt(bits, 33, 37);
+  const alt = bits.slice(40, 52);
+
+  if (tc >= 20 && tc <= 22) {
+    return Math.round(parseInt(alt, 2) * 3.28084);
+  }
+
+  // Re-insert the M bit (always 0 here) to reuse the 13-bit AC decoder
+  return decodeAltitudeCode(parseInt(alt.slice(0, 6) + '0' + alt.slice(6), 2));
+}
+
+/**
+ * Extract the raw CPR fields of a position message.
+ * @returns {{odd: boolean, lat: number, lon: number}} CPR values scaled to [0, 1)
+ */
+function decodeCprFields(hex) {
+  const bits = hexToBits(hex);
+  return {
+    odd: bits[53] === '1',
+    lat: bitsAt(bits, 55, 71) / CPR_MAX,
+    lon: bitsAt(bits, 72, 88) / CPR_MAX
+  };
+}
+
+// Number of longitude zones at a latitude
+function cprNL(lat) {
+  if (lat === 0) return 59;
+  if (Math.abs(lat) === 87) return 2;
+  if (Math.abs(lat) > 87) return 1;
+
+  const a = 1 - Math.cos(Math.PI / (2 * NZ));
+  const b = Math.cos((Math.PI / 180) * lat) ** 2;
+  return Math.floor((2 * Math.PI) / Math.acos(1 - a / b));
+}
+
+/**
+ * Globally unambiguous airborne position from an even/odd frame pair.
+ * @param {{lat: number, lon: number}} even - Even CPR fields
+ * @param {{lat: number, lon: number}} odd - Odd CPR fields
+ * @param {boolean} oddIsNewer - Whether the odd frame was received last
+ * @returns {{latitude: number, longitude: number}|null} Null when the pair straddles a zone boundary
+ */
+function decodeCprGlobal(even, odd, oddIsNewer) {
+  const dLatEven = 360 / (4 * NZ);
+  const dLatOdd = 360 / (4 * NZ - 1);
+
+  const j = Math.floor(59 * even.lat - 60 * odd.lat + 0.5);
+  let latEven = dLatEven * (mod(j, 60) + even.lat);
+  let latOdd = dLatOdd * (mod(j, 59) + odd.lat);
+  if (latEven >= 270) latEven -= 360;
+  if (latOdd >= 270) latOdd -= 360;
+
+  if (cprNL(latEven) !== cprNL(latOdd)) return null;
+
+  const latitude = oddIsNewer ? latOdd : latEven;
+  const nl = cprNL(latitude);
+  const m = Math.floor(even.lon * (nl - 1) - odd.lon * nl + 0.5);
+
+  const ni = Math.max(oddIsNewer ? nl - 1 : nl, 1);
+  let longitude = (360 / ni) * (mod(m, ni) + (oddIsNewer ? odd.lon : even.lon));
+  if (longitude >= 180) longitude -= 360;
+
+  return { latitude, longitude };
+}
+
+/**
+ * Airborne position from a single frame and a reference within 180 NM.
+ * @param {{odd: boolean, lat: number, lon: number}} cpr - CPR fields
+ * @param {number} refLat - Reference latitude
+ * @param {number} refLon - Reference longitude
+ * @returns {{latitude: number, longitude: number}}
+ */
+function decodeCprLocal(cpr, refLat, refLon) {
+  const i = cpr.odd ? 1 : 0;
+  const dLat = 360 / (4 * NZ - i);
+  const j = Math.floor(refLat / dLat) + Math.floor(mod(refLat, dLat) / dLat - cpr.lat + 0.5);
+  const latitude = dLat * (j + cpr.lat);
+
+  const dLon = 360 / Math.max(cprNL(latitude) - i, 1);
+  const m = Math.floor(refLon / dLon) + Math.floor(mod(refLon, dLon) / dLon - cpr.lon + 0.5);
+  const longitude = dLon * (m + cpr.lon);
+
+  return { latitude, longitude };
+}
+
+/**
+ * Decode an airborne velocity message (TC 19).
+ * Subtypes 1/2 carry ground speed and track, 3/4 airspeed and heading.
+ * @returns {Object|null} speed (kt), track or heading (deg), verticalRate (fpm)
+ */
+function decodeVelocity(hex) {
+  const bits = hexToBits(hex);
+  const subtype = bitsAt(bits, 38, 40);
+  const supersonic = subtype === 2 || subtype === 4 ? 4 : 1;
+
+  const vrSign = bits[68] === '1' ? -1 : 1;
+  const vrValue = bitsAt(bits, 70, 78);
+  const verticalRate = vrValue === 0 ? null : vrSign * (vrValue - 1) * 64;
+
+  if (subtype === 1 || subtype === 2) {
+    const ewValue = bitsAt(bits, 47, 56);
+    const nsValue = bitsAt(bits, 58, 67);
+    if (ewValue === 0 || nsValue === 0) return null;
+
+    const vEW = (bits[45] === '1' ? -1 : 1) * (ewValue - 1) * supersonic;
+    const vNS = (bits[56] === '1' ? -1 : 1) * (nsValue - 1) * supersonic;
+    const track = mod((Math.atan2(vEW, vNS) * 180) / Math.PI, 360);
+
+    return {
+      subtype,
+      speedType: 'GS',
+      speed: Math.sqrt(vEW * vEW + vNS * vNS),
+      track,
+      heading: null,
+      verticalRate
+    };
+  }
+
+  if (subtype === 3 || subtype === 4) {
+    const heading = bits[45] === '1' ? (bitsAt(bits, 47, 56) * 360) / 1024 : null;
+    const airspeedValue = bitsAt(bits, 58, 67);
+
+    return {
+      subtype,
+      speedType: bits[56] === '1' ? 'TAS' : 'IAS',
+      speed: airspeedValue === 0 ? null : (airspeedValue - 1) * supersonic,
+      track: null,
+      heading,
+      verticalRate
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Decode a Mode-S frame into a flat description.
+ * ADS-B content is only decoded when the CRC checks out; for address/parity
+ * formats (DF4/5/20/21) the recovered address is returned as `icao` and the
+ * caller decides whether it belongs to a known aircraft.
+ * @param {string} hex - 14 or 28 hex characters
+ * @returns {Object} Decoded frame
+ */
+function decodeFrame(hex) {
+  const frame = String(hex || '').toUpperCase();
+  const df = downlinkFormat(frame);
+  const remainder = crcRemainder(frame);
+  const result = { df, icao: null, crcValid: false };
+
+  if (df === 17 || df === 18) {
+    result.crcValid = remainder === 0;
+    result.icao = frame.slice(2, 8).toLowerCase();
+    if (!result.crcValid) return result;
+
+    const tc = typeCode(frame);
+    result.typeCode = tc;
+
+    if (tc >= 1 && tc <= 4) {
+      Object.assign(result, { type: 'identification' }, decodeIdentification(frame));
+    } else if (tc >= 5 && tc <= 8) {
+      Object.assign(result, { type: 'surface-position', onGround: true });
+    } else if ((tc >= 9 && tc <= 18) || (tc >= 20 && tc <= 22)) {
+      Object.assign(result, {
+        type: 'airborne-position',
+        altitude: decodeAirborneAltitude(frame),
+        cpr: decodeCprFields(frame)
+      });
+    } else if (tc === 19) {
+      const velocity = decodeVelocity(frame);
+      if (velocity) Object.assign(result, { type: 'velocity' }, velocity);
+    }
+    return result;
+  }
+
+  if (df === 11) {
+    // PI field: zero or the interrogator code in the low 7 bits
+    result.crcValid = (remainder & ~0x7f) === 0;
+    result.icao = frame.slice(2, 8).toLowerCase();
+    result.type = 'all-call';
+    return result;
+  }
+
+  // Address/parity formats cannot be checked without knowing the address
+  const bits = hexToBits(frame);
+  result.crcValid = null;
+  if (df === 0 || df === 4 || df === 16 || df === 20) {
+    result.icao = formatIcao(remainder);
+    result.type = 'altitude';
+    result.altitude = decodeAltitudeCode(bitsAt(bits, 20, 32));
+    return result;
+  }
+
+  if (df === 5 || df === 21) {
+    result.icao = formatIcao(remainder);
+    result.type = 'identity';
+    result.squawk = decodeIdentityCode(bitsAt(bits, 20, 32));
+    return result;
+  }
+
+  return result;
+}
+
+module.exports = {
+  parseAvrFrame,
+  crcRemainder,
+  downlinkFormat,
+  typeCode,
+  decodeAltitudeCode,
+  decodeIdentityCode,
+  decodeIdentification,
+  decodeAirborneAltitude,
+  decodeCprFields,
+  decodeCprGlobal,
+  decodeCprLocal,
+  decodeVelocity,
+  decodeFrame
+};
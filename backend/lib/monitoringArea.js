@@ -0,0 +1,220 @@
+const { destinationPoint, distanceMeters, expandBounds, inBounds, pointInPolygon, polygonBounds } = require('./geo');
+
+const MIN_POLYGON_VERTICES = 3;
+const FEET_PER_METER = 3.28084;
+const DEFAULT_LOOKAHEAD_HORIZON_S = 180;
+// Spacing of the points checked along a projected track
+const LOOKAHEAD_STEP_S = 5;
+
+function isCoordinate(point) {
+  return !!point &&
+    Number.isFinite(point.latitude) && Math.abs(point.latitude) <= 90 &&
+    Number.isFinite(point.longitude) && Math.abs(point.longitude) <= 180;
+}
+
+/**
+ * Check an `area` config entry
+ * @param {Object} area - { type: 'rectangle', northwest, southeast } or { type: 'polygon', vertices }
+ * @returns {string|null} Problem description, or null when the area is usable
+ */
+function validateArea(area) {
+  if (!area) return null;
+
+  if (area.type === 'rectangle') {
+    if (!isCoordinate(area.northwest) || !isCoordinate(area.southeast)) {
+      return 'Rectangle needs northwest and southeast coordinates';
+    }
+    return null;
+  }
+
+  if (area.type === 'polygon') {
+    const vertices = Array.isArray(area.vertices) ? area.vertices : [];
+    if (vertices.length < MIN_POLYGON_VERTICES) {
+      return `Polygon needs at least ${MIN_POLYGON_VERTICES} vertices`;
+    }
+    if (!vertices.every(isCoordinate)) {
+      return 'Polygon vertices need a latitude and longitude';
+    }
+    return null;
+  }
+
+  return `Unknown area type: ${area.type}`;
+}
+
+/**
+ * Check the legacy `location` circle
+ * @param {Object} location - { latitude, longitude, radius (km), maxAltitude (ft, optional) }
+ * @returns {string|null} Problem description, or null when the circle is usable
+ */
+function validateLocation(location) {
+  if (!location) return null;
+  if (!isCoordinate(location)) return 'Location needs a latitude and longitude';
+  if (!(Number(location.radius) > 0)) return 'Location radius must be a positive number of kilometers';
+  if (location.maxAltitude !== undefined && location.maxAltitude !== null && !(Number(location.maxAltitude) > 0)) {
+    return 'Altitude ceiling must be a positive number of feet';
+  }
+  return null;
+}
+
+/**
+ * Lookahead settings from config.json
+ * @param {Object} config - Server config (lookahead.buffer in km, lookahead.horizon in seconds)
+ * @returns {{buffer: number, horizon: number}} buffer is 0 when the lookahead is off
+ */
+function lookaheadSettings(config) {
+  const settings = config.lookahead || {};
+  return {
+    buffer: Number(settings.buffer) > 0 ? Number(settings.buffer) : 0,
+    horizon: Number(settings.horizon) > 0 ? Number(settings.horizon) : DEFAULT_LOOKAHEAD_HORIZON_S
+  };
+}
+
+/**
+ * Work out which adapter query covers the configured area
+ * Polygons and circles are fetched by their bounding box; `contains` then
+ * keeps the flights actually inside the polygon, or within the circle's
+ * great-circle radius and below its optional altitude ceiling. With a
+ * lookahead buffer the query reaches that much further out on every side,
+ * and `contains` still describes the inner area.
+ * @param {Object} config - Server config with `area` or legacy `location`
+ * @param {import('../adapters/FlightAdapter')} adapter - Current flight adapter
+ * @returns {{method: string, args: Array, contains: Function|null}}
+ */
+function resolveAreaQuery(config, adapter) {
+  const area = config.area;
+  const { buffer } = lookaheadSettings(config);
+
+  if (area && area.type === 'rectangle') {
+    const bounds = adapter.rectangleToBounds(area.northwest, area.southeast);
+    const query = expandBounds(bounds, buffer);
+    return {
+      method: 'getFlightsInBounds',
+      args: [query.north, query.south, query.west, query.east],
+      contains: buffer > 0 ? (flight) => inBounds(flight.latitude, flight.longitude, bounds) : null
+    };
+  }
+
+  if (area && area.type === 'polygon') {
+    const bounds = expandBounds(polygonBounds(area.vertices), buffer);
+    return {
+      method: 'getFlightsInBounds',
+      args: [bounds.north, bounds.south, bounds.west, bounds.east],
+      contains: (flight) => pointInPolygon(flight.latitude, flight.longitude, area.vertices)
+    };
+  }
+
+  if (config.location) {
+    const { latitude, longitude, radius, maxAltitude } = config.location;
+    const radiusM = Number(radius) * 1000;
+    const ceilingM = Number(maxAltitude) > 0 ? Number(maxAltitude) / FEET_PER_METER : null;
+    return {
+      method: 'getFlightsInArea',
+      args: [latitude, longitude, Number(radius) + buffer],
+      contains: (flight) => {
+        if (distanceMeters(latitude, longitude, flight.latitude, flight.longitude) > radiusM) return false;
+        // Flights without a reported altitude are kept rather than guessed away
+        if (ceilingM === null || flight.altitude === null || flight.altitude === undefined) return true;
+        return Number(flight.altitude) <= ceilingM;
+      }
+    };
+  }
+
+  throw new Error('Invalid configuration: missing location or area settings');
+}
+
+/**
+ * Seconds until a flight outside the area crosses into it, following its current track
+ * @param {Object} flight - Adapter flight (meters, m/s, degrees)
+ * @param {Function} contains - Inner area test from resolveAreaQuery
+ * @param {number} horizon - How far ahead to look, in seconds
+ * @returns {number|null} Seconds to entry, or null when it will not enter within the horizon
+ */
+function predictAreaEntry(flight, contains, horizon) {
+  const speed = Number(flight.velocity);
+  const heading = Number(flight.heading);
+  if (flight.onGround || !(speed > 0) || !Number.isFinite(heading)) return null;
+
+  const hasAltitude = flight.altitude !== null && flight.altitude !== undefined;
+  for (let seconds = LOOKAHEAD_STEP_S; seconds <= horizon; seconds += LOOKAHEAD_STEP_S) {
+    const point = destinationPoint(flight.latitude, flight.longitude, heading, speed * seconds);
+    const altitude = hasAltitude ? Number(flight.altitude) + (Number(flight.verticalRate) || 0) * seconds : flight.altitude;
+    if (contains({ ...point, altitude })) return seconds;
+  }
+  return null;
+}
+
+/**
+ * Flights in the buffer zone whose projected track enters the inner area
+ * @param {Array<Object>} flights - Adapter flights from the buffered query
+ * @param {Function|null} contains - Inner area test from resolveAreaQuery
+ * @param {Object} config - Server config with `lookahead`
+ * @returns {Array<{flight: Object, seconds: number}>} Soonest arrival first
+ */
+function findIncoming(flights, contains, config) {
+  const { buffer, horizon } = lookaheadSettings(config);
+  if (!contains || buffer === 0) return [];
+
+  return flights
+    .filter(flight => !contains(flight))
+    .map(flight => ({ flight, seconds: predictAreaEntry(flight, contains, horizon) }))
+    .filter(entry => entry.seconds !== null)
+    .sort((a, b) => a.seconds - b.seconds);
+}
+
+/**
+ * Bounding box of the configured area, without the lookahead buffer
+ * @param {Object} config - Server config with `area` or legacy `location`
+ * @returns {Object|null} {north, south, west, east}, or null when no area is set
+ */
+function areaBounds(config) {
+  const area = config.area;
+  if (area && area.type === 'rectangle') {
+    return {
+      north: area.northwest.latitude,
+      south: area.southeast.latitude,
+      west: area.northwest.longitude,
+      east: area.southeast.longitude
+    };
+  }
+  if (area && area.type === 'polygon') {
+    return polygonBounds(area.vertices);
+  }
+  if (config.location) {
+    const { latitude, longitude, radius } = config.location;
+    return expandBounds({ north: latitude, south: latitude, west: longitude, east: longitude }, Number(radius));
+  }
+  return null;
+}
+
+/**
+ * One-line description of the area for logs
+ * @param {Object} config - Server config
+ * @returns {string}
+ */
+function describeArea(config) {
+  const area = config.area;
+  const { buffer } = lookaheadSettings(config);
+  const lookahead = buffer > 0 ? `, watching ${buffer} km beyond it for incoming flights` : '';
+  if (area && area.type === 'rectangle') {
+    return `${area.name} - Rectangle from (${area.northwest.latitude}, ${area.northwest.longitude}) to (${area.southeast.latitude}, ${area.southeast.longitude})${lookahead}`;
+  }
+  if (area && area.type === 'polygon') {
+    return `${area.name} - Polygon with ${area.vertices.length} vertices${lookahead}`;
+  }
+  if (config.location) {
+    const ceiling = config.location.maxAltitude ? ` below ${config.location.maxAltitude} ft` : '';
+    return `${config.location.name} within ${config.location.radius} km of ${config.location.latitude}, ${config.location.longitude}${ceiling}${lookahead}`;
+  }
+  return 'no area';
+}
+
+module.exports = {
+  validateArea,
+  validateLocation,
+  lookaheadSettings,
+  resolveAreaQuery,
+  predictAreaEntry,
+  findIncoming,
+  areaBounds,
+  describeArea
+};
@@ -0,0 +1,117 @@
+const { EARTH_RADIUS_M, distanceMeters, bearingDegrees, toDegrees, toRadians } = require('./geo');
+
+const FEET_PER_METER = 3.28084;
+const MPS_PER_KNOT = 0.514444;
+// Straight-line extrapolation is not worth much further ahead than this
+const CPA_HORIZON_S = 1800;
+
+function isCoordinate(point) {
+  return !!point &&
+    Number.isFinite(point.latitude) && Math.abs(point.latitude) <= 90 &&
+    Number.isFinite(point.longitude) && Math.abs(point.longitude) <= 180;
+}
+
+const round = (value, digits) => Number(value.toFixed(digits));
+
+/**
+ * Check the `home` config entry
+ * @param {Object} home - { latitude, longitude, elevation (ft above sea level, optional) }
+ * @returns {string|null} Problem description, or null when the home location is usable
+ */
+function validateHome(home) {
+  if (!home) return null;
+  if (!isCoordinate(home)) return 'Home needs a latitude and longitude';
+  if (home.elevation !== undefined && home.elevation !== null && !Number.isFinite(Number(home.elevation))) {
+    return 'Home elevation must be a number of feet';
+  }
+  return null;
+}
+
+/**
+ * Where the viewer stands: `home`, or the centre of the circle location when no home is set
+ * @param {Object} config - Server config
+ * @returns {{latitude: number, longitude: number, elevation: number}|null} Elevation in feet
+ */
+function resolveObserver(config) {
+  const home = config?.home || config?.location;
+  if (!isCoordinate(home)) return null;
+  return {
+    latitude: home.latitude,
+    longitude: home.longitude,
+    elevation: config.home ? Number(config.home.elevation) || 0 : 0
+  };
+}
+
+/**
+ * Extrapolate a flight along its current track and speed to its closest point of approach
+ * Works on a flat plane around the observer, which is plenty within a few tens of kilometres.
+ * @param {Object} position - Normalized position (feet, knots, degrees, feet per minute)
+ * @param {Object} observer - Result of resolveObserver
+ * @param {number} now - When the position was valid (unix ms)
+ * @returns {{seconds: number, time: string, distance: number, altitude: number}|null}
+ *   Time to CPA and its ISO time, ground distance in km and altitude in feet there;
+ *   null once the aircraft is moving away, stationary or too far out to predict
+ */
+function predictClosestApproach(position, observer, now = Date.now()) {
+  if (!(position.speed > 0)) return null;
+
+  const groundM = distanceMeters(observer.latitude, observer.longitude, position.latitude, position.longitude);
+  const bearing = toRadians(bearingDegrees(observer.latitude, observer.longitude, position.latitude, position.longitude));
+  const x = groundM * Math.sin(bearing);
+  const y = groundM * Math.cos(bearing);
+  const speed = position.speed * MPS_PER_KNOT;
+  const vx = speed * Math.sin(toRadians(position.heading));
+  const vy = speed * Math.cos(toRadians(position.heading));
+
+  const seconds = -(x * vx + y * vy) / (speed * speed);
+  if (seconds <= 0 || seconds > CPA_HORIZON_S) return null;
+
+  const distanceM = Math.hypot(x + vx * seconds, y + vy * seconds);
+  const altitude = position.altitude + (position.verticalSpeed || 0) * seconds / 60;
+  return {
+    seconds: Math.round(seconds),
+    time: new Date(now + seconds * 1000).toISOString(),
+    distance: round(distanceM / 1000, 2),
+    altitude: Math.max(0, Math.round(altitude))
+  };
+}
+
+/**
+ * Where to look for a flight from the observer
+ * The elevation angle allows for the curvature of the earth, so distant
+ * aircraft sit lower than their altitude alone suggests.
+ * @param {Object} position - Normalized position (feet, knots, degrees)
+ * @param {Object} observer - Result of resolveObserver
+ * @param {number} now - When the position was valid (unix ms)
+ * @returns {{distance: number, bearing: number, elevation: number, slantRange: number, approaching: boolean|null, cpa: Object|null}}
+ *   Distances in km, angles in degrees; approaching is null for a stationary aircraft,
+ *   cpa is the result of predictClosestApproach
+ */
+function observeFlight(position, observer, now = Date.now()) {
+  const groundM = distanceMeters(observer.latitude, observer.longitude, position.latitude, position.longitude);
+  const heightM = (position.altitude - observer.elevation) / FEET_PER_METER;
+  const dropM = groundM * groundM / (2 * EARTH_RADIUS_M);
+  const elevation = groundM > 0 ? toDegrees(Math.atan2(heightM - dropM, groundM)) : (heightM >= 0 ? 90 : -90);
+
+  let approaching = null;
+  if (position.speed > 0 && groundM > 0) {
+    const towardsObserver = bearingDegrees(position.latitude, position.longitude, observer.latitude, observer.longitude);
+    approaching = Math.cos(toRadians(position.heading - towardsObserver)) > 0;
+  }
+
+  return {
+    distance: round(groundM / 1000, 2),
+    bearing: Math.round(bearingDegrees(observer.latitude, observer.longitude, position.latitude, position.longitude)) % 360,
+    elevation: round(elevation, 1),
+    slantRange: round(Math.hypot(groundM, heightM) / 1000, 2),
+    approaching,
+    cpa: predictClosestApproach(position, observer, now)
+  };
+}
+
+module.exports = {
+  validateHome,
+  resolveObserver,
+  predictClosestApproach,
+  observeFlight
+};
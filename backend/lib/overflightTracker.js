@@ -0,0 +1,109 @@
+const EventEmitter = require('events');
+
+// How close (km over the ground) a flight must pass to count as an overflight
+const DEFAULT_MAX_DISTANCE = 2;
+// Events kept in memory for GET /api/overflights
+const DEFAULT_MAX_EVENTS = 200;
+
+/**
+ * Watches poller snapshots for aircraft passing the observer
+ * A flight is tracked while it has a closest-point-of-approach prediction;
+ * when a later snapshot shows it moving away, the last prediction becomes
+ * an overflight event, provided it passed within `maxDistance`. A flight
+ * that drops out of the snapshots after its predicted CPA time counts as
+ * having passed too. Emits 'overflight' (event) for each one.
+ */
+class OverflightTracker extends EventEmitter {
+  /**
+   * @param {import('./flightPoller')} poller - Shared flight poller
+   */
+  constructor(poller) {
+    super();
+    this.maxDistance = DEFAULT_MAX_DISTANCE;
+    this.maxEvents = DEFAULT_MAX_EVENTS;
+    this.approaching = new Map(); // flight id -> { flight, cpa }
+    this.events = [];
+
+    poller.on('snapshot', (snapshot) => this.update(snapshot.data?.flights || [], snapshot.fetchedAt));
+  }
+
+  /**
+   * Apply overflight settings from config.json
+   * @param {Object} config - Server config (overflight.maxDistance in km, overflight.maxEvents)
+   */
+  configure(config = {}) {
+    const settings = config.overflight || {};
+    this.maxDistance = Number(settings.maxDistance) > 0 ? Number(settings.maxDistance) : DEFAULT_MAX_DISTANCE;
+    this.maxEvents = Number(settings.maxEvents) > 0 ? Number(settings.maxEvents) : DEFAULT_MAX_EVENTS;
+  }
+
+  /**
+   * Compare a new flight list against the approaching flights
+   * @param {Array<Object>} flights - Normalized flights with observer telemetry
+   * @param {number} [now] - Snapshot time (unix ms)
+   */
+  update(flights, now = Date.now()) {
+    const seen = new Set();
+
+    for (const flight of flights) {
+      if (!flight.observer) continue;
+      seen.add(flight.id);
+
+      const tracked = this.approaching.get(flight.id);
+      if (flight.observer.cpa) {
+        this.approaching.set(flight.id, { flight, cpa: flight.observer.cpa });
+      } else {
+        this.approaching.delete(flight.id);
+        if (tracked && flight.observer.approaching === false && tracked.cpa.distance <= this.maxDistance) {
+          this.add(this.describe(tracked.flight, tracked.cpa));
+        }
+      }
+    }
+
+    // Flights that left the area after their closest approach have passed; ones that left before are forgotten
+    for (const [id, tracked] of this.approaching) {
+      if (seen.has(id)) continue;
+      this.approaching.delete(id);
+      if (Date.parse(tracked.cpa.time) <= now && tracked.cpa.distance <= this.maxDistance) {
+        this.add(this.describe(tracked.flight, tracked.cpa));
+      }
+    }
+  }
+
+  describe(flight, cpa) {
+    return {
+      id: `${flight.id}_${Date.parse(cpa.time)}`,
+      flightId: flight.id,
+      flightNumber: flight.flightNumber,
+      callsign: flight.callsign,
+      airline: flight.airline?.name || '',
+      aircraftType: flight.aircraft?.icao || flight.aircraft?.type || '',
+      registration: flight.aircraft?.registration || '',
+      time: cpa.time,
+      distance: cpa.distance,
+      altitude: cpa.altitude
+    };
+  }
+
+  add(event) {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+    this.emit('overflight', event);
+  }
+
+  /**
+   * Recent overflights, oldest first
+   * @param {Object} options
+   * @param {number} options.since - Only events after this time (unix ms)
+   * @param {number} [options.limit] - Most recent events to return (max maxEvents)
+   * @returns {Array<Object>}
+   */
+  list({ since = 0, limit } = {}) {
+    const count = Math.min(Math.max(Number(limit) || this.maxEvents, 1), this.maxEvents);
+    return this.events.filter(event => Date.parse(event.time) > since).slice(-count);
+  }
+}
+
+module.exports = OverflightTracker;
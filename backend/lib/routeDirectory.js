@@ -0,0 +1,197 @@
+const { parseCsvRecords } = require('./csv');
+
+// Providers whose origin/destination are schedule data worth remembering
+const LEARN_FROM = ['flightradar24'];
+
+const CALLSIGN_PATTERN = /^[A-Z0-9]{2,8}$/;
+const AIRPORT_PATTERN = /^[A-Z0-9]{3,4}$/;
+
+function normalizeCallsign(value) {
+  return String(value || '').trim().toUpperCase().replace(/\s+/g, '');
+}
+
+function normalizeAirportCode(value) {
+  const code = String(value || '').trim().toUpperCase();
+  return AIRPORT_PATTERN.test(code) ? code : '';
+}
+
+/**
+ * Read origin and destination from a CSV record
+ * Accepts explicit origin/destination columns or the VRS standing data
+ * `AirportCodes` column (stops joined by '-', first and last are used).
+ */
+function readRoute(record) {
+  if (record.airportcodes) {
+    const stops = record.airportcodes.split('-').map(normalizeAirportCode);
+    return { origin: stops[0] || '', destination: stops.length > 1 ? stops[stops.length - 1] : '' };
+  }
+  return {
+    origin: normalizeAirportCode(record.origin || record.from || record.departure),
+    destination: normalizeAirportCode(record.destination || record.to || record.arrival)
+  };
+}
+
+/**
+ * Local callsign to route table
+ * Answers origin and destination for providers that only know the callsign,
+ * filled from an imported CSV, manual edits and routes seen in FlightRadar24
+ * responses, so routes survive a provider switch or going offline.
+ */
+class RouteDirectory {
+  /**
+   * @param {Object} options
+   * @param {import('better-sqlite3').Database} options.db - Database holding the route table
+   */
+  constructor({ db }) {
+    this.db = db;
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS routes (
+        callsign TEXT PRIMARY KEY,
+        origin TEXT NOT NULL,
+        destination TEXT NOT NULL,
+        source TEXT,
+        updatedAt TEXT
+      );
+    `);
+    this.statements = {
+      find: db.prepare(`SELECT * FROM routes WHERE callsign = ?`),
+      search: db.prepare(`SELECT * FROM routes
+        WHERE callsign LIKE @pattern OR origin LIKE @pattern OR destination LIKE @pattern
+        ORDER BY callsign ASC LIMIT @limit OFFSET @offset`),
+      count: db.prepare(`SELECT COUNT(*) AS total FROM routes
+        WHERE callsign LIKE @pattern OR origin LIKE @pattern OR destination LIKE @pattern`),
+      upsert: db.prepare(`INSERT INTO routes (callsign, origin, destination, source, updatedAt)
+        VALUES (@callsign, @origin, @destination, @source, @updatedAt)
+        ON CONFLICT(callsign) DO UPDATE SET origin=@origin, destination=@destination, source=@source, updatedAt=@updatedAt`),
+      remove: db.prepare(`DELETE FROM routes WHERE callsign = ?`)
+    };
+  }
+
+  /**
+   * Find the route flown under a callsign
+   * @param {string} callsign - ICAO callsign or flight number
+   * @returns {Object|null} { callsign, origin, destination, source, updatedAt }
+   */
+  lookup(callsign) {
+    const normalized = normalizeCallsign(callsign);
+    if (!normalized) return null;
+    return this.statements.find.get(normalized) || null;
+  }
+
+  /**
+   * Page through the table
+   * @param {Object} options
+   * @param {string} [options.search] - Matches callsign or airport codes
+   * @param {number} [options.limit] - Page size (max 500)
+   * @param {number} [options.offset] - Rows to skip
+   * @returns {{routes: Array<Object>, total: number}}
+   */
+  list({ search = '', limit = 50, offset = 0 } = {}) {
+    const params = {
+      pattern: `%${String(search).trim()}%`,
+      limit: Math.min(Math.max(Number(limit) || 50, 1), 500),
+      offset: Math.max(Number(offset) || 0, 0)
+    };
+    return {
+      routes: this.statements.search.all(params),
+      total: this.statements.count.get(params).total
+    };
+  }
+
+  /**
+   * Add or replace a route
+   * @param {Object} entry - { callsign, origin, destination, source }
+   * @returns {Object} Stored route
+   */
+  save(entry = {}) {
+    const callsign = normalizeCallsign(entry.callsign);
+    if (!CALLSIGN_PATTERN.test(callsign)) throw new Error('A callsign is required');
+    const origin = normalizeAirportCode(entry.origin);
+    const destination = normalizeAirportCode(entry.destination);
+    if (!origin || !destination) throw new Error('Origin and destination airport codes are required');
+
+    const row = {
+      callsign,
+      origin,
+      destination,
+      source: entry.source || 'manual',
+      updatedAt: new Date().toISOString()
+    };
+    this.statements.upsert.run(row);
+    return row;
+  }
+
+  /**
+   * Remove a route
+   * @param {string} callsign - Callsign
+   * @returns {boolean} Whether a route was removed
+   */
+  remove(callsign) {
+    return this.statements.remove.run(normalizeCallsign(callsign)).changes > 0;
+  }
+
+  /**
+   * Import routes from CSV text
+   * Needs a `callsign` column plus either `origin` and `destination` or the
+   * VRS standing data `airportcodes` column; existing routes are replaced.
+   * @param {string} text - CSV contents
+   * @returns {{imported: number, skipped: number}}
+   */
+  importCsv(text) {
+    const records = parseCsvRecords(String(text || ''));
+    if (records.length === 0) return { imported: 0, skipped: 0 };
+    if (!('callsign' in records[0])) throw new Error('CSV needs a callsign column');
+
+    let imported = 0;
+    let skipped = 0;
+    const importAll = this.db.transaction(() => {
+      for (const record of records) {
+        const callsign = normalizeCallsign(record.callsign);
+        const { origin, destination } = readRoute(record);
+        if (!CALLSIGN_PATTERN.test(callsign) || !origin || !destination) {
+          skipped += 1;
+          continue;
+        }
+        this.statements.upsert.run({ callsign, origin, destination, source: 'import', updatedAt: new Date().toISOString() });
+        imported += 1;
+      }
+    });
+    importAll();
+
+    return { imported, skipped };
+  }
+
+  /**
+   * Remember routes reported by schedule-aware providers
+   * @param {Object} data - Adapter output before normalization
+   * @returns {number} Routes added or changed
+   */
+  learn(data) {
+    const flights = Array.isArray(data?.flights) ? data.flights : [];
+    let learned = 0;
+
+    const learnAll = this.db.transaction(() => {
+      for (const flight of flights) {
+        // Merged flights name the provider per field; otherwise the whole answer came from one provider
+        const source = flight.sources?.origin || data.source;
+        if (!LEARN_FROM.includes(source)) continue;
+
+        const callsign = normalizeCallsign(flight.callsign);
+        const origin = normalizeAirportCode(flight.origin);
+        const destination = normalizeAirportCode(flight.destination);
+        if (!CALLSIGN_PATTERN.test(callsign) || !origin || !destination) continue;
+
+        const known = this.statements.find.get(callsign);
+        if (known && known.origin === origin && known.destination === destination) continue;
+
+        this.statements.upsert.run({ callsign, origin, destination, source, updatedAt: new Date().toISOString() });
+        learned += 1;
+      }
+    });
+    learnAll();
+
+    return learned;
+  }
+}
+
+module.exports = RouteDirectory;
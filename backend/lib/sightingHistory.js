@@ -0,0 +1,490 @@
+const { expandBounds } = require('./geo');
+
+const DEFAULT_RETENTION_DAYS = 90;
+// A flight unseen for longer than this starts a new sighting when it comes back
+const DEFAULT_SESSION_GAP_MINUTES = 10;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+// Closest-approach predictions this close in time are trusted over the last observed distance
+const CPA_TRUST_S = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_STATS_DAYS = 30;
+// The hourly series covers this much of the end of the range
+const HOURLY_WINDOW_MS = 48 * 60 * 60 * 1000;
+const ALTITUDE_BIN_FT = 2000;
+const TOP_TYPES = 15;
+const DEFAULT_DENSITY_CELLS = 50;
+const MAX_DENSITY_CELLS = 200;
+const KM_PER_DEGREE = 111.32;
+// How far the density grid reaches beyond the monitored area (km)
+const DEFAULT_DENSITY_MARGIN_KM = 5;
+// An aircraft counts once per cell in this span, so slow or circling aircraft do not dominate
+const DENSITY_PASS_MS = 60 * 60 * 1000;
+const FEET_PER_METER = 3.28084;
+// Raw traffic positions are only kept for the density map, so they age out sooner than sightings
+const DEFAULT_TRAFFIC_RETENTION_DAYS = 7;
+const DEFAULT_MAX_TRAFFIC_POSITIONS = 500000;
+// Window the density map covers when no `from` is given
+const DEFAULT_DENSITY_DAYS = 7;
+
+function toTime(value) {
+  if (value === undefined || value === null || value === '') return null;
+  const time = Number.isFinite(Number(value)) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
+
+function toNumberOrNull(value) {
+  if (value === undefined || value === null || value === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+// The airframe, so a callsign that turns up mid-pass does not start a new sighting
+function flightKey(flight) {
+  return flight.icao24 || flight.id;
+}
+
+// Closest the aircraft has come to the observer in this poll, if it is known
+function passDistance(flight) {
+  const observer = flight.observer;
+  if (!observer) return null;
+  const cpa = observer.cpa;
+  return cpa && cpa.seconds <= CPA_TRUST_S ? Math.min(observer.distance, cpa.distance) : observer.distance;
+}
+
+function toSighting(row) {
+  if (!row) return null;
+  const sighting = {
+    ...row,
+    firstSeen: new Date(row.firstSeen).toISOString(),
+    lastSeen: new Date(row.lastSeen).toISOString()
+  };
+  delete sighting.flightKey;
+  return sighting;
+}
+
+/**
+ * Log of every distinct flight seen overhead
+ * One row per sighting (a flight seen in consecutive polls, allowing for
+ * short gaps) with its identity, route, time span, lowest altitude and
+ * closest distance to the observer, plus the positions it was seen at.
+ * Separately keeps every position from the provider's full answer, including
+ * traffic outside the area, for the density map.
+ */
+class SightingHistory {
+  /**
+   * @param {Object} options
+   * @param {import('better-sqlite3').Database} options.db - Database holding the history tables
+   */
+  constructor({ db }) {
+    this.db = db;
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sightings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        flightKey TEXT NOT NULL,
+        icao24 TEXT,
+        callsign TEXT,
+        flightNumber TEXT,
+        registration TEXT,
+        aircraftType TEXT,
+        airlineIcao TEXT,
+        airlineIata TEXT,
+        airlineName TEXT,
+        origin TEXT,
+        destination TEXT,
+        firstSeen INTEGER NOT NULL,
+        lastSeen INTEGER NOT NULL,
+        minAltitude INTEGER,
+        cpaDistance REAL
+      );
+      CREATE INDEX IF NOT EXISTS sightings_last_seen ON sightings (lastSeen);
+      CREATE INDEX IF NOT EXISTS sightings_flight_key ON sightings (flightKey, lastSeen);
+      CREATE TABLE IF NOT EXISTS sighting_positions (
+        sightingId INTEGER NOT NULL,
+        t INTEGER NOT NULL,
+        latitude REAL NOT NULL,
+        longitude REAL NOT NULL,
+        altitude INTEGER,
+        speed INTEGER,
+        heading INTEGER,
+        verticalSpeed INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS sighting_positions_sighting ON sighting_positions (sightingId, t);
+      CREATE TABLE IF NOT EXISTS traffic_positions (
+        t INTEGER NOT NULL,
+        icao24 TEXT NOT NULL,
+        latitude REAL NOT NULL,
+        longitude REAL NOT NULL,
+        altitude INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS traffic_positions_time ON traffic_positions (t);
+    `);
+
+    const filters = `
+      (@search IS NULL OR callsign LIKE @search OR flightNumber LIKE @search OR registration LIKE @search)
+      AND (@callsign IS NULL OR callsign LIKE @callsign OR flightNumber LIKE @callsign)
+      AND (@registration IS NULL OR REPLACE(registration, '-', '') LIKE REPLACE(@registration, '-', ''))
+      AND (@airline IS NULL OR airlineIcao LIKE @airline OR airlineIata LIKE @airline OR airlineName LIKE @airline)
+      AND (@type IS NULL OR aircraftType LIKE @type)
+      AND (@from IS NULL OR lastSeen >= @from)
+      AND (@to IS NULL OR firstSeen <= @to)
+      AND (@minAltitude IS NULL OR minAltitude >= @minAltitude)
+      AND (@maxAltitude IS NULL OR minAltitude <= @maxAltitude)`;
+
+    this.statements = {
+      latest: db.prepare(`SELECT id, lastSeen FROM sightings WHERE flightKey = ? ORDER BY lastSeen DESC LIMIT 1`),
+      insert: db.prepare(`INSERT INTO sightings (flightKey, icao24, callsign, flightNumber, registration, aircraftType,
+          airlineIcao, airlineIata, airlineName, origin, destination, firstSeen, lastSeen, minAltitude, cpaDistance)
+        VALUES (@flightKey, @icao24, @callsign, @flightNumber, @registration, @aircraftType,
+          @airlineIcao, @airlineIata, @airlineName, @origin, @destination, @seenAt, @seenAt, @altitude, @cpaDistance)`),
+      update: db.prepare(`UPDATE sightings SET
+          lastSeen = @seenAt,
+          callsign = COALESCE(NULLIF(callsign, ''), @callsign),
+          flightNumber = COALESCE(NULLIF(flightNumber, ''), @flightNumber),
+          airlineIcao = COALESCE(NULLIF(airlineIcao, ''), @airlineIcao),
+          airlineIata = COALESCE(NULLIF(airlineIata, ''), @airlineIata),
+          airlineName = COALESCE(NULLIF(airlineName, ''), @airlineName),
+          registration = COALESCE(NULLIF(registration, ''), @registration),
+          aircraftType = COALESCE(NULLIF(aircraftType, ''), @aircraftType),
+          origin = COALESCE(NULLIF(origin, ''), @origin),
+          destination = COALESCE(NULLIF(destination, ''), @destination),
+          minAltitude = MIN(COALESCE(minAltitude, @altitude), @altitude),
+          cpaDistance = CASE WHEN @cpaDistance IS NULL THEN cpaDistance
+            ELSE MIN(COALESCE(cpaDistance, @cpaDistance), @cpaDistance) END
+        WHERE id = @id`),
+      addPosition: db.prepare(`INSERT INTO sighting_positions (sightingId, t, latitude, longitude, altitude, speed, heading, verticalSpeed)
+        VALUES (@sightingId, @seenAt, @latitude, @longitude, @altitude, @speed, @heading, @verticalSpeed)`),
+      search: db.prepare(`SELECT * FROM sightings WHERE ${filters}
+        ORDER BY lastSeen DESC LIMIT @limit OFFSET @offset`),
+      count: db.prepare(`SELECT COUNT(*) AS total FROM sightings WHERE ${filters}`),
+      find: db.prepare(`SELECT * FROM sightings WHERE id = ?`),
+      track: db.prepare(`SELECT t, latitude, longitude, altitude, speed, heading, verticalSpeed
+        FROM sighting_positions WHERE sightingId = ? ORDER BY t ASC`),
+      addTraffic: db.prepare(`INSERT INTO traffic_positions (t, icao24, latitude, longitude, altitude)
+        VALUES (@seenAt, @icao24, @latitude, @longitude, @altitude)`),
+      removeTrafficBefore: db.prepare(`DELETE FROM traffic_positions WHERE t < ?`),
+      removeTrafficBeyond: db.prepare(`DELETE FROM traffic_positions
+        WHERE rowid <= (SELECT rowid FROM traffic_positions ORDER BY rowid DESC LIMIT 1 OFFSET ?)`),
+      removePositionsBefore: db.prepare(`DELETE FROM sighting_positions
+        WHERE sightingId IN (SELECT id FROM sightings WHERE lastSeen < ?)`),
+      removeBefore: db.prepare(`DELETE FROM sightings WHERE lastSeen < ?`),
+      removePositionsBeyond: db.prepare(`DELETE FROM sighting_positions
+        WHERE sightingId IN (SELECT id FROM sightings ORDER BY lastSeen DESC LIMIT -1 OFFSET ?)`),
+      removeBeyond: db.prepare(`DELETE FROM sightings
+        WHERE id IN (SELECT id FROM sightings ORDER BY lastSeen DESC LIMIT -1 OFFSET ?)`),
+      // Aggregates bucket sightings by when they were first seen, in the server's local time
+      total: db.prepare(`SELECT COUNT(*) AS total FROM sightings WHERE firstSeen BETWEEN @from AND @to`),
+      daily: db.prepare(`SELECT strftime('%Y-%m-%d', firstSeen / 1000, 'unixepoch', 'localtime') AS date,
+          COUNT(*) AS count, ROUND(AVG(minAltitude)) AS averageAltitude
+        FROM sightings WHERE firstSeen BETWEEN @from AND @to GROUP BY date ORDER BY date`),
+      hourly: db.prepare(`SELECT strftime('%Y-%m-%dT%H:00', firstSeen / 1000, 'unixepoch', 'localtime') AS hour, COUNT(*) AS count
+        FROM sightings WHERE firstSeen BETWEEN @from AND @to GROUP BY hour ORDER BY hour`),
+      busiest: db.prepare(`SELECT CAST(strftime('%w', firstSeen / 1000, 'unixepoch', 'localtime') AS INTEGER) AS weekday,
+          CAST(strftime('%H', firstSeen / 1000, 'unixepoch', 'localtime') AS INTEGER) AS hour, COUNT(*) AS count
+        FROM sightings WHERE firstSeen BETWEEN @from AND @to GROUP BY weekday, hour ORDER BY weekday, hour`),
+      airlines: db.prepare(`SELECT airlineIata AS iata, airlineIcao AS icao, MAX(airlineName) AS name, COUNT(*) AS count
+        FROM sightings WHERE firstSeen BETWEEN @from AND @to AND (airlineIata != '' OR airlineIcao != '')
+        GROUP BY airlineIata, airlineIcao ORDER BY count DESC`),
+      types: db.prepare(`SELECT aircraftType AS type, COUNT(*) AS count
+        FROM sightings WHERE firstSeen BETWEEN @from AND @to AND aircraftType != ''
+        GROUP BY aircraftType ORDER BY count DESC LIMIT ${TOP_TYPES}`),
+      altitudes: db.prepare(`SELECT CAST(minAltitude / ${ALTITUDE_BIN_FT} AS INTEGER) * ${ALTITUDE_BIN_FT} AS altitude, COUNT(*) AS count
+        FROM sightings WHERE firstSeen BETWEEN @from AND @to AND minAltitude IS NOT NULL
+        GROUP BY altitude ORDER BY altitude`),
+      // Aircraft passes (not positions) through each grid cell
+      density: db.prepare(`SELECT MIN(CAST((latitude - @south) / @cellLatitude AS INTEGER), @lastRow) AS gridRow,
+          MIN(CAST((longitude - @west) / @cellLongitude AS INTEGER), @lastColumn) AS gridColumn,
+          COUNT(DISTINCT icao24 || '@' || (t / ${DENSITY_PASS_MS})) AS count
+        FROM traffic_positions
+        WHERE t BETWEEN @from AND @to AND latitude BETWEEN @south AND @north AND longitude BETWEEN @west AND @east
+        GROUP BY gridRow, gridColumn`)
+    };
+
+    this.enabled = true;
+    this.retentionDays = DEFAULT_RETENTION_DAYS;
+    this.maxSightings = 0;
+    this.sessionGap = DEFAULT_SESSION_GAP_MINUTES * 60 * 1000;
+    this.densityMargin = DEFAULT_DENSITY_MARGIN_KM;
+    this.trafficRetentionDays = DEFAULT_TRAFFIC_RETENTION_DAYS;
+    this.maxTrafficPositions = DEFAULT_MAX_TRAFFIC_POSITIONS;
+    this.lastPrunedAt = 0;
+  }
+
+  /**
+   * Apply history settings from config.json
+   * @param {Object} config - Server config (history.enabled, retentionDays, maxSightings, sessionGapMinutes,
+   *   densityMargin, trafficRetentionDays, maxTrafficPositions)
+   */
+  configure(config = {}) {
+    const settings = config.history || {};
+    this.enabled = settings.enabled !== false;
+    const retention = Number(settings.retentionDays);
+    this.retentionDays = settings.retentionDays !== undefined && retention >= 0 ? retention : DEFAULT_RETENTION_DAYS;
+    this.maxSightings = Number(settings.maxSightings) > 0 ? Number(settings.maxSightings) : 0;
+    this.sessionGap = (Number(settings.sessionGapMinutes) > 0 ? Number(settings.sessionGapMinutes) : DEFAULT_SESSION_GAP_MINUTES) * 60 * 1000;
+    const margin = Number(settings.densityMargin);
+    this.densityMargin = settings.densityMargin !== undefined && margin >= 0 ? margin : DEFAULT_DENSITY_MARGIN_KM;
+    // Always bounded, even when sightings are kept forever
+    this.trafficRetentionDays = Number(settings.trafficRetentionDays) > 0 ? Number(settings.trafficRetentionDays) : DEFAULT_TRAFFIC_RETENTION_DAYS;
+    this.maxTrafficPositions = Number(settings.maxTrafficPositions) > 0 ? Math.floor(Number(settings.maxTrafficPositions)) : DEFAULT_MAX_TRAFFIC_POSITIONS;
+  }
+
+  /**
+   * Log the flights in one poll
+   * @param {Array<Object>} flights - Normalized flights
+   * @param {number} seenAt - Poll time (unix ms)
+   * @returns {number} Sightings started by this poll
+   */
+  record(flights, seenAt = Date.now()) {
+    if (!this.enabled || !Array.isArray(flights)) return 0;
+
+    let started = 0;
+    const recordAll = this.db.transaction(() => {
+      for (const flight of flights) {
+        const key = flightKey(flight);
+        const row = {
+          flightKey: key,
+          seenAt,
+          icao24: flight.icao24 || '',
+          callsign: String(flight.callsign || '').trim().toUpperCase(),
+          flightNumber: flight.flightNumber || '',
+          registration: flight.aircraft?.registration || '',
+          aircraftType: flight.aircraft?.icao || flight.aircraft?.type || '',
+          airlineIcao: flight.airline?.icao || '',
+          airlineIata: flight.airline?.iata || '',
+          // The normalizer's placeholder name is not worth keeping
+          airlineName: flight.airline?.icao || flight.airline?.iata ? flight.airline.name || '' : '',
+          origin: flight.departure?.iata || flight.departure?.icao || '',
+          destination: flight.arrival?.iata || flight.arrival?.icao || '',
+          altitude: toNumberOrNull(flight.position?.altitude),
+          cpaDistance: passDistance(flight)
+        };
+
+        const latest = this.statements.latest.get(key);
+        let sightingId;
+        if (latest && seenAt - latest.lastSeen <= this.sessionGap) {
+          sightingId = latest.id;
+          this.statements.update.run({ ...row, id: sightingId });
+        } else {
+          sightingId = this.statements.insert.run(row).lastInsertRowid;
+          started += 1;
+        }
+
+        this.statements.addPosition.run({
+          sightingId,
+          seenAt,
+          latitude: flight.position.latitude,
+          longitude: flight.position.longitude,
+          altitude: row.altitude,
+          speed: toNumberOrNull(flight.position.speed),
+          heading: toNumberOrNull(flight.position.heading),
+          verticalSpeed: toNumberOrNull(flight.position.verticalSpeed)
+        });
+      }
+    });
+    recordAll();
+
+    if (seenAt - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      this.prune(seenAt);
+    }
+    return started;
+  }
+
+  /**
+   * Keep the positions of every aircraft in a provider answer for the density map
+   * Takes the adapter's flights before the area and display filters, so traffic
+   * around the area (and in the lookahead buffer) is counted too.
+   * @param {Array<Object>} flights - Adapter flights (degrees, meters)
+   * @param {number} seenAt - Fetch time (unix ms)
+   * @returns {number} Positions stored
+   */
+  recordTraffic(flights, seenAt = Date.now()) {
+    if (!this.enabled || !Array.isArray(flights)) return 0;
+
+    let stored = 0;
+    const recordAll = this.db.transaction(() => {
+      for (const flight of flights) {
+        const icao24 = String(flight.icao24 || flight.id || '').trim().toLowerCase();
+        const latitude = toNumberOrNull(flight.latitude);
+        const longitude = toNumberOrNull(flight.longitude);
+        if (!icao24 || latitude === null || longitude === null || flight.onGround) continue;
+
+        const altitude = toNumberOrNull(flight.altitude);
+        this.statements.addTraffic.run({
+          seenAt,
+          icao24,
+          latitude,
+          longitude,
+          altitude: altitude === null ? null : Math.round(altitude * FEET_PER_METER)
+        });
+        stored += 1;
+      }
+    });
+    recordAll();
+
+    if (seenAt - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      this.prune(seenAt);
+    }
+    return stored;
+  }
+
+  /**
+   * Drop sightings older than the retention period or beyond maxSightings,
+   * and traffic positions older than trafficRetentionDays or beyond maxTrafficPositions
+   * @param {number} now - Current time (unix ms)
+   * @returns {number} Sightings removed
+   */
+  prune(now = Date.now()) {
+    this.lastPrunedAt = now;
+    let removed = 0;
+    const pruneAll = this.db.transaction(() => {
+      this.statements.removeTrafficBefore.run(now - this.trafficRetentionDays * DAY_MS);
+      this.statements.removeTrafficBeyond.run(this.maxTrafficPositions);
+      if (this.retentionDays > 0) {
+        const cutoff = now - this.retentionDays * DAY_MS;
+        this.statements.removePositionsBefore.run(cutoff);
+        removed += this.statements.removeBefore.run(cutoff).changes;
+      }
+      if (this.maxSightings > 0) {
+        this.statements.removePositionsBeyond.run(this.maxSightings);
+        removed += this.statements.removeBeyond.run(this.maxSightings).changes;
+      }
+    });
+    pruneAll();
+    return removed;
+  }
+
+  /**
+   * Page through past sightings, most recent first
+   * Text filters match anywhere in the field; `from`/`to` select sightings
+   * overlapping that time range; altitudes (feet) apply to the lowest altitude seen.
+   * @param {Object} options
+   * @param {string} [options.search] - Callsign, flight number or registration
+   * @param {string} [options.callsign] - Callsign or flight number
+   * @param {string} [options.registration] - Registration, with or without the dash
+   * @param {string} [options.airline] - Airline ICAO, IATA or name
+   * @param {string} [options.type] - ICAO aircraft type
+   * @param {string|number} [options.from] - ISO time or unix ms
+   * @param {string|number} [options.to] - ISO time or unix ms
+   * @param {number} [options.minAltitude] - Lowest altitude at least this
+   * @param {number} [options.maxAltitude] - Lowest altitude at most this
+   * @param {number} [options.limit] - Page size (max 500)
+   * @param {number} [options.offset] - Rows to skip
+   * @returns {{sightings: Array<Object>, total: number}}
+   */
+  list(options = {}) {
+    const pattern = (value) => {
+      const text = String(value || '').trim();
+      return text ? `%${text}%` : null;
+    };
+    const params = {
+      search: pattern(options.search),
+      callsign: pattern(options.callsign),
+      registration: pattern(options.registration),
+      airline: pattern(options.airline),
+      type: pattern(options.type),
+      from: toTime(options.from),
+      to: toTime(options.to),
+      minAltitude: toNumberOrNull(options.minAltitude),
+      maxAltitude: toNumberOrNull(options.maxAltitude)
+    };
+    return {
+      sightings: this.statements.search.all({
+        ...params,
+        limit: Math.min(Math.max(Number(options.limit) || 50, 1), 500),
+        offset: Math.max(Number(options.offset) || 0, 0)
+      }).map(toSighting),
+      total: this.statements.count.get(params).total
+    };
+  }
+
+  /**
+   * One sighting with the positions it was seen at
+   * @param {number} id - Sighting id
+   * @returns {Object|null} Sighting with `track` [{ t, latitude, longitude, altitude, speed, heading, verticalSpeed }]
+   */
+  get(id) {
+    const sighting = toSighting(this.statements.find.get(Number(id)));
+    if (!sighting) return null;
+    const track = this.statements.track.all(sighting.id).map(point => ({ ...point, t: new Date(point.t).toISOString() }));
+    return { ...sighting, track };
+  }
+
+  /**
+   * Traffic aggregates over a time range, bucketed in the server's local time
+   * @param {Object} options
+   * @param {string|number} [options.from] - ISO time or unix ms (default 30 days before `to`)
+   * @param {string|number} [options.to] - ISO time or unix ms (default now)
+   * @returns {Object} { from, to, total, daily [{ date, count, averageAltitude }], hourly [{ hour, count }] (last 48 h),
+   *   busiest [{ weekday (0 = Sunday), hour, count }], airlines [{ iata, icao, name, count }], types [{ type, count }] (top 15),
+   *   altitudes [{ altitude (bin floor, ft), count }] }
+   */
+  stats(options = {}) {
+    const to = toTime(options.to) ?? Date.now();
+    const from = toTime(options.from) ?? to - DEFAULT_STATS_DAYS * DAY_MS;
+    const range = { from, to };
+    return {
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      total: this.statements.total.get(range).total,
+      daily: this.statements.daily.all(range),
+      hourly: this.statements.hourly.all({ from: Math.max(from, to - HOURLY_WINDOW_MS), to }),
+      busiest: this.statements.busiest.all(range),
+      airlines: this.statements.airlines.all(range),
+      types: this.statements.types.all(range),
+      altitudes: this.statements.altitudes.all(range)
+    };
+  }
+
+  /**
+   * Traffic density around a bounding box: recorded traffic positions binned into square cells
+   * The grid reaches `history.densityMargin` km beyond the box on every side.
+   * @param {Object} options
+   * @param {Object} options.bounds - {north, south, west, east} of the monitored area
+   * @param {number} [options.cells] - Cells along the longer side (default 50, max 200)
+   * @param {string|number} [options.from] - ISO time or unix ms (default 7 days before `to`)
+   * @param {string|number} [options.to] - ISO time or unix ms (default now)
+   * @returns {Object} { bounds (of the grid), area, rows, columns, cellSize (km), max,
+   *   cells [{ row, column, latitude, longitude (cell centre), count (aircraft passes) }] } with row 0 at the south edge
+   */
+  density({ bounds, cells, from, to } = {}) {
+    const { north, south, west, east } = expandBounds(bounds, this.densityMargin);
+    const size = Math.min(Math.max(Math.round(Number(cells)) || DEFAULT_DENSITY_CELLS, 1), MAX_DENSITY_CELLS);
+    const lonScale = Math.max(Math.cos((north + south) / 2 * Math.PI / 180), 0.01);
+    const heightKm = (north - south) * KM_PER_DEGREE;
+    const widthKm = (east - west) * KM_PER_DEGREE * lonScale;
+    const cellSize = Math.max(heightKm, widthKm, 0.001) / size;
+    const rows = Math.max(1, Math.ceil(heightKm / cellSize - 1e-9));
+    const columns = Math.max(1, Math.ceil(widthKm / cellSize - 1e-9));
+    const cellLatitude = cellSize / KM_PER_DEGREE;
+    const cellLongitude = cellLatitude / lonScale;
+    const end = toTime(to) ?? Date.now();
+
+    const binned = this.statements.density.all({
+      north, south, west, east,
+      cellLatitude,
+      cellLongitude,
+      lastRow: rows - 1,
+      lastColumn: columns - 1,
+      from: toTime(from) ?? end - DEFAULT_DENSITY_DAYS * DAY_MS,
+      to: end
+    }).map(({ gridRow, gridColumn, count }) => ({
+      row: gridRow,
+      column: gridColumn,
+      latitude: south + (gridRow + 0.5) * cellLatitude,
+      longitude: west + (gridColumn + 0.5) * cellLongitude,
+      count
+    }));
+
+    return {
+      bounds: { north, south, west, east },
+      area: { north: bounds.north, south: bounds.south, west: bounds.west, east: bounds.east },
+      rows,
+      columns,
+      cellSize,
+      max: binned.reduce((max, cell) => Math.max(max, cell.count), 0),
+      cells: binned
+    };
+  }
+}
+
+module.exports = SightingHistory;
@@ -0,0 +1,81 @@
+const express = require('express');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const multer = require('multer');
+const adminAuth = require('../middleware/adminAuth');
+
+// Imports are streamed, so this only bounds the temporary upload on disk (the full OpenSky database is around 100 MB)
+const MAX_IMPORT_SIZE = Number(process.env.MAX_AIRCRAFT_IMPORT_SIZE) || 128 * 1024 * 1024;
+const upload = multer({
+  dest: path.join(os.tmpdir(), 'flights-uploads'),
+  limits: { fileSize: MAX_IMPORT_SIZE }
+});
+
+/**
+ * Aircraft registry routes
+ * @param {import('../lib/aircraftRegistry')} registry - Aircraft registry
+ * @returns {express.Router}
+ */
+function createAircraftRouter(registry) {
+  const router = express.Router();
+
+  // GET /api/aircraft?search=&limit=&offset= (admin)
+  router.get('/', adminAuth, (req, res) => {
+    try {
+      return res.json(registry.list({
+        search: req.query.search || '',
+        limit: req.query.limit,
+        offset: req.query.offset
+      }));
+    } catch (err) {
+      console.error('Failed to read aircraft registry', err.message);
+      return res.status(500).json({ error: 'Failed to read aircraft registry' });
+    }
+  });
+
+  // POST /api/aircraft/import (admin, multipart field "file")
+  router.post('/import', adminAuth, upload.single('file'), async (req, res) => {
+    if (!req.file) return res.status(400).json({ error: 'Missing file' });
+    try {
+      const result = await registry.importCsvFile(req.file.path);
+      return res.json(result);
+    } catch (err) {
+      console.error('Failed to import aircraft registry', err.message);
+      return res.status(400).json({ error: err.message });
+    } finally {
+      fs.unlink(req.file.path, () => {});
+    }
+  });
+
+  // GET /api/aircraft/:icao24
+  router.get('/:icao24', (req, res) => {
+    const aircraft = registry.lookup(req.params.icao24);
+    if (!aircraft) return res.status(404).json({ error: 'Unknown aircraft' });
+    return res.json(aircraft);
+  });
+
+  // PUT /api/aircraft/:icao24 (admin)
+  router.put('/:icao24', adminAuth, (req, res) => {
+    try {
+      return res.json(registry.save({ ...(req.body || {}), icao24: req.params.icao24 }));
+    } catch (err) {
+      return res.status(400).json({ error: err.message });
+    }
+  });
+
+  // DELETE /api/aircraft/:icao24 (admin)
+  router.delete('/:icao24', adminAuth, (req, res) => {
+    try {
+      if (!registry.remove(req.params.icao24)) return res.status(404).json({ error: 'Not found' });
+      return res.status(204).send();
+    } catch (err) {
+      console.error('Failed to delete aircraft', err.message);
+      return res.status(500).json({ error: 'Failed to delete aircraft' });
+    }
+  });
+
+  return router;
+}
+
+module.exports = createAircraftRouter;
@@ -0,0 +1,61 @@
+const express = require('express');
+const adminAuth = require('../middleware/adminAuth');
+
+/**
+ * Airport lookup and admin override routes
+ * @param {import('../lib/airportDirectory')} airports - Airport directory
+ * @returns {express.Router}
+ */
+function createAirportsRouter(airports) {
+  const router = express.Router();
+
+  // GET /api/airports/overrides (admin)
+  router.get('/overrides', adminAuth, (req, res) => {
+    try {
+      return res.json(airports.listOverrides());
+    } catch (err) {
+      console.error('Failed to read airport overrides', err.message);
+      return res.status(500).json({ error: 'Failed to read airport overrides' });
+    }
+  });
+
+  // PUT /api/airports/overrides/:code (admin)
+  router.put('/overrides/:code', adminAuth, (req, res) => {
+    try {
+      const code = String(req.params.code || '').trim().toUpperCase();
+      if (!/^[A-Z0-9]{3,4}$/.test(code)) {
+        return res.status(400).json({ error: 'Invalid airport code' });
+      }
+      const body = req.body || {};
+      if (!body.icao && !body.iata) {
+        body[code.length === 4 ? 'icao' : 'iata'] = code;
+      }
+      return res.json(airports.saveOverride({ ...body, code }));
+    } catch (err) {
+      console.error('Failed to save airport override', err.message);
+      return res.status(500).json({ error: 'Failed to save airport override' });
+    }
+  });
+
+  // DELETE /api/airports/overrides/:code (admin)
+  router.delete('/overrides/:code', adminAuth, (req, res) => {
+    try {
+      if (!airports.removeOverride(req.params.code)) return res.status(404).json({ error: 'Not found' });
+      return res.status(204).send();
+    } catch (err) {
+      console.error('Failed to delete airport override', err.message);
+      return res.status(500).json({ error: 'Failed to delete airport override' });
+    }
+  });
+
+  // GET /api/airports/:code
+  router.get('/:code', (req, res) => {
+    const airport = airports.lookup(req.params.code);
+    if (!airport) return res.status(404).json({ error: 'Unknown airport' });
+    return res.json(airport);
+  });
+
+  return router;
+}
+
+module.exports = createAirportsRouter;
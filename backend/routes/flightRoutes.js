@@ -0,0 +1,80 @@
+const express = require('express');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const multer = require('multer');
+const adminAuth = require('../middleware/adminAuth');
+
+const MAX_IMPORT_SIZE = Number(process.env.MAX_ROUTE_IMPORT_SIZE) || 64 * 1024 * 1024;
+const upload = multer({
+  dest: path.join(os.tmpdir(), 'flights-uploads'),
+  limits: { fileSize: MAX_IMPORT_SIZE }
+});
+
+/**
+ * Callsign to route table routes
+ * @param {import('../lib/routeDirectory')} routes - Route directory
+ * @returns {express.Router}
+ */
+function createRoutesRouter(routes) {
+  const router = express.Router();
+
+  // GET /api/routes?search=&limit=&offset= (admin)
+  router.get('/', adminAuth, (req, res) => {
+    try {
+      return res.json(routes.list({
+        search: req.query.search || '',
+        limit: req.query.limit,
+        offset: req.query.offset
+      }));
+    } catch (err) {
+      console.error('Failed to read routes', err.message);
+      return res.status(500).json({ error: 'Failed to read routes' });
+    }
+  });
+
+  // POST /api/routes/import (admin, multipart field "file")
+  router.post('/import', adminAuth, upload.single('file'), (req, res) => {
+    if (!req.file) return res.status(400).json({ error: 'Missing file' });
+    try {
+      return res.json(routes.importCsv(fs.readFileSync(req.file.path, 'utf8')));
+    } catch (err) {
+      console.error('Failed to import routes', err.message);
+      return res.status(400).json({ error: err.message });
+    } finally {
+      fs.unlink(req.file.path, () => {});
+    }
+  });
+
+  // GET /api/routes/:callsign
+  router.get('/:callsign', (req, res) => {
+    const route = routes.lookup(req.params.callsign);
+    if (!route) return res.status(404).json({ error: 'Unknown route' });
+    return res.json(route);
+  });
+
+  // PUT /api/routes/:callsign (admin)
+  router.put('/:callsign', adminAuth, (req, res) => {
+    try {
+      const body = req.body || {};
+      return res.json(routes.save({ origin: body.origin, destination: body.destination, callsign: req.params.callsign }));
+    } catch (err) {
+      return res.status(400).json({ error: err.message });
+    }
+  });
+
+  // DELETE /api/routes/:callsign (admin)
+  router.delete('/:callsign', adminAuth, (req, res) => {
+    try {
+      if (!routes.remove(req.params.callsign)) return res.status(404).json({ error: 'Not found' });
+      return res.status(204).send();
+    } catch (err) {
+      console.error('Failed to delete route', err.message);
+      return res.status(500).json({ error: 'Failed to delete route' });
+    }
+  });
+
+  return router;
+}
+
+module.exports = createRoutesRouter;
@@ -0,0 +1,84 @@
+const express = require('express');
+
+// Name of the first of `from` / `to` that is neither an ISO time nor unix ms
+function invalidTimeParam(query) {
+  return ['from', 'to'].find(key => query[key] && Number.isNaN(Date.parse(query[key])) && !Number.isFinite(Number(query[key])));
+}
+
+/**
+ * Sighting history routes
+ * @param {import('../lib/sightingHistory')} history - Sighting history
+ * @param {Object} [options]
+ * @param {Function} [options.areaBounds] - Returns the monitored area's {north, south, west, east}, or null
+ * @returns {express.Router}
+ */
+function createHistoryRouter(history, { areaBounds = () => null } = {}) {
+  const router = express.Router();
+
+  // GET /api/history?search=&callsign=&registration=&airline=&type=&from=&to=&minAltitude=&maxAltitude=&limit=&offset=
+  router.get('/', (req, res) => {
+    const invalid = invalidTimeParam(req.query);
+    if (invalid) return res.status(400).json({ error: `${invalid} must be an ISO time` });
+    try {
+      return res.json(history.list({
+        search: req.query.search,
+        callsign: req.query.callsign,
+        registration: req.query.registration,
+        airline: req.query.airline,
+        type: req.query.type,
+        from: req.query.from,
+        to: req.query.to,
+        minAltitude: req.query.minAltitude,
+        maxAltitude: req.query.maxAltitude,
+        limit: req.query.limit,
+        offset: req.query.offset
+      }));
+    } catch (err) {
+      console.error('Failed to read history', err.message);
+      return res.status(500).json({ error: 'Failed to read history' });
+    }
+  });
+
+  // GET /api/history/stats?from=&to=
+  router.get('/stats', (req, res) => {
+    const invalid = invalidTimeParam(req.query);
+    if (invalid) return res.status(400).json({ error: `${invalid} must be an ISO time` });
+    try {
+      return res.json(history.stats({ from: req.query.from, to: req.query.to }));
+    } catch (err) {
+      console.error('Failed to compute traffic statistics', err.message);
+      return res.status(500).json({ error: 'Failed to compute traffic statistics' });
+    }
+  });
+
+  // GET /api/history/density?cells=&from=&to=
+  router.get('/density', (req, res) => {
+    const invalid = invalidTimeParam(req.query);
+    if (invalid) return res.status(400).json({ error: `${invalid} must be an ISO time` });
+    const bounds = areaBounds();
+    if (!bounds) return res.status(409).json({ error: 'No monitored area configured' });
+    try {
+      return res.json(history.density({ bounds, cells: req.query.cells, from: req.query.from, to: req.query.to }));
+    } catch (err) {
+      console.error('Failed to compute traffic density', err.message);
+      return res.status(500).json({ error: 'Failed to compute traffic density' });
+    }
+  });
+
+  // GET /api/history/:id
+  router.get('/:id', (req, res) => {
+    if (!/^[1-9]\d*$/.test(req.params.id)) return res.status(400).json({ error: 'id must be a positive integer' });
+    try {
+      const sighting = history.get(req.params.id);
+      if (!sighting) return res.status(404).json({ error: 'Unknown sighting' });
+      return res.json(sighting);
+    } catch (err) {
+      console.error('Failed to read sighting', err.message);
+      return res.status(500).json({ error: 'Failed to read sighting' });
+    }
+  });
+
+  return router;
+}
+
+module.exports = createHistoryRouter;
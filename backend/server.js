@@ -5,6 +5,19 @@ const path = require('path');
 const cookieParser = require('cookie-parser');
 const { createFlightAdapter, validateProviderConfig } = require('./adapters');
 const { normalizeFlightData } = require('./lib/flightNormalizer');
+const FlightPoller = require('./lib/flightPoller');
+const { FlightStream } = require('./lib/flightStream');
+const { FlightRecorder } = require('./lib/flightRecorder');
+const OverflightTracker = require('./lib/overflightTracker');
+const { openDatabase } = require('./lib/database');
+const AirportDirectory = require('./lib/airportDirectory');
+const AirlineDirectory = require('./lib/airlineDirectory');
+const AircraftRegistry = require('./lib/aircraftRegistry');
+const RouteDirectory = require('./lib/routeDirectory');
+const SightingHistory = require('./lib/sightingHistory');
+const { validateArea, validateLocation, resolveAreaQuery, findIncoming, areaBounds, describeArea } = require('./lib/monitoringArea');
+const { CATEGORY_GROUPS, normalizeFilterRules } = require('./lib/displayFilter');
+const { validateHome, resolveObserver } = require('./lib/observer');
 const adminAuth = require('./middleware/adminAuth');
 
 const app = express();
@@ -15,12 +28,53 @@ const CONFIG_PATH = path.join(__dirname, 'config.json');
 let config = null;
 let flightAdapter = null;
 
+// Background poller sharing one flight snapshot between all clients
+const flightPoller = new FlightPoller({ fetchFlights: fetchOverheadFlights });
+// Server-Sent Events clients fed from the poller
+const flightStream = new FlightStream(flightPoller);
+// Optional capture of provider answers for the replay provider
+const flightRecorder = new FlightRecorder();
+// Closest-approach watcher that reports aircraft passing the observer
+const overflightTracker = new OverflightTracker(flightPoller);
+overflightTracker.on('overflight', (event) => flightStream.broadcast('overflight', event));
+
+// Reference data used to fill gaps in provider answers
+const flightDb = openDatabase();
+const airportDirectory = new AirportDirectory({ db: flightDb });
+const airlineDirectory = new AirlineDirectory();
+const aircraftRegistry = new AircraftRegistry({ db: flightDb });
+const routeDirectory = new RouteDirectory({ db: flightDb });
+// Log of every flight seen overhead, kept next to the reference data
+const sightingHistory = new SightingHistory({ db: flightDb });
+// Synthetic or replayed traffic would pollute the history
+const UNRECORDED_SOURCES = ['simulator', 'replay'];
+const isRecordedSource = (data) => !String(data?.source || '').split('+').some(source => UNRECORDED_SOURCES.includes(source));
+flightPoller.on('snapshot', (snapshot) => {
+    if (!isRecordedSource(snapshot.data)) return;
+    try {
+        sightingHistory.record(snapshot.data?.flights || [], snapshot.fetchedAt);
+    } catch (error) {
+        console.warn('Failed to record sightings:', error.message);
+    }
+});
+
 const defaultSlideshowSettings = {
     interval: 10000,
     shuffle: true,
     fitMode: 'cover'
 };
 
+// How the display cycles through several flights overhead
+const ROTATION_ORDERS = ['proximity', 'altitude', 'newest', 'rarity'];
+// Flights that stay on screen for their own time instead of `dwell` (close to home, rarely seen type)
+const DWELL_OVERRIDES = ['close', 'rare'];
+const defaultRotationSettings = {
+    order: 'proximity',
+    dwell: 15000,
+    dwellOverrides: {},
+    preempt: true
+};
+
 // Load configuration on startup
 function loadConfig() {
     try {
@@ -34,22 +88,29 @@ function loadConfig() {
         // Determine provider (config.json takes precedence over env var)
         const provider = config.provider || process.env.FLIGHT_PROVIDER || 'flightradar24';
         
+        const providerSettings = config.providerSettings || {};
+        
         // Validate provider configuration
-        const validation = validateProviderConfig(provider);
+        const validation = validateProviderConfig(provider, providerSettings);
         if (!validation.valid) {
             console.error(`Provider configuration error: ${validation.message}`);
             process.exit(1);
         }
         
         // Create adapter
-        flightAdapter = createFlightAdapter(provider);
+        flightAdapter = createFlightAdapter(provider, providerSettings);
+        flightPoller.configure(config);
+        flightRecorder.configure(config);
+        overflightTracker.configure(config);
+        sightingHistory.configure(config);
         
         // Log configuration details
-        if (config.area) {
-            console.log(`Loaded config: monitoring ${config.area.name} - Rectangle from (${config.area.northwest.latitude}, ${config.area.northwest.longitude}) to (${config.area.southeast.latitude}, ${config.area.southeast.longitude})`);
-        } else if (config.location) {
-            console.log(`Loaded config: monitoring ${config.location.name} at ${config.location.latitude}, ${config.location.longitude}`);
+        const areaProblem = validateArea(config.area) || validateLocation(config.location) || validateHome(config.home);
+        if (areaProblem) {
+            console.error(`Area configuration error: ${areaProblem}`);
+            process.exit(1);
         }
+        console.log(`Loaded config: monitoring ${describeArea(config)}`);
         console.log(`Using flight data provider: ${validation.provider}`);
         console.log(`Provider status: ${validation.message}`);
         
@@ -63,15 +124,37 @@ function persistConfig(nextConfig) {
     fs.writeFileSync(CONFIG_PATH, JSON.stringify(nextConfig, null, 2));
 }
 
+// Config sections that need a new adapter, or a fresh snapshot, when they change
+const ADAPTER_KEYS = ['provider', 'providerSettings'];
+const SNAPSHOT_KEYS = ['location', 'area', 'home', 'pollingInterval', 'powerSaving'];
+
+function configChanged(previous, next, keys) {
+    return keys.some(key => JSON.stringify(previous?.[key]) !== JSON.stringify(next[key]));
+}
+
 function reloadConfig(nextConfig) {
+    const previous = config;
     config = nextConfig;
 
     const provider = config.provider || process.env.FLIGHT_PROVIDER || 'flightradar24';
-    const validation = validateProviderConfig(provider);
+    const providerSettings = config.providerSettings || {};
+    const validation = validateProviderConfig(provider, providerSettings);
     if (!validation.valid) {
         throw new Error(validation.message);
     }
-    flightAdapter = createFlightAdapter(provider);
+    // Rebuilding drops live feed connections and their aircraft tables, so keep the adapter when possible
+    const adapterChanged = !flightAdapter || configChanged(previous, config, ADAPTER_KEYS);
+    if (adapterChanged) {
+        flightAdapter?.close();
+        flightAdapter = createFlightAdapter(provider, providerSettings);
+    }
+    flightPoller.configure(config);
+    if (adapterChanged || configChanged(previous, config, SNAPSHOT_KEYS)) {
+        flightPoller.reset();
+    }
+    flightRecorder.configure(config);
+    overflightTracker.configure(config);
+    sightingHistory.configure(config);
     return validation;
 }
 
@@ -97,55 +180,114 @@ app.use(cookieParser());
 const photosRouter = require('./routes/photos');
 app.use('/api/photos', photosRouter);
 
+// Airport lookup and admin overrides
+const createAirportsRouter = require('./routes/airports');
+app.use('/api/airports', createAirportsRouter(airportDirectory));
+
+// Aircraft registry lookup, CSV import and airframe edits
+const createAircraftRouter = require('./routes/aircraft');
+app.use('/api/aircraft', createAircraftRouter(aircraftRegistry));
+
+// Callsign to route table
+const createRoutesRouter = require('./routes/flightRoutes');
+app.use('/api/routes', createRoutesRouter(routeDirectory));
+
+// Past sightings, their tracks, traffic statistics and density over the area
+const createHistoryRouter = require('./routes/history');
+app.use('/api/history', createHistoryRouter(sightingHistory, { areaBounds: () => (config ? areaBounds(config) : null) }));
+
 // Serve photos statically
 app.use('/photos', express.static(path.join(__dirname, 'photos')));
 
+/**
+ * Fetch flights for the configured area from the current adapter
+ * @returns {Promise<Object>} Normalized flight data
+ */
+async function fetchOverheadFlights() {
+    if (!config || !flightAdapter) {
+        throw new Error('Server configuration not loaded');
+    }
+
+    // Keep the adapter that answered even if a config reload replaces it meanwhile
+    const adapter = flightAdapter;
+    const { method, args, contains } = resolveAreaQuery(config, adapter);
+
+    const data = await adapter[method](...args);
+    flightRecorder.record(method, args, data, adapter.getPayloads());
+    try {
+        routeDirectory.learn(data);
+    } catch (error) {
+        console.warn('Failed to cache routes:', error.message);
+    }
+    // Everything the provider returned, lookahead buffer included, feeds the density map
+    if (isRecordedSource(data)) {
+        try {
+            sightingHistory.recordTraffic(data.flights, Date.now());
+        } catch (error) {
+            console.warn('Failed to record traffic:', error.message);
+        }
+    }
+    console.log(`Fetched ${data.flights.length} flights from provider ${data.source}`);
+    const flights = contains ? data.flights.filter(contains) : data.flights;
+    const options = {
+        airports: airportDirectory,
+        airlines: airlineDirectory,
+        aircraft: aircraftRegistry,
+        routes: routeDirectory,
+        observer: resolveObserver(config),
+        filters: config.filters
+    };
+
+    // Flights in the lookahead buffer that are about to enter the area
+    const now = Date.now();
+    const incoming = findIncoming(data.flights, contains, config).flatMap(({ flight, seconds }) =>
+        normalizeFlightData({ flights: [flight] }, options).flights.map(normalized => ({
+            ...normalized,
+            eta: { seconds, time: new Date(now + seconds * 1000).toISOString() }
+        }))
+    );
+
+    return { ...normalizeFlightData({ ...data, flights }, options), incoming };
+}
+
 // Flight API endpoints using adapters
 app.get('/api/flights/overhead', async (req, res) => {
     try {
         if (!config || !flightAdapter) {
             return res.status(500).json({ error: 'Server configuration not loaded' });
         }
-
-        let data;
-        
-        if (config.area && config.area.type === 'rectangle') {
-            // Use rectangle-based tracking
-            const bounds = flightAdapter.rectangleToBounds(
-                config.area.northwest,
-                config.area.southeast
-            );
-            data = await flightAdapter.getFlightsInBounds(
-                bounds.north,
-                bounds.south,
-                bounds.west,
-                bounds.east
-            );
-        } else if (config.location) {
-            // Use legacy circle-based tracking
-            data = await flightAdapter.getFlightsInArea(
-                config.location.latitude,
-                config.location.longitude,
-                config.location.radius
-            );
-        } else {
+        if (!config.area && !config.location) {
             return res.status(500).json({ error: 'Invalid configuration: missing location or area settings' });
         }
-        console.log(`Fetched ${data.flights.length} flights from provider ${flightAdapter.name}`);
-        res.json(normalizeFlightData(data));
+
+        const snapshot = await flightPoller.getSnapshot();
+        res.json({
+            ...snapshot.data,
+            fetchedAt: new Date(snapshot.fetchedAt).toISOString(),
+            snapshotAge: Date.now() - snapshot.fetchedAt
+        });
     } catch (error) {
         console.error('Error fetching flights:', error.message);
         res.status(500).json({ error: 'Failed to fetch flight data' });
     }
 });
 
+// Push snapshot diffs to the display as soon as the poller has new data
+app.get('/api/flights/stream', (req, res) => {
+    if (!config || !flightAdapter) {
+        return res.status(500).json({ error: 'Server configuration not loaded' });
+    }
+    flightStream.handle(req, res);
+});
+
 app.get('/api/settings', (req, res) => {
     if (!config) {
         return res.status(500).json({ error: 'Server configuration not loaded' });
     }
 
     const slideshow = { ...defaultSlideshowSettings, ...(config.slideshow || {}) };
-    return res.json({ slideshow });
+    const rotation = { ...defaultRotationSettings, ...(config.rotation || {}) };
+    return res.json({ slideshow, rotation });
 });
 
 app.put('/api/settings', adminAuth, (req, res) => {
@@ -163,10 +305,23 @@ app.put('/api/settings', adminAuth, (req, res) => {
             fitMode: slideshow.fitMode === 'contain' ? 'contain' : defaultSlideshowSettings.fitMode
         };
 
+        if (req.body?.rotation) {
+            const rotation = req.body.rotation;
+            next.rotation = {
+                order: ROTATION_ORDERS.includes(rotation.order) ? rotation.order : defaultRotationSettings.order,
+                dwell: Number(rotation.dwell) > 0 ? Number(rotation.dwell) : defaultRotationSettings.dwell,
+                dwellOverrides: Object.fromEntries(DWELL_OVERRIDES
+                    .filter(key => Number(rotation.dwellOverrides?.[key]) > 0)
+                    .map(key => [key, Number(rotation.dwellOverrides[key])])),
+                preempt: rotation.preempt === undefined ? defaultRotationSettings.preempt : Boolean(rotation.preempt)
+            };
+        }
+
         persistConfig(next);
-        reloadConfig(next);
+        // Display settings only; the adapter and snapshot stay as they are
+        config = next;
 
-        return res.json({ slideshow: next.slideshow });
+        return res.json({ slideshow: next.slideshow, rotation: { ...defaultRotationSettings, ...(next.rotation || {}) } });
     } catch (error) {
         console.error('Failed to update settings:', error.message);
         return res.status(500).json({ error: 'Failed to update settings' });
@@ -180,8 +335,10 @@ app.get('/api/config', adminAuth, (req, res) => {
 
     const response = {
         provider: config.provider || 'flightradar24',
+        providerSettings: config.providerSettings || {},
         location: config.location || null,
-        area: config.area || null
+        area: config.area || null,
+        home: config.home || null
     };
 
     return res.json(response);
@@ -195,18 +352,26 @@ app.put('/api/config', adminAuth, (req, res) => {
 
         const next = { ...config };
         const provider = req.body?.provider || next.provider || 'flightradar24';
+        const providerSettings = req.body?.providerSettings || next.providerSettings || {};
         const location = req.body?.location || null;
         const area = req.body?.area || null;
+        const home = req.body?.home === undefined ? next.home || null : req.body.home;
 
         if (!location && !area) {
             return res.status(400).json({ error: 'Location or area is required' });
         }
+        const areaProblem = validateArea(area) || validateLocation(location) || validateHome(home);
+        if (areaProblem) {
+            return res.status(400).json({ error: areaProblem });
+        }
 
         next.provider = provider;
+        next.providerSettings = providerSettings;
         next.location = location;
         next.area = area;
+        next.home = home;
 
-        const validation = validateProviderConfig(provider);
+        const validation = validateProviderConfig(provider, providerSettings);
         if (!validation.valid) {
             return res.status(400).json({ error: validation.message });
         }
@@ -214,13 +379,96 @@ app.put('/api/config', adminAuth, (req, res) => {
         persistConfig(next);
         reloadConfig(next);
 
-        return res.json({ provider: next.provider, location: next.location, area: next.area });
+        return res.json({
+            provider: next.provider,
+            providerSettings: next.providerSettings,
+            location: next.location,
+            area: next.area,
+            home: next.home
+        });
     } catch (error) {
         console.error('Failed to update config:', error.message);
         return res.status(500).json({ error: 'Failed to update config' });
     }
 });
 
+// Recording of provider answers for later replay
+app.get('/api/recording', adminAuth, (req, res) => {
+    return res.json({
+        ...flightRecorder.getStatus(),
+        recordings: flightRecorder.list()
+    });
+});
+
+app.put('/api/recording', adminAuth, (req, res) => {
+    try {
+        if (!config) {
+            return res.status(500).json({ error: 'Server configuration not loaded' });
+        }
+        if (typeof req.body?.enabled !== 'boolean') {
+            return res.status(400).json({ error: 'enabled must be true or false' });
+        }
+
+        const next = { ...config, recording: { ...(config.recording || {}), enabled: req.body.enabled } };
+        persistConfig(next);
+        config = next;
+        flightRecorder.configure(config);
+
+        return res.json(flightRecorder.getStatus());
+    } catch (error) {
+        console.error('Failed to update recording:', error.message);
+        return res.status(500).json({ error: 'Failed to update recording' });
+    }
+});
+
+// Display filter rules, with how many flights each rule hid in the latest snapshot
+app.get('/api/filters', adminAuth, (req, res) => {
+    if (!config) {
+        return res.status(500).json({ error: 'Server configuration not loaded' });
+    }
+    return res.json({
+        filters: normalizeFilterRules(config.filters),
+        categories: Object.keys(CATEGORY_GROUPS),
+        filtered: flightPoller.snapshot?.data?.filtered || {}
+    });
+});
+
+app.put('/api/filters', adminAuth, (req, res) => {
+    try {
+        if (!config) {
+            return res.status(500).json({ error: 'Server configuration not loaded' });
+        }
+
+        const filters = normalizeFilterRules(req.body?.filters || {});
+        if (filters.minAltitude !== null && filters.maxAltitude !== null && filters.minAltitude > filters.maxAltitude) {
+            return res.status(400).json({ error: 'Minimum altitude is above the maximum' });
+        }
+        if (filters.minSpeed !== null && filters.maxSpeed !== null && filters.minSpeed > filters.maxSpeed) {
+            return res.status(400).json({ error: 'Minimum speed is above the maximum' });
+        }
+
+        const next = { ...config, filters };
+        persistConfig(next);
+        config = next;
+        // Filters apply when a snapshot is built, so drop the current one
+        flightPoller.reset();
+
+        return res.json({ filters });
+    } catch (error) {
+        console.error('Failed to update filters:', error.message);
+        return res.status(500).json({ error: 'Failed to update filters' });
+    }
+});
+
+// Aircraft that recently passed the observer, oldest first
+app.get('/api/overflights', (req, res) => {
+    const since = req.query.since ? Date.parse(req.query.since) : 0;
+    if (Number.isNaN(since)) {
+        return res.status(400).json({ error: 'since must be an ISO time' });
+    }
+    return res.json({ events: overflightTracker.list({ since, limit: req.query.limit }) });
+});
+
 app.get('/api/flights/:flightId/details', async (req, res) => {
     try {
         const { flightId } = req.params;
@@ -316,6 +564,7 @@ app.get('/api/health', (req, res) => {
     if (flightAdapter && typeof flightAdapter.getHealthStatus === 'function') {
         health.providerStatus = flightAdapter.getHealthStatus();
     }
+    health.poller = flightPoller.getStatus();
 
     res.json(health);
 });
@@ -338,9 +587,14 @@ if (require.main === module) {
         console.log(`Flight data provider: ${flightAdapter?.name || 'none'}`);
         console.log('Ready to track flights! 🛩️');
     });
+    flightPoller.start();
 
     process.on('SIGINT', () => {
         console.log('\nShutting down server...');
+        flightPoller.stop();
+        flightStream.close();
+        flightRecorder.stop();
+        flightAdapter?.close();
         server.close(() => {
             process.exit(0);
         });
@@ -0,0 +1,88 @@
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const Database = require('better-sqlite3');
+const AircraftRegistry = require('../lib/aircraftRegistry');
+const { normalizeFlightData } = require('../lib/flightNormalizer');
+
+describe('AircraftRegistry', function() {
+  let registry;
+
+  beforeEach(function() {
+    registry = new AircraftRegistry({ db: new Database(':memory:') });
+  });
+
+  it('imports airframes from a CSV with aliased, quoted columns', function() {
+    const csv = [
+      "'icao24','registration','manufacturername','typecode','operator','built'",
+      "'7C6B2D','VH-VXA','Boeing','B738','Qantas','2002-05-13'",
+      "'7c7a3e','VH-YIA','Boeing','B738','Virgin Australia',''",
+      "'not-hex','X','','','',''"
+    ].join('\n');
+
+    assert.deepStrictEqual(registry.importCsv(csv), { imported: 2, skipped: 1 });
+
+    const airframe = registry.lookup('7C6B2D');
+    assert.strictEqual(airframe.registration, 'VH-VXA');
+    assert.strictEqual(airframe.typeCode, 'B738');
+    assert.strictEqual(airframe.operator, 'Qantas');
+    assert.strictEqual(airframe.built, 2002);
+    assert.strictEqual(registry.lookup('7c7a3e').built, null);
+    assert.strictEqual(registry.lookup('abcdef'), null);
+
+    assert.throws(() => registry.importCsv('registration\nVH-ABC'), /icao24/);
+  });
+
+  it('streams a CSV file in batches', async function() {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'flights-aircraft-'));
+    try {
+      const file = path.join(directory, 'aircraft.csv');
+      const rows = Array.from({ length: 1500 }, (_, index) => `${(0x7c0000 + index).toString(16)},VH-${index},B738,Qantas,2002`);
+      fs.writeFileSync(file, [
+        '\uFEFFicao24,registration,typecode,operator,built',
+        ...rows,
+        '7c7a3e,VH-YIA,B738,"Virgin\r\nAustralia",2010',
+        'not-hex,X,,,'
+      ].join('\r\n'));
+
+      assert.deepStrictEqual(await registry.importCsvFile(file), { imported: 1501, skipped: 1 });
+      assert.strictEqual(registry.lookup('7c05db').registration, 'VH-1499');
+      assert.strictEqual(registry.lookup('7c7a3e').operator, 'Virgin\nAustralia');
+
+      fs.writeFileSync(file, 'registration\nVH-ABC\n');
+      await assert.rejects(registry.importCsvFile(file), /icao24/);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('edits, searches and removes single airframes', function() {
+    registry.save({ icao24: '7C1234', registration: 'vh-abc', typeCode: 'dh8d', operator: 'QantasLink', built: 2010 });
+    registry.save({ icao24: '7c5678', registration: 'VH-XYZ', typeCode: 'A320' });
+
+    assert.strictEqual(registry.list().total, 2);
+    const { aircraft } = registry.list({ search: 'qantas' });
+    assert.deepStrictEqual(aircraft.map(entry => entry.icao24), ['7c1234']);
+    assert.strictEqual(aircraft[0].registration, 'VH-ABC');
+
+    assert.throws(() => registry.save({ icao24: 'xyz' }), /ICAO24/);
+    assert.strictEqual(registry.remove('7C1234'), true);
+    assert.strictEqual(registry.remove('7c1234'), false);
+  });
+
+  it('fills missing registration and type during normalization', function() {
+    registry.save({ icao24: '7c6b2d', registration: 'VH-VXA', typeCode: 'B738', operator: 'Qantas', built: 2002 });
+    const data = {
+      flights: [
+        { icao24: '7c6b2d', callsign: 'QFA512', latitude: -27.4, longitude: 153.1 },
+        { icao24: '7c6b2d', callsign: 'QFA512', aircraft: 'B38M', registration: 'VH-8IA', latitude: -27.4, longitude: 153.1 }
+      ]
+    };
+
+    const [filled, reported] = normalizeFlightData(data, { aircraft: registry }).flights;
+    assert.deepStrictEqual(filled.aircraft, { type: 'B738', icao: 'B738', registration: 'VH-VXA', category: '', operator: 'Qantas', built: 2002 });
+    assert.strictEqual(reported.aircraft.type, 'B38M');
+    assert.strictEqual(reported.aircraft.registration, 'VH-8IA');
+  });
+});
@@ -0,0 +1,63 @@
+const assert = require('assert');
+const AirlineDirectory = require('../lib/airlineDirectory');
+const { normalizeFlightData } = require('../lib/flightNormalizer');
+
+describe('AirlineDirectory', function() {
+  let airlines;
+
+  before(function() {
+    airlines = new AirlineDirectory();
+  });
+
+  it('resolves ICAO designators and IATA codes to the same airline', function() {
+    const byIcao = airlines.lookup('qfa');
+    const byIata = airlines.lookup('QF');
+
+    assert.deepStrictEqual(byIcao, byIata);
+    assert.strictEqual(byIcao.name, 'Qantas');
+    assert.strictEqual(byIcao.callsign, 'QANTAS');
+    assert.strictEqual(airlines.lookup('XQX'), null);
+    assert.strictEqual(airlines.lookup(''), null);
+  });
+
+  it('converts ICAO callsigns to marketed flight numbers', function() {
+    const parsed = airlines.parseCallsign('BAW0289');
+    assert.strictEqual(parsed.flightNumber, 'BA289');
+    assert.strictEqual(parsed.airline.callsign, 'SPEEDBIRD');
+
+    assert.strictEqual(airlines.parseCallsign('QF 12').flightNumber, 'QF12');
+    assert.strictEqual(airlines.parseCallsign('VHXYZ'), null);
+    assert.strictEqual(airlines.parseCallsign('XQX123'), null);
+  });
+
+  it('fills in airline and flight number for receiver-only flights', function() {
+    const [flight] = normalizeFlightData({ flights: [{
+      icao24: '400abc',
+      callsign: 'BAW15',
+      flightNumber: 'BAW15',
+      airline: 'BAW',
+      latitude: -27.4,
+      longitude: 153.1,
+      altitude: 10000,
+      velocity: 230,
+      heading: 90
+    }] }, { airlines }).flights;
+
+    assert.strictEqual(flight.callsign, 'BAW15');
+    assert.strictEqual(flight.flightNumber, 'BA15');
+    assert.deepStrictEqual(flight.airline, { name: 'British Airways', iata: 'BA', icao: 'BAW', callsign: 'SPEEDBIRD' });
+  });
+
+  it('keeps flight numbers reported by the provider', function() {
+    const [flight] = normalizeFlightData({ flights: [{
+      callsign: 'QFA7',
+      flightNumber: 'QF7',
+      airline: 'QF',
+      latitude: -33.9,
+      longitude: 151.2
+    }] }, { airlines }).flights;
+
+    assert.strictEqual(flight.flightNumber, 'QF7');
+    assert.strictEqual(flight.airline.icao, 'QFA');
+  });
+});
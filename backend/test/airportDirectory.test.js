@@ -0,0 +1,67 @@
+const assert = require('assert');
+const Database = require('better-sqlite3');
+const AirportDirectory = require('../lib/airportDirectory');
+const { normalizeFlightData } = require('../lib/flightNormalizer');
+const { parseCsv } = require('../lib/csv');
+
+describe('AirportDirectory', function() {
+  let airports;
+
+  beforeEach(function() {
+    airports = new AirportDirectory({ db: new Database(':memory:') });
+  });
+
+  it('resolves IATA and ICAO codes from the bundled dataset', function() {
+    const byIata = airports.lookup('bne');
+    const byIcao = airports.lookup('YBBN');
+
+    assert.deepStrictEqual(byIata, byIcao);
+    assert.strictEqual(byIata.iata, 'BNE');
+    assert.strictEqual(byIata.icao, 'YBBN');
+    assert.strictEqual(byIata.city, 'Brisbane');
+    assert.strictEqual(byIata.country, 'Australia');
+    assert.strictEqual(byIata.timezone, 'Australia/Brisbane');
+    assert.ok(Math.abs(byIata.latitude - -27.384) < 0.01);
+    assert.strictEqual(airports.lookup('ZZZZ'), null);
+  });
+
+  it('lets overrides fill in private airfields and correct known ones', function() {
+    airports.saveOverride({ icao: 'YXPV', name: 'Private Valley Strip', city: 'Samford', country: 'Australia', latitude: -27.37, longitude: 152.88, timezone: 'Australia/Brisbane' });
+    airports.saveOverride({ iata: 'BNE', city: 'Brisbane City' });
+
+    assert.strictEqual(airports.lookup('YXPV').name, 'Private Valley Strip');
+    const brisbane = airports.lookup('YBBN');
+    assert.strictEqual(brisbane.city, 'Brisbane City');
+    assert.strictEqual(brisbane.name, 'Brisbane International Airport');
+
+    assert.strictEqual(airports.listOverrides().length, 2);
+    assert.strictEqual(airports.removeOverride('bne'), true);
+    assert.strictEqual(airports.lookup('BNE').city, 'Brisbane');
+  });
+
+  it('fills departure and arrival during normalization', function() {
+    const data = {
+      flights: [{ id: 'a', callsign: 'QFA512', origin: 'SYD', destination: 'YBBN', latitude: -27.4, longitude: 153.1 }]
+    };
+
+    const [flight] = normalizeFlightData(data, { airports }).flights;
+    assert.strictEqual(flight.departure.iata, 'SYD');
+    assert.strictEqual(flight.departure.city, 'Sydney');
+    assert.strictEqual(flight.departure.timezone, 'Australia/Sydney');
+    assert.strictEqual(flight.arrival.iata, 'BNE');
+    assert.strictEqual(flight.arrival.icao, 'YBBN');
+
+    const [bare] = normalizeFlightData(data).flights;
+    assert.strictEqual(bare.arrival.iata, 'YBBN');
+    assert.strictEqual(bare.arrival.city, '');
+  });
+});
+
+describe('parseCsv', function() {
+  it('handles quoted fields, escaped quotes and CRLF line endings', function() {
+    assert.deepStrictEqual(
+      parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\r\n'),
+      [['a', 'b, c', 'say "hi"'], ['1', '2', '3']]
+    );
+  });
+});
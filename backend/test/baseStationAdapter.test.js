@@ -0,0 +1,113 @@
+const assert = require('assert');
+const fs = require('fs');
+const net = require('net');
+const path = require('path');
+const BaseStationAdapter = require('../adapters/BaseStationAdapter');
+
+const FIXTURE = fs.readFileSync(path.join(__dirname, 'fixtures', 'basestation.txt'), 'utf8');
+const BOUNDS = { north: -27.332044, south: -27.452044, west: 153.03406, east: 153.19406 };
+
+// Replays the fixture to every client that connects
+function startReplayServer() {
+  const sockets = new Set();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.write(FIXTURE);
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve({
+      port: server.address().port,
+      dropClients: () => sockets.forEach((socket) => socket.destroy()),
+      close: () => new Promise((done) => {
+        sockets.forEach((socket) => socket.destroy());
+        server.close(done);
+      })
+    }));
+  });
+}
+
+async function waitFor(predicate, timeoutMs = 2000) {
+  const started = Date.now();
+  while (!predicate()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('BaseStationAdapter (TCP replay)', function() {
+  let replay;
+  let adapter;
+
+  beforeEach(async function() {
+    replay = await startReplayServer();
+    adapter = new BaseStationAdapter({ host: '127.0.0.1', port: replay.port, reconnectDelay: 20 });
+  });
+
+  afterEach(async function() {
+    adapter.close();
+    await replay.close();
+  });
+
+  it('merges MSG lines per ICAO hex into the aircraft table', async function() {
+    await adapter.getFlightsInBounds(BOUNDS.north, BOUNDS.south, BOUNDS.west, BOUNDS.east);
+    await waitFor(() => adapter.messagesParsed >= 9);
+
+    const data = await adapter.getFlightsInBounds(BOUNDS.north, BOUNDS.south, BOUNDS.west, BOUNDS.east);
+    assert.strictEqual(data.source, 'basestation');
+    assert.deepStrictEqual(data.flights.map(f => f.icao24), ['7c6ddf']);
+
+    const qantas = data.flights[0];
+    assert.strictEqual(qantas.callsign, 'QFA512');
+    assert.strictEqual(qantas.airline, 'QFA');
+    assert.strictEqual(qantas.squawk, '3115');
+    assert.strictEqual(qantas.heading, 14);
+    assert.ok(Math.abs(qantas.altitude - 4475 * 0.3048) < 0.01);
+    assert.ok(Math.abs(qantas.velocity - 212 * 0.514444) < 0.01);
+    assert.ok(Math.abs(qantas.verticalRate - -960 * 0.00508) < 0.01);
+
+    const grounded = await adapter.getFlightDetails('7c4921');
+    assert.strictEqual(grounded.onGround, true);
+    assert.strictEqual(grounded.callsign, 'VOZ917');
+  });
+
+  it('ages out aircraft that stop transmitting', async function() {
+    await adapter.getFlightsInBounds(BOUNDS.north, BOUNDS.south, BOUNDS.west, BOUNDS.east);
+    await waitFor(() => adapter.messagesParsed >= 9);
+    assert.strictEqual(adapter.aircraft.size, 4);
+
+    adapter.pruneAircraft(Date.now() + (adapter.maxAge + 1) * 1000);
+    assert.strictEqual(adapter.aircraft.size, 0);
+  });
+
+  it('clears positions that have not been refreshed', function() {
+    const now = Date.now();
+    adapter.handleLine('MSG,3,1,1,7C6DDF,1,2025/01/01,00:00:00.000,2025/01/01,00:00:00.000,,4500,,,-27.40,153.10,,,0,0,0,0', now);
+    adapter.handleLine('MSG,4,1,1,7C6DDF,1,2025/01/01,00:00:00.000,2025/01/01,00:00:00.000,,,210,14,,,-960,,,,,0', now + 50000);
+
+    adapter.pruneAircraft(now + 50000);
+    assert.strictEqual(adapter.aircraft.get('7c6ddf').latitude, -27.40);
+
+    adapter.pruneAircraft(now + (adapter.maxPositionAge + 1) * 1000);
+    const state = adapter.aircraft.get('7c6ddf');
+    assert.strictEqual(state.latitude, null);
+    assert.strictEqual(state.groundSpeed, 210);
+    assert.strictEqual(adapter.parsePayload([state]).flights.length, 0);
+  });
+
+  it('reconnects and reports feed health', async function() {
+    await adapter.getFlightsInBounds(BOUNDS.north, BOUNDS.south, BOUNDS.west, BOUNDS.east);
+    await waitFor(() => adapter.connected && adapter.messagesParsed >= 9);
+
+    replay.dropClients();
+    await waitFor(() => adapter.reconnects >= 1 && adapter.connected && adapter.messagesParsed >= 18);
+
+    const health = adapter.getHealthStatus();
+    assert.strictEqual(health.connected, true);
+    assert.strictEqual(health.port, replay.port);
+    assert.strictEqual(health.malformedLines, 2);
+    assert.strictEqual(health.aircraftCount, 4);
+    assert.ok(health.lastMessageAt);
+  });
+});
@@ -0,0 +1,85 @@
+const assert = require('assert');
+const { normalizeFilterRules, applyDisplayFilters } = require('../lib/displayFilter');
+const { normalizeFlightData } = require('../lib/flightNormalizer');
+
+const flight = (id, { altitude = 10000, speed = 250, category = '', type = 'B738', registration = '', airline = {} } = {}) => ({
+  id,
+  airline: { iata: '', icao: '', ...airline },
+  aircraft: { icao: type, type, registration, category },
+  position: { altitude, speed }
+});
+
+describe('displayFilter', function() {
+  it('cleans up rules from config or the Admin form', function() {
+    const rules = normalizeFilterRules({
+      minAltitude: '1500',
+      maxSpeed: '',
+      excludeCategories: ['Rotorcraft', 'spaceship'],
+      includeAirlines: 'qf, vA qf',
+      hiddenRegistrations: [' vh-abc ']
+    });
+
+    assert.strictEqual(rules.minAltitude, 1500);
+    assert.strictEqual(rules.maxSpeed, null);
+    assert.deepStrictEqual(rules.excludeCategories, ['rotorcraft']);
+    assert.deepStrictEqual(rules.includeAirlines, ['QF', 'VA']);
+    assert.deepStrictEqual(rules.hiddenRegistrations, ['VH-ABC']);
+    assert.deepStrictEqual(rules.excludeTypes, []);
+  });
+
+  it('counts each hidden flight against the first rule that hides it', function() {
+    const flights = [
+      flight('low', { altitude: 800 }),
+      flight('heli', { category: 'A7', type: 'EC35' }),
+      flight('heli-by-type', { type: 'R44' }),
+      flight('private', { registration: 'VHABC', altitude: 500 }),
+      flight('fast', { speed: 520 }),
+      flight('kept')
+    ];
+
+    const { flights: kept, filtered } = applyDisplayFilters(flights, {
+      hiddenRegistrations: ['VH-ABC'],
+      minAltitude: 1000,
+      maxSpeed: 500,
+      excludeCategories: ['rotorcraft']
+    });
+
+    assert.deepStrictEqual(kept.map(entry => entry.id), ['kept']);
+    assert.deepStrictEqual(filtered, {
+      hiddenRegistrations: 1,
+      minAltitude: 1,
+      maxSpeed: 1,
+      excludeCategories: 2
+    });
+  });
+
+  it('matches airlines on either designator and types on the ICAO code', function() {
+    const flights = [
+      flight('qantas', { airline: { iata: 'QF', icao: 'QFA' } }),
+      flight('virgin', { airline: { iata: 'VA', icao: 'VOZ' }, type: 'B38M' }),
+      flight('jetstar', { airline: { iata: 'JQ', icao: 'JST' }, type: 'A320' })
+    ];
+
+    const included = applyDisplayFilters(flights, { includeAirlines: ['QFA', 'VA'], excludeTypes: ['B38M'] });
+    assert.deepStrictEqual(included.flights.map(entry => entry.id), ['qantas']);
+    assert.deepStrictEqual(included.filtered, { includeAirlines: 1, excludeTypes: 1 });
+
+    const unfiltered = applyDisplayFilters(flights, {});
+    assert.strictEqual(unfiltered.flights, flights);
+    assert.deepStrictEqual(unfiltered.filtered, {});
+  });
+
+  it('filters during normalization and reports the counts', function() {
+    const data = {
+      flights: [
+        { icao24: '7c6b2d', callsign: 'QFA512', latitude: -27.4, longitude: 153.1, altitude: 3000, velocity: 120 },
+        { icao24: '7c1234', callsign: 'RSCU01', latitude: -27.4, longitude: 153.1, altitude: 150, velocity: 40, category: 'A7' }
+      ]
+    };
+
+    const result = normalizeFlightData(data, { filters: { excludeCategories: ['rotorcraft'] } });
+    assert.deepStrictEqual(result.flights.map(entry => entry.callsign), ['QFA512']);
+    assert.deepStrictEqual(result.filtered, { excludeCategories: 1 });
+    assert.strictEqual(normalizeFlightData(data).filtered, undefined);
+  });
+});
@@ -0,0 +1,146 @@
+const assert = require('assert');
+const FlightAdapter = require('../adapters/FlightAdapter');
+const FailoverAdapter = require('../adapters/FailoverAdapter');
+const { createFlightAdapter, validateProviderConfig } = require('../adapters');
+
+// Adapter that answers from a queue of scripted responses
+class ScriptedAdapter extends FlightAdapter {
+  constructor(name, responses) {
+    super();
+    this.name = name;
+    this.responses = responses;
+    this.calls = 0;
+  }
+
+  async getFlightsInBounds() {
+    const next = this.responses[Math.min(this.calls, this.responses.length - 1)];
+    this.calls += 1;
+    if (next instanceof Error) throw next;
+    if (next === 'hang') return new Promise(() => {});
+    return {
+      flights: Array.from({ length: next }, (_, i) => ({ id: `${this.name}_${i}` })),
+      source: this.name,
+      timestamp: Date.now()
+    };
+  }
+}
+
+const query = (adapter) => adapter.getFlightsInBounds(1, 0, 0, 1);
+
+describe('FailoverAdapter', function() {
+  it('uses the first provider while it is healthy', async function() {
+    const primary = new ScriptedAdapter('readsb', [3]);
+    const secondary = new ScriptedAdapter('flightradar24', [5]);
+    const chain = new FailoverAdapter([primary, secondary]);
+
+    const data = await query(chain);
+    assert.strictEqual(data.source, 'readsb');
+    assert.strictEqual(secondary.calls, 0);
+  });
+
+  it('falls through on errors and cools the failed provider down', async function() {
+    const primary = new ScriptedAdapter('flightradar24', [new Error('HTTP 429'), 2]);
+    const secondary = new ScriptedAdapter('opensky', [4]);
+    const chain = new FailoverAdapter([primary, secondary], { cooldownMs: 60000 });
+
+    assert.strictEqual((await query(chain)).source, 'opensky');
+    assert.strictEqual((await query(chain)).source, 'opensky');
+    assert.strictEqual(primary.calls, 1, 'cooling-down provider should be skipped');
+
+    const health = chain.getHealthStatus();
+    assert.strictEqual(health.activeProvider, 'opensky');
+    assert.strictEqual(health.providers[0].coolingDown, true);
+    assert.strictEqual(health.providers[0].lastError, 'HTTP 429');
+  });
+
+  it('retries a provider once its cool-down has passed', async function() {
+    const primary = new ScriptedAdapter('flightradar24', [new Error('HTTP 429'), 2]);
+    const secondary = new ScriptedAdapter('opensky', [4]);
+    const chain = new FailoverAdapter([primary, secondary], { cooldownMs: 60000 });
+
+    await query(chain);
+    chain.entries[0].cooldownUntil = Date.now() - 1;
+
+    assert.strictEqual((await query(chain)).source, 'flightradar24');
+  });
+
+  it('treats a provider that times out as failed', async function() {
+    const primary = new ScriptedAdapter('readsb', ['hang']);
+    const secondary = new ScriptedAdapter('flightradar24', [1]);
+    const chain = new FailoverAdapter([primary, secondary], { timeoutMs: 20 });
+
+    assert.strictEqual((await query(chain)).source, 'flightradar24');
+    assert.match(chain.entries[0].lastError, /timed out/);
+  });
+
+  it('falls through when a busy provider suddenly reports an empty sky', async function() {
+    const primary = new ScriptedAdapter('flightradar24', [6, 0]);
+    const secondary = new ScriptedAdapter('opensky', [5]);
+    const chain = new FailoverAdapter([primary, secondary]);
+
+    assert.strictEqual((await query(chain)).source, 'flightradar24');
+    assert.strictEqual((await query(chain)).source, 'opensky');
+    assert.strictEqual(chain.getHealthStatus().providers[0].coolingDown, true);
+  });
+
+  it('accepts an empty sky when every provider agrees', async function() {
+    const primary = new ScriptedAdapter('flightradar24', [2, 0]);
+    const secondary = new ScriptedAdapter('opensky', [0]);
+    const chain = new FailoverAdapter([primary, secondary]);
+
+    await query(chain);
+    const data = await query(chain);
+    assert.strictEqual(data.source, 'flightradar24');
+    assert.strictEqual(data.flights.length, 0);
+    assert.strictEqual(chain.getHealthStatus().providers[0].coolingDown, false);
+
+    // Once the sky is known to be empty, later empty answers are trusted directly
+    await query(chain);
+    assert.strictEqual(secondary.calls, 1);
+  });
+
+  it('reports every error when the whole chain fails', async function() {
+    const chain = new FailoverAdapter([
+      new ScriptedAdapter('readsb', [new Error('ENOENT')]),
+      new ScriptedAdapter('flightradar24', [new Error('HTTP 503')])
+    ]);
+
+    await assert.rejects(query(chain), /readsb: ENOENT; flightradar24: HTTP 503/);
+  });
+
+  it('falls through airport boards past providers that fail or do not support them', async function() {
+    const failing = new ScriptedAdapter('opensky', [1]);
+    failing.getAirportArrivals = async () => { throw new Error('HTTP 503'); };
+    const unsupported = new ScriptedAdapter('readsb', [1]);
+    const board = new ScriptedAdapter('flightradar24', [1]);
+    board.getAirportArrivals = async (airportCode) => ({ airport: airportCode, arrivals: [] });
+    const chain = new FailoverAdapter([failing, unsupported, board], { cooldownMs: 60000 });
+
+    assert.deepStrictEqual(await chain.getAirportArrivals('YBBN', 0, 1), { airport: 'YBBN', arrivals: [] });
+    assert.strictEqual(chain.getHealthStatus().providers[0].coolingDown, true);
+    assert.strictEqual(await chain.getAirportDepartures('YBBN', 0, 1), null);
+
+    await assert.rejects(new FailoverAdapter([failing, unsupported]).getAirportArrivals('YBBN', 0, 1), /opensky: HTTP 503/);
+  });
+});
+
+describe('provider chains in the adapter factory', function() {
+  it('builds a failover adapter from a list and a plain adapter from one entry', function() {
+    const chain = createFlightAdapter(['basestation', 'flightradar24']);
+    assert.ok(chain instanceof FailoverAdapter);
+    assert.deepStrictEqual(chain.entries.map(entry => entry.adapter.name), ['basestation', 'flightradar24']);
+    chain.close();
+
+    assert.strictEqual(createFlightAdapter(['fr24']).name, 'flightradar24');
+  });
+
+  it('validates every entry in a chain', function() {
+    const valid = validateProviderConfig(['sbs', 'fr24']);
+    assert.strictEqual(valid.valid, true);
+    assert.deepStrictEqual(valid.provider, ['basestation', 'flightradar24']);
+
+    assert.strictEqual(validateProviderConfig([]).valid, false);
+    assert.strictEqual(validateProviderConfig(['flightradar24', 'nope']).valid, false);
+    assert.strictEqual(validateProviderConfig(['fr24', 'flightradar24']).valid, false);
+  });
+});
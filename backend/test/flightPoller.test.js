@@ -0,0 +1,133 @@
+const assert = require('assert');
+const FlightPoller = require('../lib/flightPoller');
+
+// Upstream stub whose answers resolve when the test says so
+function deferredUpstream() {
+  const pending = [];
+  const fetchFlights = () => new Promise((resolve, reject) => pending.push({ resolve, reject }));
+  return { pending, fetchFlights };
+}
+
+const flights = (count) => ({ flights: Array.from({ length: count }, (_, i) => ({ id: String(i) })), source: 'stub' });
+
+describe('FlightPoller', function() {
+  it('shares one upstream request between concurrent cache misses', async function() {
+    const upstream = deferredUpstream();
+    const poller = new FlightPoller({ fetchFlights: upstream.fetchFlights });
+
+    const requests = [poller.getSnapshot(), poller.getSnapshot(), poller.getSnapshot()];
+    await new Promise(resolve => setImmediate(resolve));
+    assert.strictEqual(upstream.pending.length, 1);
+
+    upstream.pending[0].resolve(flights(2));
+    const snapshots = await Promise.all(requests);
+    assert.ok(snapshots.every(snapshot => snapshot === snapshots[0]));
+    assert.strictEqual(snapshots[0].data.flights.length, 2);
+    assert.strictEqual(poller.upstreamRequests, 1);
+  });
+
+  it('serves a fresh snapshot from memory', async function() {
+    let calls = 0;
+    const poller = new FlightPoller({ fetchFlights: async () => { calls += 1; return flights(1); } });
+
+    await poller.getSnapshot();
+    await poller.getSnapshot();
+    assert.strictEqual(calls, 1);
+  });
+
+  it('keeps serving the last snapshot when upstream fails', async function() {
+    let fail = false;
+    const poller = new FlightPoller({
+      fetchFlights: async () => {
+        if (fail) throw new Error('HTTP 429');
+        return flights(3);
+      }
+    });
+
+    await poller.getSnapshot();
+    poller.snapshot.fetchedAt -= 60000;
+    fail = true;
+
+    const snapshot = await poller.getSnapshot();
+    assert.strictEqual(snapshot.data.flights.length, 3);
+    assert.strictEqual(poller.getStatus().lastError, 'HTTP 429');
+  });
+
+  it('fails when there is no snapshot to fall back on', async function() {
+    const poller = new FlightPoller({ fetchFlights: async () => { throw new Error('HTTP 503'); } });
+    await assert.rejects(poller.getSnapshot(), /HTTP 503/);
+  });
+
+  it('slows down after the configured run of empty polls', async function() {
+    const poller = new FlightPoller({ fetchFlights: async () => flights(0) });
+    poller.configure({
+      pollingInterval: 15000,
+      powerSaving: { reducedPollingWhenEmpty: true, emptyPollingInterval: 60000, maxConsecutiveEmptyPolls: 2 }
+    });
+
+    await poller.refresh();
+    assert.strictEqual(poller.getCurrentInterval(), 15000);
+    await poller.refresh();
+    assert.strictEqual(poller.getCurrentInterval(), 60000);
+
+    poller.fetchFlights = async () => flights(1);
+    await poller.refresh();
+    assert.strictEqual(poller.getCurrentInterval(), 15000);
+  });
+
+  it('ignores empty polls when power saving is off', async function() {
+    const poller = new FlightPoller({ fetchFlights: async () => flights(0) });
+    poller.configure({ powerSaving: { reducedPollingWhenEmpty: false, maxConsecutiveEmptyPolls: 0 } });
+
+    await poller.refresh();
+    assert.strictEqual(poller.getCurrentInterval(), 15000);
+  });
+
+  it('discards answers for the previous config after a reset', async function() {
+    const upstream = deferredUpstream();
+    const poller = new FlightPoller({ fetchFlights: upstream.fetchFlights });
+
+    const stale = poller.refresh();
+    await new Promise(resolve => setImmediate(resolve));
+    poller.reset();
+    const fresh = poller.getSnapshot();
+    await new Promise(resolve => setImmediate(resolve));
+
+    upstream.pending[0].resolve(flights(5));
+    upstream.pending[1].resolve(flights(1));
+    await stale;
+
+    assert.strictEqual((await fresh).data.flights.length, 1);
+    assert.strictEqual(poller.snapshot.data.flights.length, 1);
+  });
+
+  it('answers a request pending across a reset with the new config', async function() {
+    const upstream = deferredUpstream();
+    const poller = new FlightPoller({ fetchFlights: upstream.fetchFlights });
+
+    const waiting = poller.getSnapshot();
+    const sharing = poller.getSnapshot();
+    await new Promise(resolve => setImmediate(resolve));
+    poller.reset();
+
+    upstream.pending[0].resolve(flights(5));
+    await new Promise(resolve => setImmediate(resolve));
+    assert.strictEqual(upstream.pending.length, 2);
+    upstream.pending[1].resolve(flights(2));
+
+    const snapshot = await waiting;
+    assert.strictEqual(snapshot.data.flights.length, 2);
+    assert.strictEqual(await sharing, snapshot);
+
+    // A failed answer for the old config is retried as well
+    poller.snapshot = null;
+    const retried = poller.refresh();
+    await new Promise(resolve => setImmediate(resolve));
+    poller.reset();
+    upstream.pending[2].reject(new Error('HTTP 503'));
+    await new Promise(resolve => setImmediate(resolve));
+    upstream.pending[3].resolve(flights(1));
+    assert.strictEqual((await retried).data.flights.length, 1);
+    assert.strictEqual(poller.getStatus().lastError, null);
+  });
+});
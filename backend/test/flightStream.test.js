@@ -0,0 +1,90 @@
+const assert = require('assert');
+const EventEmitter = require('events');
+const { FlightStream, diffFlights } = require('../lib/flightStream');
+
+// Minimal stand-ins for the Express request/response pair
+function fakeClient() {
+  const req = new EventEmitter();
+  const res = {
+    chunks: [],
+    headers: {},
+    set(headers) { Object.assign(this.headers, headers); },
+    flushHeaders() {},
+    write(chunk) { this.chunks.push(chunk); },
+    end() { this.ended = true; },
+    events() {
+      return this.chunks
+        .filter(chunk => chunk.startsWith('event: '))
+        .map(chunk => {
+          const [eventLine, dataLine] = chunk.split('\n');
+          return { event: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) };
+        });
+    }
+  };
+  return { req, res };
+}
+
+const snapshot = (flights) => ({ data: { flights, source: 'stub', timestamp: 1 }, fetchedAt: 1760000000000 });
+
+describe('flight stream', function() {
+  it('diffs flight lists by id', function() {
+    const diff = diffFlights(
+      [{ id: 'a', position: { altitude: 1000 } }, { id: 'b' }, { id: 'c' }],
+      [{ id: 'a', position: { altitude: 1200 } }, { id: 'c' }, { id: 'd' }]
+    );
+
+    assert.deepStrictEqual(diff.added.map(f => f.id), ['d']);
+    assert.deepStrictEqual(diff.updated.map(f => f.id), ['a']);
+    assert.deepStrictEqual(diff.removed, ['b']);
+  });
+
+  it('sends the current snapshot on connect, then diffs', async function() {
+    const poller = new EventEmitter();
+    const first = snapshot([{ id: 'a' }, { id: 'b' }]);
+    poller.getSnapshot = async () => first;
+    const stream = new FlightStream(poller);
+    const { req, res } = fakeClient();
+
+    await stream.handle(req, res);
+    assert.strictEqual(res.headers['Content-Type'], 'text/event-stream');
+
+    const second = snapshot([{ id: 'b' }, { id: 'c' }]);
+    poller.emit('snapshot', second, first);
+
+    const events = res.events();
+    assert.deepStrictEqual(events.map(e => e.event), ['snapshot', 'diff']);
+    assert.deepStrictEqual(events[0].data.flights.map(f => f.id), ['a', 'b']);
+    assert.deepStrictEqual(events[1].data.added.map(f => f.id), ['c']);
+    assert.deepStrictEqual(events[1].data.removed, ['a']);
+    assert.strictEqual(events[1].data.flights, undefined);
+    stream.close();
+  });
+
+  it('resends the full snapshot after the poller is reset', async function() {
+    const poller = new EventEmitter();
+    poller.getSnapshot = async () => snapshot([{ id: 'a' }]);
+    const stream = new FlightStream(poller);
+    const { req, res } = fakeClient();
+
+    await stream.handle(req, res);
+    poller.emit('snapshot', snapshot([{ id: 'z' }]), null);
+
+    assert.deepStrictEqual(res.events().map(e => e.event), ['snapshot', 'snapshot']);
+    stream.close();
+  });
+
+  it('forgets clients that disconnect', async function() {
+    const poller = new EventEmitter();
+    poller.getSnapshot = async () => snapshot([]);
+    const stream = new FlightStream(poller);
+    const { req, res } = fakeClient();
+
+    await stream.handle(req, res);
+    req.emit('close');
+    poller.emit('snapshot', snapshot([{ id: 'a' }]), snapshot([]));
+
+    assert.strictEqual(stream.clients.size, 0);
+    assert.strictEqual(res.events().length, 1);
+    assert.strictEqual(stream.heartbeat, null);
+  });
+});
@@ -0,0 +1,124 @@
+const assert = require('assert');
+const FlightAdapter = require('../adapters/FlightAdapter');
+const FusionAdapter = require('../adapters/FusionAdapter');
+const { createFlightAdapter, validateProviderConfig } = require('../adapters');
+const { normalizeFlightData } = require('../lib/flightNormalizer');
+
+// Adapter that always answers with the same flights (or error)
+class FixedAdapter extends FlightAdapter {
+  constructor(name, flights) {
+    super();
+    this.name = name;
+    this.flights = flights;
+  }
+
+  async getFlightsInBounds() {
+    if (this.flights instanceof Error) throw this.flights;
+    return { flights: this.flights, source: this.name, location: this.name, timestamp: 1760000000000 };
+  }
+}
+
+const flight = (fields) => ({ ...new FlightAdapter().createStandardFlight(), ...fields });
+
+// Local receiver: fresh position, no route
+const receiver = new FixedAdapter('readsb', [
+  flight({ id: '7c6ddf_QFA512', icao24: '7c6ddf', callsign: 'QFA512', aircraft: 'B738', latitude: -27.40, longitude: 153.10, altitude: 1372, velocity: 109, squawk: '3115', timestamp: 1760000000000 }),
+  flight({ id: '2a1b3c_', icao24: '2a1b3c', latitude: -27.35, longitude: 153.05, altitude: 3000, timestamp: 1759999999000 })
+]);
+
+// FR24: route and registration, older position
+const fr24 = new FixedAdapter('flightradar24', [
+  flight({ id: '3a4b5c6d', icao24: '7C6DDF', callsign: 'QFA512', flightNumber: 'QF512', airline: 'QFA', aircraft: 'B738', registration: 'VH-VZS', origin: 'SYD', destination: 'BNE', latitude: -27.45, longitude: 153.15, altitude: 1500, velocity: 111, heading: 14, timestamp: 1759999990000 })
+]);
+
+// OpenSky: freshest heading, nothing else useful
+const opensky = new FixedAdapter('opensky', [
+  flight({ id: '7c6ddf_QFA512', icao24: '7c6ddf', callsign: 'QFA512', heading: 16, latitude: null, longitude: null, timestamp: 1760000001000 })
+]);
+
+describe('FusionAdapter', function() {
+  it('merges aircraft from every provider by icao24', async function() {
+    const fusion = new FusionAdapter([receiver, fr24, opensky]);
+    const data = await fusion.getFlightsInBounds(1, 0, 0, 1);
+
+    assert.strictEqual(data.source, 'readsb+flightradar24+opensky');
+    assert.strictEqual(data.flights.length, 2);
+
+    const qantas = data.flights.find(f => f.icao24 === '7c6ddf');
+    assert.strictEqual(qantas.id, '7c6ddf');
+    // Telemetry from the freshest source that has it
+    assert.strictEqual(qantas.heading, 16);
+    assert.strictEqual(qantas.latitude, -27.40);
+    assert.strictEqual(qantas.altitude, 1372);
+    assert.strictEqual(qantas.timestamp, 1760000001000);
+    // Identity from the first source that has it
+    assert.strictEqual(qantas.registration, 'VH-VZS');
+    assert.strictEqual(qantas.origin, 'SYD');
+    assert.strictEqual(qantas.flightNumber, 'QF512');
+
+    assert.strictEqual(qantas.sources.heading, 'opensky');
+    assert.strictEqual(qantas.sources.latitude, 'readsb');
+    assert.strictEqual(qantas.sources.registration, 'flightradar24');
+    assert.strictEqual(qantas.sources.callsign, 'readsb');
+  });
+
+  it('keeps the fused id when the callsign shows up later', async function() {
+    const before = await new FusionAdapter([new FixedAdapter('readsb', [flight({ id: '7c6ddf_', icao24: '7C6DDF' })])]).getFlightsInBounds(1, 0, 0, 1);
+    const after = await new FusionAdapter([receiver]).getFlightsInBounds(1, 0, 0, 1);
+
+    assert.strictEqual(before.flights[0].id, '7c6ddf');
+    assert.strictEqual(normalizeFlightData(after).flights.find(f => f.callsign === 'QFA512').id, '7c6ddf');
+  });
+
+  it('keeps answering when one provider fails', async function() {
+    const fusion = new FusionAdapter([receiver, new FixedAdapter('flightradar24', new Error('HTTP 429'))]);
+    const data = await fusion.getFlightsInBounds(1, 0, 0, 1);
+
+    assert.strictEqual(data.source, 'readsb');
+    assert.strictEqual(data.flights.length, 2);
+    assert.strictEqual(fusion.getHealthStatus().providers[1].lastError, 'HTTP 429');
+  });
+
+  it('fails only when every provider fails', async function() {
+    const fusion = new FusionAdapter([
+      new FixedAdapter('readsb', new Error('ENOENT')),
+      new FixedAdapter('opensky', new Error('HTTP 401'))
+    ]);
+
+    await assert.rejects(fusion.getFlightsInBounds(1, 0, 0, 1), /readsb: ENOENT; opensky: HTTP 401/);
+  });
+
+  it('takes airport boards from the first provider that answers', async function() {
+    const failing = new FixedAdapter('opensky', []);
+    failing.getAirportArrivals = async () => { throw new Error('HTTP 503'); };
+    const board = new FixedAdapter('flightradar24', []);
+    board.getAirportArrivals = async (airportCode) => ({ airport: airportCode, arrivals: [] });
+
+    const fusion = new FusionAdapter([failing, receiver, board]);
+    assert.deepStrictEqual(await fusion.getAirportArrivals('YBBN', 0, 1), { airport: 'YBBN', arrivals: [] });
+    assert.strictEqual(await fusion.getAirportDepartures('YBBN', 0, 1), null);
+    await assert.rejects(new FusionAdapter([failing, receiver]).getAirportArrivals('YBBN', 0, 1), /opensky: HTTP 503/);
+  });
+
+  it('maps field sources onto the normalized flight', async function() {
+    const fusion = new FusionAdapter([receiver, fr24]);
+    const normalized = normalizeFlightData(await fusion.getFlightsInBounds(1, 0, 0, 1));
+    const qantas = normalized.flights.find(f => f.callsign === 'QFA512');
+
+    assert.strictEqual(qantas.departure.airport, 'SYD');
+    assert.strictEqual(qantas.sources['position.latitude'], 'readsb');
+    assert.strictEqual(qantas.sources['position.heading'], 'flightradar24');
+    assert.strictEqual(qantas.sources.departure, 'flightradar24');
+    assert.strictEqual(qantas.sources['aircraft.registration'], 'flightradar24');
+  });
+
+  it('is created from a provider list in fusion mode', function() {
+    const settings = { chain: { mode: 'fusion' } };
+    const adapter = createFlightAdapter(['basestation', 'flightradar24'], settings);
+    assert.ok(adapter instanceof FusionAdapter);
+    adapter.close();
+
+    assert.strictEqual(validateProviderConfig(['basestation', 'flightradar24'], settings).valid, true);
+    assert.strictEqual(validateProviderConfig(['basestation', 'flightradar24'], { chain: { mode: 'merge' } }).valid, false);
+  });
+});
@@ -0,0 +1,82 @@
+const assert = require('assert');
+const modeS = require('../lib/modeS');
+const AvrAdapter = require('../adapters/AvrAdapter');
+const corpus = require('./fixtures/modes-frames.json');
+
+// Numbers in the corpus are published to two decimals (five for coordinates)
+function assertMatches(actual, expected, label) {
+  for (const [key, value] of Object.entries(expected)) {
+    if (value !== null && typeof value === 'object') {
+      assertMatches(actual[key], value, `${label}.${key}`);
+    } else if (typeof value === 'number' && !Number.isInteger(value)) {
+      assert.ok(Math.abs(actual[key] - value) < 0.01, `${label}.${key}: expected ${value}, got ${actual[key]}`);
+    } else {
+      assert.strictEqual(actual[key], value, `${label}.${key}`);
+    }
+  }
+}
+
+describe('Mode-S decoder (fixture corpus)', function() {
+  for (const entry of corpus.frames) {
+    it(`${entry.description}: ${entry.frame}`, function() {
+      assertMatches(modeS.decodeFrame(entry.frame), entry.expected, entry.frame);
+    });
+  }
+
+  for (const entry of corpus.cprGlobal) {
+    it(`CPR global decoding: ${entry.description}`, function() {
+      const even = modeS.decodeCprFields(entry.even);
+      const odd = modeS.decodeCprFields(entry.odd);
+      assertMatches(modeS.decodeCprGlobal(even, odd, entry.oddIsNewer), entry.expected, 'position');
+    });
+  }
+
+  for (const entry of corpus.cprLocal) {
+    it(`CPR local decoding: ${entry.description}`, function() {
+      const cpr = modeS.decodeCprFields(entry.frame);
+      const position = modeS.decodeCprLocal(cpr, entry.reference.latitude, entry.reference.longitude);
+      assertMatches(position, entry.expected, 'position');
+    });
+  }
+
+  it('extracts frames from AVR lines with and without MLAT timestamps', function() {
+    assert.strictEqual(modeS.parseAvrFrame('*8d4840d6202cc371c32ce0576098;'), '8D4840D6202CC371C32CE0576098');
+    assert.strictEqual(modeS.parseAvrFrame('@0123456789AB8D4840D6202CC371C32CE0576098;'), '8D4840D6202CC371C32CE0576098');
+    assert.strictEqual(modeS.parseAvrFrame('MSG,1,1,1,4840D6'), null);
+    assert.strictEqual(modeS.parseAvrFrame('*8D4840D6;'), null);
+  });
+});
+
+describe('AvrAdapter', function() {
+  it('builds per-aircraft state from a frame sequence', async function() {
+    const adapter = new AvrAdapter();
+    const t0 = Date.now();
+    adapter.handleLine('*8D40621D58C386435CC412692AD6;', t0);
+    adapter.handleLine('*8D40621D58C382D690C8AC2863A7;', t0 + 1000);
+    adapter.handleLine('*8D4840D6202CC371C32CE0576099;', t0 + 1100);
+    adapter.handleLine('*A0001839CA3800315800007448D9;', t0 + 1200);
+    adapter.handleLine('not a frame', t0 + 1300);
+
+    const flight = adapter.parseAircraftState(adapter.aircraft.get('40621d'));
+    assert.ok(Math.abs(flight.latitude - 52.2572) < 0.0001);
+    assert.ok(Math.abs(flight.longitude - 3.91937) < 0.0001);
+    assert.ok(Math.abs(flight.altitude - 38000 * 0.3048) < 0.01);
+
+    const health = adapter.getHealthStatus();
+    assert.strictEqual(health.framesDecoded, 2);
+    assert.strictEqual(health.crcErrors, 1);
+    assert.strictEqual(health.unknownAddresses, 1);
+    assert.strictEqual(health.malformedLines, 1);
+    adapter.close();
+  });
+
+  it('decodes a lone position frame relative to the receiver', function() {
+    const adapter = new AvrAdapter({ receiver: { latitude: 52.3, longitude: 4.0 } });
+    adapter.handleLine('*8D40621D58C382D690C8AC2863A7;');
+
+    const state = adapter.aircraft.get('40621d');
+    assert.ok(Math.abs(state.latitude - 52.2572) < 0.0001);
+    assert.ok(Math.abs(state.longitude - 3.91937) < 0.0001);
+    adapter.close();
+  });
+});
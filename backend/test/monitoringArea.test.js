@@ -0,0 +1,126 @@
+const assert = require('assert');
+const { validateArea, validateLocation, resolveAreaQuery, findIncoming, areaBounds } = require('../lib/monitoringArea');
+const { pointInPolygon } = require('../lib/geo');
+
+// Diagonal approach corridor running south-west to north-east
+const corridor = {
+  type: 'polygon',
+  name: 'Approach corridor',
+  vertices: [
+    { latitude: -27.50, longitude: 153.00 },
+    { latitude: -27.48, longitude: 152.98 },
+    { latitude: -27.38, longitude: 153.10 },
+    { latitude: -27.40, longitude: 153.12 }
+  ]
+};
+
+describe('monitoringArea', function() {
+  it('validates rectangle and polygon areas', function() {
+    assert.strictEqual(validateArea(null), null);
+    assert.strictEqual(validateArea(corridor), null);
+    assert.strictEqual(validateArea({
+      type: 'rectangle',
+      northwest: { latitude: -27.4, longitude: 153.0 },
+      southeast: { latitude: -27.5, longitude: 153.1 }
+    }), null);
+
+    assert.match(validateArea({ type: 'polygon', vertices: corridor.vertices.slice(0, 2) }), /at least 3/);
+    assert.match(validateArea({ type: 'polygon', vertices: [...corridor.vertices, { latitude: 95, longitude: 0 }] }), /latitude/);
+    assert.match(validateArea({ type: 'hexagon' }), /Unknown area type/);
+  });
+
+  it('queries the bounding box of a polygon and keeps flights inside it', function() {
+    const { method, args, contains } = resolveAreaQuery({ area: corridor }, {});
+    assert.strictEqual(method, 'getFlightsInBounds');
+    assert.deepStrictEqual(args, [-27.38, -27.50, 152.98, 153.12]);
+
+    // Centre of the corridor, then the empty corners of its bounding box
+    assert.strictEqual(contains({ latitude: -27.44, longitude: 153.05 }), true);
+    assert.strictEqual(contains({ latitude: -27.39, longitude: 152.99 }), false);
+    assert.strictEqual(contains({ latitude: -27.49, longitude: 153.11 }), false);
+  });
+
+  it('keeps the rectangle query unfiltered', function() {
+    const adapter = { rectangleToBounds: (nw, se) => ({ north: nw.latitude, south: se.latitude, west: nw.longitude, east: se.longitude }) };
+    const rectangle = resolveAreaQuery({
+      area: { type: 'rectangle', northwest: { latitude: -27.4, longitude: 153.0 }, southeast: { latitude: -27.5, longitude: 153.1 } }
+    }, adapter);
+    assert.deepStrictEqual(rectangle.args, [-27.4, -27.5, 153.0, 153.1]);
+    assert.strictEqual(rectangle.contains, null);
+
+    assert.throws(() => resolveAreaQuery({}, adapter), /missing location or area/);
+  });
+
+  it('filters circles by great-circle distance and altitude ceiling', function() {
+    const location = { latitude: -27.4, longitude: 153.0, radius: 10 };
+    const circle = resolveAreaQuery({ location }, {});
+    assert.strictEqual(circle.method, 'getFlightsInArea');
+    assert.deepStrictEqual(circle.args, [-27.4, 153.0, 10]);
+
+    // 9 km north is inside; the bounding-box corner about 13 km away is not
+    assert.strictEqual(circle.contains({ latitude: -27.319, longitude: 153.0, altitude: 11000 }), true);
+    assert.strictEqual(circle.contains({ latitude: -27.31, longitude: 153.1, altitude: 3000 }), false);
+
+    const cylinder = resolveAreaQuery({ location: { ...location, maxAltitude: 10000 } }, {});
+    assert.strictEqual(cylinder.contains({ latitude: -27.4, longitude: 153.0, altitude: 3000 }), true);
+    assert.strictEqual(cylinder.contains({ latitude: -27.4, longitude: 153.0, altitude: 3100 }), false);
+    assert.strictEqual(cylinder.contains({ latitude: -27.4, longitude: 153.0, altitude: null }), true);
+  });
+
+  it('validates circle locations', function() {
+    assert.strictEqual(validateLocation(null), null);
+    assert.strictEqual(validateLocation({ latitude: -27.4, longitude: 153.0, radius: 10, maxAltitude: 10000 }), null);
+    assert.match(validateLocation({ latitude: -27.4, longitude: 153.0, radius: 0 }), /radius/);
+    assert.match(validateLocation({ latitude: -27.4, longitude: 153.0, radius: 5, maxAltitude: -1 }), /ceiling/);
+  });
+
+  it('widens the query by the lookahead buffer and finds incoming flights', function() {
+    const location = { latitude: -27.4, longitude: 153.0, radius: 5 };
+    const config = { location, lookahead: { buffer: 10, horizon: 120 } };
+    const { args, contains } = resolveAreaQuery(config, {});
+    assert.deepStrictEqual(args, [-27.4, 153.0, 15]);
+
+    // 9.9 km east of the centre: heading west at 100 m/s it is inside the 5 km circle by 50 s
+    const inbound = { id: 'in', latitude: -27.4, longitude: 153.1, velocity: 100, heading: 270, altitude: 1500 };
+    const outbound = { ...inbound, id: 'out', heading: 90 };
+    const slow = { ...inbound, id: 'slow', velocity: 20 };
+    const inside = { ...inbound, id: 'inside', longitude: 153.0 };
+
+    const incoming = findIncoming([outbound, slow, inbound, inside], contains, config);
+    assert.deepStrictEqual(incoming.map(entry => entry.flight.id), ['in']);
+    assert.strictEqual(incoming[0].seconds, 50);
+
+    assert.deepStrictEqual(findIncoming([inbound], contains, { location }), []);
+  });
+
+  it('keeps testing the inner rectangle when buffered', function() {
+    const adapter = { rectangleToBounds: (nw, se) => ({ north: nw.latitude, south: se.latitude, west: nw.longitude, east: se.longitude }) };
+    const { args, contains } = resolveAreaQuery({
+      area: { type: 'rectangle', northwest: { latitude: -27.4, longitude: 153.0 }, southeast: { latitude: -27.5, longitude: 153.1 } },
+      lookahead: { buffer: 5 }
+    }, adapter);
+
+    assert.ok(args[0] > -27.4 && args[1] < -27.5 && args[2] < 153.0 && args[3] > 153.1);
+    assert.strictEqual(contains({ latitude: -27.45, longitude: 153.05 }), true);
+    assert.strictEqual(contains({ latitude: -27.39, longitude: 153.05 }), false);
+  });
+
+  it('reports the bounding box of each area shape', function() {
+    assert.deepStrictEqual(
+      areaBounds({ area: { type: 'rectangle', northwest: { latitude: -27.4, longitude: 153.0 }, southeast: { latitude: -27.5, longitude: 153.1 } } }),
+      { north: -27.4, south: -27.5, west: 153.0, east: 153.1 }
+    );
+    assert.deepStrictEqual(areaBounds({ area: corridor }), { north: -27.38, south: -27.50, west: 152.98, east: 153.12 });
+
+    const circle = areaBounds({ location: { latitude: -27.4, longitude: 153.0, radius: 10 } });
+    assert.ok(Math.abs(circle.north - circle.south - 0.18) < 0.001);
+    assert.ok(circle.east - circle.west > circle.north - circle.south);
+    assert.strictEqual(areaBounds({}), null);
+  });
+
+  it('treats closed rings like open ones', function() {
+    const closed = [...corridor.vertices, corridor.vertices[0]];
+    assert.strictEqual(pointInPolygon(-27.44, 153.05, closed), true);
+    assert.strictEqual(pointInPolygon(-27.39, 152.99, closed), false);
+  });
+});
@@ -0,0 +1,72 @@
+const assert = require('assert');
+const { validateHome, resolveObserver, predictClosestApproach, observeFlight } = require('../lib/observer');
+const { normalizeFlightData } = require('../lib/flightNormalizer');
+
+const home = { latitude: -27.4, longitude: 153.0, elevation: 100 };
+
+describe('observer', function() {
+  it('validates the home location', function() {
+    assert.strictEqual(validateHome(null), null);
+    assert.strictEqual(validateHome(home), null);
+    assert.match(validateHome({ latitude: 91, longitude: 0 }), /latitude/);
+    assert.match(validateHome({ ...home, elevation: 'high' }), /elevation/);
+  });
+
+  it('falls back to the circle centre at sea level', function() {
+    assert.deepStrictEqual(resolveObserver({ home, location: { latitude: 0, longitude: 0, radius: 5 } }), home);
+    assert.deepStrictEqual(
+      resolveObserver({ location: { latitude: -27.5, longitude: 153.1, radius: 5 } }),
+      { latitude: -27.5, longitude: 153.1, elevation: 0 }
+    );
+    assert.strictEqual(resolveObserver({ area: { type: 'polygon', vertices: [] } }), null);
+  });
+
+  it('works out where to look for a flight', function() {
+    // About 10 km due east at 5,000 ft, flying west towards home
+    const inbound = observeFlight(
+      { latitude: -27.4, longitude: 153.1013, altitude: 5100, speed: 200, heading: 270 },
+      home
+    );
+    assert.ok(Math.abs(inbound.distance - 10) < 0.05, `distance ${inbound.distance}`);
+    assert.strictEqual(inbound.bearing, 90);
+    // atan(1524 m / 10 km) less a little for the curve of the earth
+    assert.ok(inbound.elevation > 8.2 && inbound.elevation < 8.7, `elevation ${inbound.elevation}`);
+    assert.ok(Math.abs(inbound.slantRange - 10.12) < 0.05, `slant range ${inbound.slantRange}`);
+    assert.strictEqual(inbound.approaching, true);
+
+    const outbound = observeFlight({ latitude: -27.5, longitude: 153.0, altitude: 3000, speed: 180, heading: 185 }, home);
+    assert.strictEqual(outbound.bearing, 180);
+    assert.strictEqual(outbound.approaching, false);
+
+    const parked = observeFlight({ latitude: -27.41, longitude: 153.0, altitude: 0, speed: 0, heading: 0 }, home);
+    assert.strictEqual(parked.approaching, null);
+    assert.ok(parked.elevation < 0);
+  });
+
+  it('predicts the closest point of approach along the current track', function() {
+    const now = Date.parse('2026-10-19T14:00:00Z');
+    // 10 km east, 1 km north of home, flying due west at 200 kt while descending
+    const cpa = predictClosestApproach(
+      { latitude: -27.391, longitude: 153.1013, altitude: 5000, speed: 200, heading: 270, verticalSpeed: -600 },
+      home,
+      now
+    );
+    // 10 km at 102.9 m/s
+    assert.ok(Math.abs(cpa.seconds - 97) <= 1, `seconds ${cpa.seconds}`);
+    assert.ok(Math.abs(Date.parse(cpa.time) - (now + cpa.seconds * 1000)) < 1000, `time ${cpa.time}`);
+    assert.ok(Math.abs(cpa.distance - 1) < 0.02, `distance ${cpa.distance}`);
+    assert.ok(Math.abs(cpa.altitude - 4030) < 15, `altitude ${cpa.altitude}`);
+
+    assert.strictEqual(predictClosestApproach({ latitude: -27.391, longitude: 153.1013, altitude: 5000, speed: 200, heading: 90 }, home, now), null);
+    assert.strictEqual(predictClosestApproach({ latitude: -27.391, longitude: 153.1013, altitude: 0, speed: 0, heading: 270 }, home, now), null);
+  });
+
+  it('adds telemetry during normalization only when an observer is known', function() {
+    const data = { flights: [{ icao24: '7c6b2d', callsign: 'QFA512', latitude: -27.3, longitude: 153.0, altitude: 1500, velocity: 100, heading: 180 }] };
+
+    const [flight] = normalizeFlightData(data, { observer: home }).flights;
+    assert.strictEqual(flight.observer.bearing, 0);
+    assert.strictEqual(flight.observer.approaching, true);
+    assert.strictEqual(normalizeFlightData(data).flights[0].observer, undefined);
+  });
+});
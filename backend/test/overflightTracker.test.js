@@ -0,0 +1,84 @@
+const assert = require('assert');
+const EventEmitter = require('events');
+const OverflightTracker = require('../lib/overflightTracker');
+
+const flight = (id, observer) => ({
+  id,
+  flightNumber: 'QF512',
+  callsign: 'QFA512',
+  airline: { name: 'Qantas' },
+  aircraft: { icao: 'B738', registration: 'VH-VXA' },
+  observer
+});
+
+const approaching = (distance, seconds) => ({
+  approaching: true,
+  cpa: { seconds, time: new Date(Date.parse('2026-10-19T14:02:00Z') + seconds * 1000).toISOString(), distance, altitude: 3200 }
+});
+const receding = { approaching: false, cpa: null };
+
+describe('OverflightTracker', function() {
+  let poller;
+  let tracker;
+  let emitted;
+
+  beforeEach(function() {
+    poller = new EventEmitter();
+    tracker = new OverflightTracker(poller);
+    emitted = [];
+    tracker.on('overflight', event => emitted.push(event));
+  });
+
+  const poll = (flights, fetchedAt = Date.parse('2026-10-19T14:02:00Z')) => poller.emit('snapshot', { data: { flights }, fetchedAt }, null);
+
+  it('reports a flight once it passes within range', function() {
+    poll([flight('a', approaching(1.3, 60))]);
+    poll([flight('a', approaching(1.2, 20))]);
+    assert.strictEqual(emitted.length, 0);
+
+    poll([flight('a', receding)]);
+    poll([flight('a', receding)]);
+    assert.strictEqual(emitted.length, 1);
+    assert.deepStrictEqual(emitted[0], {
+      id: `a_${Date.parse('2026-10-19T14:02:20Z')}`,
+      flightId: 'a',
+      flightNumber: 'QF512',
+      callsign: 'QFA512',
+      airline: 'Qantas',
+      aircraftType: 'B738',
+      registration: 'VH-VXA',
+      time: '2026-10-19T14:02:20.000Z',
+      distance: 1.2,
+      altitude: 3200
+    });
+    assert.deepStrictEqual(tracker.list(), emitted);
+  });
+
+  it('ignores distant passes and flights that leave before passing', function() {
+    tracker.configure({ overflight: { maxDistance: 1 } });
+    poll([flight('far', approaching(4, 30)), flight('gone', approaching(0.5, 30))]);
+    poll([flight('far', receding)]);
+    poll([flight('gone', receding)]);
+    assert.strictEqual(emitted.length, 0);
+  });
+
+  it('reports a flight that leaves the area right after passing', function() {
+    poll([flight('edge', approaching(0.8, 20)), flight('early', approaching(0.8, 60))]);
+    poll([], Date.parse('2026-10-19T14:02:30Z'));
+
+    assert.deepStrictEqual(emitted.map(event => [event.flightId, event.time]), [['edge', '2026-10-19T14:02:20.000Z']]);
+    assert.strictEqual(tracker.approaching.size, 0);
+  });
+
+  it('keeps a bounded list of recent events', function() {
+    tracker.configure({ overflight: { maxEvents: 2 } });
+    for (const [index, id] of ['a', 'b', 'c'].entries()) {
+      poll([flight(id, approaching(0.4, index * 60))]);
+      poll([flight(id, receding)]);
+    }
+
+    assert.deepStrictEqual(tracker.list().map(event => event.flightId), ['b', 'c']);
+    assert.deepStrictEqual(tracker.list({ limit: 1 }).map(event => event.flightId), ['c']);
+    assert.deepStrictEqual(tracker.list({ since: Date.parse('2026-10-19T14:03:30Z') }).map(event => event.flightId), ['c']);
+  });
+});
@@ -0,0 +1,61 @@
+const assert = require('assert');
+const path = require('path');
+const ReadsbAdapter = require('../adapters/ReadsbAdapter');
+const { normalizeFlightData } = require('../lib/flightNormalizer');
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'aircraft.json');
+const BOUNDS = { north: -27.332044, south: -27.452044, west: 153.03406, east: 153.19406 };
+
+describe('ReadsbAdapter (aircraft.json file)', function() {
+  it('maps receiver fields onto the standard flight shape', async function() {
+    const adapter = new ReadsbAdapter({ source: FIXTURE });
+    const data = await adapter.getFlightsInBounds(BOUNDS.north, BOUNDS.south, BOUNDS.west, BOUNDS.east);
+
+    assert.strictEqual(data.source, 'readsb');
+    assert.strictEqual(data.timestamp, 1760000000000);
+
+    const qantas = data.flights.find(f => f.icao24 === '7c6ddf');
+    assert.ok(qantas, 'expected QFA512 in bounds');
+    assert.strictEqual(qantas.callsign, 'QFA512');
+    assert.strictEqual(qantas.airline, 'QFA');
+    assert.strictEqual(qantas.aircraft, 'B738');
+    assert.strictEqual(qantas.registration, 'VH-VZS');
+    assert.strictEqual(qantas.squawk, '3115');
+    assert.ok(Math.abs(qantas.altitude - 4500 * 0.3048) < 0.01);
+    assert.ok(Math.abs(qantas.velocity - 212.4 * 0.514444) < 0.01);
+    assert.ok(Math.abs(qantas.verticalRate - -960 * 0.00508) < 0.01);
+    assert.strictEqual(qantas.heading, 14.2);
+    assert.strictEqual(qantas.timestamp, 1759999999600);
+  });
+
+  it('drops grounded, stale, position-less and out-of-bounds aircraft', async function() {
+    const adapter = new ReadsbAdapter({ source: FIXTURE });
+    const data = await adapter.getFlightsInBounds(BOUNDS.north, BOUNDS.south, BOUNDS.west, BOUNDS.east);
+    const ids = data.flights.map(f => f.icao24).sort();
+
+    assert.deepStrictEqual(ids, ['2a1b3c', '7c6ddf']);
+  });
+
+  it('produces flights normalizeFlightData accepts', async function() {
+    const adapter = new ReadsbAdapter({ source: FIXTURE });
+    const data = await adapter.getFlightsInArea(-27.39, 153.11, 10);
+    const normalized = normalizeFlightData(data);
+    const qantas = normalized.flights.find(f => f.callsign === 'QFA512');
+
+    assert.strictEqual(normalized.source, 'readsb');
+    assert.strictEqual(qantas.position.altitude, 4500);
+    assert.strictEqual(qantas.position.speed, 212);
+    assert.strictEqual(qantas.position.verticalSpeed, -960);
+    assert.strictEqual(qantas.squawk, '3115');
+    assert.strictEqual(qantas.status, 'descending');
+  });
+
+  it('reports read failures through getHealthStatus', async function() {
+    const adapter = new ReadsbAdapter({ source: path.join(__dirname, 'fixtures', 'missing.json') });
+    await assert.rejects(() => adapter.getFlightsInArea(-27.39, 153.11, 10), /Readsb source failed/);
+
+    const health = adapter.getHealthStatus();
+    assert.strictEqual(health.configured, true);
+    assert.ok(health.lastError);
+  });
+});
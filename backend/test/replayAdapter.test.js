@@ -0,0 +1,130 @@
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const ReplayAdapter = require('../adapters/ReplayAdapter');
+const FlightRadar24Adapter = require('../adapters/FlightRadar24Adapter');
+const ReadsbAdapter = require('../adapters/ReadsbAdapter');
+const { FlightRecorder, readRecording } = require('../lib/flightRecorder');
+const { normalizeFlightData } = require('../lib/flightNormalizer');
+const { validateProviderConfig } = require('../adapters');
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'recording.jsonl');
+
+describe('FlightRecorder', function() {
+  let directory;
+
+  beforeEach(function() {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'flights-recording-'));
+  });
+
+  afterEach(function() {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('writes provider answers only while recording', async function() {
+    const recorder = new FlightRecorder({ directory });
+    recorder.record('getFlightsInBounds', [1, 0, 0, 1], { flights: [], source: 'stub' });
+    assert.deepStrictEqual(recorder.list(), []);
+
+    recorder.configure({ recording: { enabled: true } });
+    const { file } = recorder.getStatus();
+    recorder.record('getFlightsInBounds', [1, 0, 0, 1], { flights: [{ id: 'a' }], source: 'stub' });
+    recorder.record('getFlightsInBounds', [1, 0, 0, 1], { flights: [], source: 'stub' });
+    recorder.configure({ recording: { enabled: false } });
+    recorder.record('getFlightsInBounds', [1, 0, 0, 1], { flights: [], source: 'stub' });
+
+    const frames = await readRecording(path.join(directory, file));
+    assert.strictEqual(frames.length, 2);
+    assert.strictEqual(frames[0].method, 'getFlightsInBounds');
+    assert.deepStrictEqual(frames[0].data.flights, [{ id: 'a' }]);
+    assert.strictEqual(recorder.list()[0].name, file);
+  });
+
+  it('keeps raw provider payloads and replays them through the provider parser', async function() {
+    const args = [-27.33, -27.45, 153.03, 153.19];
+    const options = { bounds: { north: -27.33, south: -27.45, west: 153.03, east: 153.19 } };
+    const fr24 = new FlightRadar24Adapter();
+    const readsb = new ReadsbAdapter();
+    const fr24Data = fr24.parsePayload({
+      full_count: 1,
+      '3a1b2c3d': ['7C6DDF', -27.44, 153.11, 14, 4500, 212, '3115', 'T-YBBN1', 'B738', 'VH-VZS', 1760000015, 'SYD', 'BNE', 'QF512', 0, -960, 'QFA512']
+    }, options);
+    readsb.parsePayload({
+      now: 1760000016,
+      aircraft: [{ hex: '7c6ddf', flight: 'QFA512  ', lat: -27.43, lon: 153.11, alt_baro: 4400, gs: 210, track: 14, seen: 0, seen_pos: 0 }]
+    }, options);
+
+    const recorder = new FlightRecorder({ directory });
+    const file = recorder.start();
+    recorder.record('getFlightsInBounds', args, fr24Data, fr24.getPayloads());
+    recorder.record('getFlightsInBounds', args, fr24Data, [...fr24.getPayloads(), ...readsb.getPayloads()]);
+
+    const frames = await readRecording(path.join(directory, file));
+    assert.strictEqual(frames[0].data, undefined);
+    assert.strictEqual(frames[0].payloads[0].provider, 'flightradar24');
+    assert.strictEqual(frames[0].payloads[0].data.full_count, 1);
+
+    const replay = new ReplayAdapter({ file: path.join(directory, file) });
+    const [single] = replay.frameData(frames[0]).flights;
+    assert.strictEqual(single.id, '3a1b2c3d');
+    assert.strictEqual(single.altitude, 4500 * 0.3048);
+
+    // Payloads from several providers are merged by ICAO24 as fusion mode does
+    const fused = replay.frameData(frames[1]).flights;
+    assert.strictEqual(fused.length, 1);
+    assert.strictEqual(fused[0].registration, 'VH-VZS');
+    assert.strictEqual(fused[0].latitude, -27.43);
+
+    const replayed = await replay.getFlightsInBounds(...args);
+    assert.strictEqual(replayed.source, 'replay');
+  });
+});
+
+describe('ReplayAdapter', function() {
+  it('picks the frame current at each point of the recording', async function() {
+    const adapter = new ReplayAdapter({ file: FIXTURE, loop: false });
+    const frames = await adapter.loadFrames();
+
+    assert.strictEqual(adapter.frameIndexAt(frames, 0), 0);
+    assert.strictEqual(adapter.frameIndexAt(frames, 14999), 0);
+    assert.strictEqual(adapter.frameIndexAt(frames, 15000), 1);
+    assert.strictEqual(adapter.frameIndexAt(frames, 90000), 2);
+  });
+
+  it('wraps around when looping', async function() {
+    const adapter = new ReplayAdapter({ file: FIXTURE });
+    const frames = await adapter.loadFrames();
+
+    assert.strictEqual(adapter.frameIndexAt(frames, 30000 + 16000), 1);
+  });
+
+  it('plays back at the configured speed', async function() {
+    const adapter = new ReplayAdapter({ file: FIXTURE, speed: 60 });
+    adapter.startedAt = Date.now() - 400; // 400ms at 60x is 24s into the recording
+
+    const data = await adapter.getFlightsInBounds(-27.33, -27.45, 153.03, 153.19);
+    assert.strictEqual(data.source, 'replay');
+    assert.strictEqual(data.flights[0].latitude, -27.44);
+    assert.strictEqual(adapter.getHealthStatus().frameIndex, 1);
+  });
+
+  it('produces flights normalizeFlightData accepts', async function() {
+    const adapter = new ReplayAdapter({ file: FIXTURE });
+    adapter.startedAt = Date.now() - 30000;
+
+    const normalized = normalizeFlightData(await adapter.getFlightsInArea(-27.39, 153.11, 10));
+    assert.strictEqual(normalized.source, 'replay');
+    assert.strictEqual(normalized.flights[0].callsign, 'QFA512');
+    assert.strictEqual(normalized.flights[0].position.altitude, 3609);
+  });
+
+  it('rejects a missing recording in config validation', function() {
+    const missing = validateProviderConfig('replay', { replay: { file: path.join(__dirname, 'fixtures', 'missing.jsonl') } });
+    assert.strictEqual(missing.valid, false);
+
+    const present = validateProviderConfig('replay', { replay: { file: FIXTURE, speed: 10 } });
+    assert.strictEqual(present.valid, true);
+    assert.match(present.message, /10x/);
+  });
+});
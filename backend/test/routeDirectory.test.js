@@ -0,0 +1,61 @@
+const assert = require('assert');
+const Database = require('better-sqlite3');
+const RouteDirectory = require('../lib/routeDirectory');
+const { normalizeFlightData } = require('../lib/flightNormalizer');
+
+describe('RouteDirectory', function() {
+  let routes;
+
+  beforeEach(function() {
+    routes = new RouteDirectory({ db: new Database(':memory:') });
+  });
+
+  it('imports plain and VRS standing data CSVs', function() {
+    const plain = 'callsign,origin,destination\nQFA512,SYD,BNE\nVOZ 921,bne,mel\nJST1,,OOL\n';
+    assert.deepStrictEqual(routes.importCsv(plain), { imported: 2, skipped: 1 });
+    assert.strictEqual(routes.lookup('voz921').destination, 'MEL');
+
+    const vrs = 'Callsign,Code,Number,AirlineCode,AirportCodes\nQTR898,QR,898,QTR,OTHH-YBBN\nSIA235,SQ,235,SIA,WSSS-YMML-YSSY\n';
+    assert.deepStrictEqual(routes.importCsv(vrs), { imported: 2, skipped: 0 });
+    assert.deepStrictEqual([routes.lookup('SIA235').origin, routes.lookup('SIA235').destination], ['WSSS', 'YSSY']);
+    assert.strictEqual(routes.lookup('SIA235').source, 'import');
+
+    assert.throws(() => routes.importCsv('origin,destination\nSYD,BNE'), /callsign/);
+  });
+
+  it('learns routes from FlightRadar24 answers only', function() {
+    const learned = routes.learn({
+      source: 'flightradar24',
+      flights: [
+        { callsign: 'QFA512', origin: 'SYD', destination: 'BNE' },
+        { callsign: 'N123AB', origin: '', destination: '' }
+      ]
+    });
+    assert.strictEqual(learned, 1);
+    assert.strictEqual(routes.learn({ source: 'flightradar24', flights: [{ callsign: 'QFA512', origin: 'SYD', destination: 'BNE' }] }), 0);
+
+    routes.learn({ source: 'simulator', flights: [{ callsign: 'VOZ1', origin: 'SYD', destination: 'PER' }] });
+    assert.strictEqual(routes.lookup('VOZ1'), null);
+
+    routes.learn({
+      source: 'readsb+flightradar24',
+      flights: [{ callsign: 'JST2', origin: 'OOL', destination: 'SYD', sources: { origin: 'flightradar24' } }]
+    });
+    assert.strictEqual(routes.lookup('JST2').source, 'flightradar24');
+  });
+
+  it('fills missing origin and destination during normalization', function() {
+    routes.save({ callsign: 'QFA512', origin: 'SYD', destination: 'BNE' });
+    const data = {
+      flights: [
+        { id: 'a', callsign: 'QFA512', latitude: -27.4, longitude: 153.1 },
+        { id: 'b', callsign: 'QFA512', origin: 'MEL', destination: 'BNE', latitude: -27.4, longitude: 153.1 }
+      ]
+    };
+
+    const [looked, reported] = normalizeFlightData(data, { routes }).flights;
+    assert.strictEqual(looked.departure.iata, 'SYD');
+    assert.strictEqual(looked.arrival.iata, 'BNE');
+    assert.strictEqual(reported.departure.iata, 'MEL');
+  });
+});
@@ -0,0 +1,224 @@
+const assert = require('assert');
+const Database = require('better-sqlite3');
+const SightingHistory = require('../lib/sightingHistory');
+const { normalizeFlightData } = require('../lib/flightNormalizer');
+
+const START = Date.parse('2025-03-01T10:00:00Z');
+const MINUTE = 60 * 1000;
+
+function flight(overrides = {}) {
+  return {
+    icao24: '7c6b2d',
+    callsign: 'QFA512',
+    registration: 'VH-VXA',
+    aircraft: 'B738',
+    origin: 'SYD',
+    destination: 'BNE',
+    latitude: -27.4,
+    longitude: 153.0,
+    altitude: 3000,
+    velocity: 120,
+    heading: 180,
+    verticalRate: 0,
+    ...overrides
+  };
+}
+
+function normalize(...flights) {
+  return normalizeFlightData({ flights }).flights;
+}
+
+describe('SightingHistory', function() {
+  let history;
+
+  beforeEach(function() {
+    history = new SightingHistory({ db: new Database(':memory:') });
+  });
+
+  it('keeps one sighting while a flight stays in view', function() {
+    assert.strictEqual(history.record(normalize(flight()), START), 1);
+    assert.strictEqual(history.record(normalize(flight({ altitude: 1500, latitude: -27.45 })), START + MINUTE), 0);
+    assert.strictEqual(history.record(normalize(flight({ altitude: 2500, latitude: -27.5 })), START + 2 * MINUTE), 0);
+
+    const { sightings, total } = history.list();
+    assert.strictEqual(total, 1);
+    assert.strictEqual(sightings[0].icao24, '7c6b2d');
+    assert.strictEqual(sightings[0].callsign, 'QFA512');
+    assert.strictEqual(sightings[0].origin, 'SYD');
+    assert.strictEqual(sightings[0].firstSeen, '2025-03-01T10:00:00.000Z');
+    assert.strictEqual(sightings[0].lastSeen, '2025-03-01T10:02:00.000Z');
+    assert.strictEqual(sightings[0].minAltitude, Math.round(1500 * 3.28084));
+
+    const detail = history.get(sightings[0].id);
+    assert.strictEqual(detail.track.length, 3);
+    assert.strictEqual(detail.track[1].latitude, -27.45);
+    assert.strictEqual(detail.track[0].t, '2025-03-01T10:00:00.000Z');
+    assert.strictEqual(history.get(9999), null);
+  });
+
+  it('starts a new sighting after the session gap', function() {
+    history.configure({ history: { sessionGapMinutes: 5 } });
+    history.record(normalize(flight()), START);
+    assert.strictEqual(history.record(normalize(flight()), START + 6 * MINUTE), 1);
+    assert.strictEqual(history.record(normalize(flight({ callsign: 'QFA513' })), START + 7 * MINUTE), 0);
+    assert.strictEqual(history.list().total, 2);
+  });
+
+  it('fills in a callsign that shows up during the pass', function() {
+    history.record(normalize(flight({ callsign: '', origin: '', destination: '' })), START);
+    assert.strictEqual(history.record(normalize(flight()), START + MINUTE), 0);
+
+    const [sighting] = history.list().sightings;
+    assert.strictEqual(sighting.callsign, 'QFA512');
+    assert.strictEqual(sighting.destination, 'BNE');
+    assert.strictEqual(history.get(sighting.id).track.length, 2);
+  });
+
+  it('continues a sighting across a restart', function() {
+    const db = new Database(':memory:');
+    new SightingHistory({ db }).record(normalize(flight()), START);
+    const restarted = new SightingHistory({ db });
+    assert.strictEqual(restarted.record(normalize(flight()), START + MINUTE), 0);
+    assert.strictEqual(restarted.list().total, 1);
+  });
+
+  it('keeps the closest observed or imminent pass distance', function() {
+    const [seen] = normalize(flight());
+    history.record([{ ...seen, observer: { distance: 4, cpa: { seconds: 300, distance: 0.5 } } }], START);
+    history.record([{ ...seen, observer: { distance: 2, cpa: { seconds: 20, distance: 0.8 } } }], START + MINUTE);
+    history.record([{ ...seen, observer: { distance: 3, cpa: null } }], START + 2 * MINUTE);
+    assert.strictEqual(history.list().sightings[0].cpaDistance, 0.8);
+  });
+
+  it('filters and pages sightings', function() {
+    history.record(normalize(
+      flight(),
+      flight({ icao24: '7c1234', callsign: 'VOZ921', registration: 'VH-YIA', altitude: 9000 }),
+      flight({ icao24: '7c5678', callsign: 'JST1', registration: 'VH-VQA', aircraft: 'A320', altitude: 600 })
+    ), START);
+    history.record(normalize(flight({ icao24: '7c9999', callsign: 'QFA1', registration: 'VH-OQA', aircraft: 'A388' })), START + 60 * MINUTE);
+
+    assert.strictEqual(history.list({ search: 'qfa' }).total, 2);
+    assert.strictEqual(history.list({ registration: 'VHYIA' }).sightings[0].callsign, 'VOZ921');
+    assert.strictEqual(history.list({ type: 'A3' }).total, 2);
+    assert.strictEqual(history.list({ maxAltitude: 2000 }).sightings[0].callsign, 'JST1');
+    assert.strictEqual(history.list({ minAltitude: 20000 }).sightings[0].callsign, 'VOZ921');
+    assert.strictEqual(history.list({ from: '2025-03-01T10:30:00Z' }).total, 1);
+    assert.strictEqual(history.list({ to: '2025-03-01T10:30:00Z' }).total, 3);
+
+    const page = history.list({ limit: 2, offset: 2 });
+    assert.strictEqual(page.total, 4);
+    assert.strictEqual(page.sightings.length, 2);
+    assert.strictEqual(history.list().sightings[0].callsign, 'QFA1');
+  });
+
+  it('prunes by age and count and can be turned off', function() {
+    history.configure({ history: { retentionDays: 1, maxSightings: 2 } });
+    history.record(normalize(flight({ icao24: '7c0001' })), START);
+    history.record(normalize(flight({ icao24: '7c0002' })), START + 2 * 24 * 60 * MINUTE);
+    assert.strictEqual(history.list().total, 1);
+
+    history.record(normalize(flight({ icao24: '7c0003' }), flight({ icao24: '7c0004' })), START + 2 * 24 * 60 * MINUTE + MINUTE);
+    assert.strictEqual(history.prune(START + 2 * 24 * 60 * MINUTE + MINUTE), 1);
+    assert.strictEqual(history.list().total, 2);
+
+    history.configure({ history: { enabled: false } });
+    assert.strictEqual(history.record(normalize(flight({ icao24: '7c0005' })), START + 3 * 24 * 60 * MINUTE), 0);
+    assert.strictEqual(history.list().total, 2);
+  });
+
+  it('keeps traffic positions briefly and capped even when sightings are kept forever', function() {
+    history.configure({ history: { retentionDays: 0, trafficRetentionDays: 2, maxTrafficPositions: 3, densityMargin: 0 } });
+    const bounds = { north: -27.3, south: -27.5, west: 153.0, east: 153.2 };
+    history.recordTraffic([flight({ icao24: '7c0001', latitude: -27.41, longitude: 153.01 })], START);
+    history.recordTraffic([flight({ icao24: '7c0002', latitude: -27.41, longitude: 153.01 })], START + 24 * 60 * MINUTE);
+    assert.strictEqual(history.density({ bounds, to: START + 24 * 60 * MINUTE }).max, 2);
+
+    // The first position is past the traffic retention
+    history.prune(START + 3 * 24 * 60 * MINUTE);
+    assert.strictEqual(history.density({ bounds, from: 0, to: START + 3 * 24 * 60 * MINUTE }).max, 1);
+
+    // Only the latest positions survive the cap
+    const later = START + 3 * 24 * 60 * MINUTE;
+    history.recordTraffic(['7c0003', '7c0004', '7c0005'].map(icao24 => flight({ icao24, latitude: -27.41, longitude: 153.01 })), later);
+    history.prune(later);
+    assert.strictEqual(history.density({ bounds, from: 0, to: later }).max, 3);
+  });
+
+  it('limits the density map to the last week by default', function() {
+    history.configure({ history: { densityMargin: 0, trafficRetentionDays: 30 } });
+    const bounds = { north: -27.3, south: -27.5, west: 153.0, east: 153.2 };
+    history.recordTraffic([flight({ icao24: '7c0001', latitude: -27.41, longitude: 153.01 })], START - 8 * 24 * 60 * MINUTE);
+    history.recordTraffic([flight({ icao24: '7c0002', latitude: -27.41, longitude: 153.01 })], START);
+
+    assert.strictEqual(history.density({ bounds, to: START }).max, 1);
+    assert.strictEqual(history.density({ bounds, from: 0, to: START }).max, 2);
+  });
+
+  it('aggregates traffic statistics over a range', function() {
+    history.record(normalize(
+      flight(),
+      flight({ icao24: '7c1234', callsign: 'VOZ921', aircraft: 'B738', altitude: 9000 }),
+      flight({ icao24: '7c5678', callsign: 'JST1', aircraft: 'A320', altitude: 600 })
+    ), START);
+    history.record(normalize(flight({ icao24: '7c9999', callsign: 'QFA1', aircraft: 'A388' })), START + 26 * 60 * MINUTE);
+    history.record(normalize(flight({ icao24: '7c0001', callsign: 'QFA2' })), START - 40 * 24 * 60 * MINUTE);
+
+    const stats = history.stats({ to: START + 27 * 60 * MINUTE });
+    assert.strictEqual(stats.total, 4);
+    assert.strictEqual(stats.daily.reduce((sum, day) => sum + day.count, 0), 4);
+    assert.strictEqual(stats.hourly.reduce((sum, hour) => sum + hour.count, 0), 4);
+    assert.strictEqual(stats.busiest.reduce((sum, cell) => sum + cell.count, 0), 4);
+    assert.deepStrictEqual(stats.types[0], { type: 'B738', count: 2 });
+    assert.deepStrictEqual(stats.altitudes.map(bin => bin.altitude), [0, 8000, 28000]);
+
+    assert.strictEqual(history.stats({ from: START + MINUTE, to: START + 27 * 60 * MINUTE }).total, 1);
+    assert.strictEqual(history.stats({ from: START - 41 * 24 * 60 * MINUTE, to: START + 27 * 60 * MINUTE }).total, 5);
+  });
+
+  it('bins aircraft through each cell of the area', function() {
+    history.configure({ history: { densityMargin: 0 } });
+    const bounds = { north: -27.3, south: -27.5, west: 153.0, east: 153.2 };
+    // Two aircraft along the same line, one of them polled twice in the same cell
+    history.recordTraffic([flight({ latitude: -27.41, longitude: 153.01 }), flight({ icao24: '7c1234', latitude: -27.41, longitude: 153.01 })], START);
+    history.recordTraffic([flight({ latitude: -27.41, longitude: 153.011 })], START + MINUTE);
+    history.recordTraffic([flight({ icao24: '7c5678', latitude: -27.6, longitude: 153.1 }), flight({ icao24: '7c9999', latitude: null })], START);
+
+    const density = history.density({ bounds, cells: 10, to: START + 2 * MINUTE });
+    // 0.2 degrees of latitude is the longer side this far south
+    assert.strictEqual(density.rows, 10);
+    assert.strictEqual(density.columns, 9);
+    assert.strictEqual(density.cells.length, 1);
+    assert.strictEqual(density.cells[0].count, 2);
+    assert.strictEqual(density.max, 2);
+    assert.strictEqual(density.cells[0].column, 0);
+    assert.ok(Math.abs(density.cells[0].latitude - -27.41) < density.cellSize / 111);
+
+    assert.strictEqual(history.density({ bounds, from: START + 2 * MINUTE, to: START + 3 * MINUTE }).cells.length, 0);
+  });
+
+  it('shows traffic in the margin around the area', function() {
+    history.configure({ history: { densityMargin: 15 } });
+    const bounds = { north: -27.3, south: -27.5, west: 153.0, east: 153.2 };
+    // Inside the area, about 11 km south of it, and well beyond the margin
+    history.recordTraffic([
+      flight({ latitude: -27.41, longitude: 153.01 }),
+      flight({ icao24: '7c5678', latitude: -27.6, longitude: 153.1 }),
+      flight({ icao24: '7c9999', latitude: -28.0, longitude: 153.1 })
+    ], START);
+    // Sightings only hold traffic inside the area and do not feed the map
+    history.record(normalize(flight({ icao24: '7c4444', latitude: -27.35, longitude: 153.15 })), START);
+
+    const density = history.density({ bounds, cells: 10, to: START + MINUTE });
+    assert.deepStrictEqual(density.area, bounds);
+    assert.ok(density.bounds.south < -27.6 && density.bounds.south > -27.7);
+    assert.ok(density.bounds.west < 153.0 && density.bounds.east > 153.2);
+    assert.strictEqual(density.rows, 10);
+    assert.strictEqual(density.cells.length, 2);
+
+    const outside = density.cells.find(cell => cell.latitude < bounds.south);
+    assert.ok(outside);
+    assert.strictEqual(outside.count, 1);
+    assert.ok(Math.abs(outside.latitude - -27.6) < density.cellSize / 111);
+  });
+});
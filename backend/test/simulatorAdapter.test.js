@@ -0,0 +1,104 @@
+const assert = require('assert');
+const SimulatorAdapter = require('../adapters/SimulatorAdapter');
+const { normalizeFlightData } = require('../lib/flightNormalizer');
+const { distanceMeters } = require('../lib/geo');
+const { validateProviderConfig } = require('../adapters');
+
+const CIRCLE = { center: { lat: -27.39, lon: 153.11 }, radiusM: 10000 };
+const HOUR = 3600000;
+
+// Every flight seen in the circle over an hour, sampled every 15 seconds
+function sampleHour(adapter) {
+  const samples = [];
+  for (let t = 0; t < HOUR; t += 15000) {
+    samples.push(adapter.flightsAt(t, CIRCLE));
+  }
+  return samples;
+}
+
+describe('SimulatorAdapter', function() {
+  it('produces the same traffic for the same seed', function() {
+    const a = new SimulatorAdapter({ seed: 42 });
+    const b = new SimulatorAdapter({ seed: 42 });
+    const c = new SimulatorAdapter({ seed: 43 });
+
+    const at = 20 * 60000;
+    assert.deepStrictEqual(
+      a.flightsAt(at, CIRCLE).map(f => [f.callsign, f.latitude]),
+      b.flightsAt(at, CIRCLE).map(f => [f.callsign, f.latitude])
+    );
+    assert.notDeepStrictEqual(
+      sampleHour(a).flat().map(f => f.callsign),
+      sampleHour(c).flat().map(f => f.callsign)
+    );
+  });
+
+  it('keeps aircraft inside the area and moving along their track', function() {
+    const adapter = new SimulatorAdapter({ seed: 7, scenario: 'busy-approach' });
+    const first = adapter.flightsAt(30 * 60000, CIRCLE);
+    const later = adapter.flightsAt(30 * 60000 + 10000, CIRCLE);
+    assert.ok(first.length > 0, 'expected traffic on a busy approach');
+
+    for (const flight of first) {
+      assert.ok(distanceMeters(CIRCLE.center.lat, CIRCLE.center.lon, flight.latitude, flight.longitude) <= CIRCLE.radiusM);
+      assert.ok(flight.verticalRate < 0, 'approaches descend');
+
+      const next = later.find(f => f.id === flight.id);
+      if (!next) continue;
+      const moved = distanceMeters(flight.latitude, flight.longitude, next.latitude, next.longitude);
+      assert.ok(Math.abs(moved - flight.velocity * 10) < 5, `moved ${moved}m in 10s at ${flight.velocity}m/s`);
+      assert.ok(next.altitude < flight.altitude);
+    }
+  });
+
+  it('draws callsigns and types from the airline tables', function() {
+    const adapter = new SimulatorAdapter({ seed: 3, scenario: 'busy-approach' });
+    const flights = sampleHour(adapter).flat();
+
+    for (const flight of flights) {
+      assert.match(flight.callsign, /^[A-Z0-9]{3}\d{1,4}$/);
+      assert.strictEqual(flight.airline, flight.callsign.slice(0, 3));
+      assert.match(flight.aircraft, /^[A-Z0-9]{3,4}$/);
+    }
+    assert.ok(flights.some(f => f.callsign.startsWith('QFA') || f.callsign.startsWith('BAW') || f.callsign.startsWith('UAL')));
+  });
+
+  it('flies a single aircraft over the middle of the area', function() {
+    const adapter = new SimulatorAdapter({ scenario: 'single-flyover' });
+    const ids = new Set(sampleHour(adapter).flat().map(f => f.id));
+    assert.strictEqual(ids.size, 1);
+
+    const closest = Math.min(...sampleHour(adapter).flat().map(f =>
+      distanceMeters(CIRCLE.center.lat, CIRCLE.center.lon, f.latitude, f.longitude)));
+    assert.ok(closest < 2500, `closest approach ${closest}m`);
+  });
+
+  it('keeps the night sky mostly empty', function() {
+    const adapter = new SimulatorAdapter({ seed: 1, scenario: 'empty-night' });
+    const samples = sampleHour(adapter);
+    const empty = samples.filter(flights => flights.length === 0).length;
+    assert.ok(empty / samples.length > 0.9);
+  });
+
+  it('squawks 7700 in the emergency scenario', function() {
+    const adapter = new SimulatorAdapter({ seed: 5, scenario: 'emergency-squawk' });
+    const flights = sampleHour(adapter).flat();
+    assert.ok(flights.some(f => f.squawk === '7700'));
+    assert.ok(flights.every(f => /^[0-7]{4}$/.test(f.squawk)));
+  });
+
+  it('produces flights normalizeFlightData accepts', async function() {
+    const adapter = new SimulatorAdapter({ seed: 7, scenario: 'busy-approach' });
+    adapter.startedAt = Date.now() - 30 * 60000;
+
+    const normalized = normalizeFlightData(await adapter.getFlightsInArea(-27.39, 153.11, 10));
+    assert.strictEqual(normalized.source, 'simulator');
+    assert.ok(normalized.flights.length > 0);
+    assert.ok(['descending', 'approaching'].includes(normalized.flights[0].status));
+  });
+
+  it('rejects unknown scenarios in config validation', function() {
+    assert.strictEqual(validateProviderConfig('simulator', { simulator: { scenario: 'storm' } }).valid, false);
+    assert.strictEqual(validateProviderConfig('simulator', { simulator: { scenario: 'empty-night' } }).valid, true);
+  });
+});
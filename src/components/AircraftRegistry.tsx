@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+type Airframe = {
+  icao24: string;
+  registration?: string | null;
+  typeCode?: string | null;
+  operator?: string | null;
+  built?: number | null;
+};
+
+type RegistryPage = {
+  aircraft: Airframe[];
+  total: number;
+};
+
+const PAGE_SIZE = 25;
+
+const emptyForm = {
+  icao24: '',
+  registration: '',
+  typeCode: '',
+  operator: '',
+  built: ''
+};
+
+interface AircraftRegistryProps {
+  authHeaders: Record<string, string>;
+}
+
+// Admin screen for the offline aircraft registry: CSV import plus per-airframe edits
+const AircraftRegistry = ({ authHeaders }: AircraftRegistryProps) => {
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(0);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState('');
+
+  const { data, refetch } = useQuery({
+    queryKey: ['admin-aircraft', authHeaders.Authorization, search, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ search, limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+      const response = await fetch(`/api/aircraft?${params}`, { headers: authHeaders });
+      if (!response.ok) throw new Error('Failed to load aircraft registry');
+      return response.json() as Promise<RegistryPage>;
+    }
+  });
+
+  const total = data?.total || 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleEdit = (airframe: Airframe) => {
+    setForm({
+      icao24: airframe.icao24,
+      registration: airframe.registration || '',
+      typeCode: airframe.typeCode || '',
+      operator: airframe.operator || '',
+      built: airframe.built != null ? String(airframe.built) : ''
+    });
+  };
+
+  const handleSave = async () => {
+    const icao24 = form.icao24.trim().toLowerCase();
+    if (!/^[0-9a-f]{6}$/.test(icao24)) {
+      setError('Enter the six-digit hex ICAO24 address');
+      return;
+    }
+    setError('');
+
+    const response = await fetch(`/api/aircraft/${icao24}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders
+      },
+      body: JSON.stringify({
+        registration: form.registration,
+        typeCode: form.typeCode,
+        operator: form.operator,
+        built: form.built
+      })
+    });
+
+    if (!response.ok) {
+      setError('Failed to save aircraft');
+      return;
+    }
+
+    setForm(emptyForm);
+    await refetch();
+  };
+
+  const handleDelete = async (icao24: string) => {
+    const response = await fetch(`/api/aircraft/${icao24}`, {
+      method: 'DELETE',
+      headers: authHeaders
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete aircraft');
+    }
+
+    await refetch();
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setImporting(true);
+    setImportResult('');
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/aircraft/import', {
+        method: 'POST',
+        headers: authHeaders,
+        body: formData
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setImportResult(result.error || 'Import failed');
+        return;
+      }
+      setImportResult(`Imported ${result.imported.toLocaleString()} aircraft (${result.skipped.toLocaleString()} rows skipped)`);
+      setFile(null);
+      await refetch();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <section className="card-glass rounded-3xl p-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold">Aircraft registry</h2>
+          <p className="text-muted-foreground mt-1 text-sm">
+            Registration, type, operator and year built by ICAO24 address, used when the provider does not report them.
+          </p>
+        </div>
+        <span className="text-sm text-muted-foreground">{total.toLocaleString()} aircraft</span>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm text-muted-foreground">
+          Import CSV (columns icao24, registration, typecode, operator, built; the OpenSky aircraft database works as-is)
+        </label>
+        <div className="flex flex-col md:flex-row gap-3 md:items-center">
+          <Input type="file" accept=".csv,text/csv" onChange={(event) => setFile(event.target.files?.[0] || null)} />
+          <Button onClick={handleImport} disabled={!file || importing}>
+            {importing ? 'Importing...' : 'Import'}
+          </Button>
+        </div>
+        {importResult && <p className="text-sm text-muted-foreground">{importResult}</p>}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm text-muted-foreground">ICAO24</label>
+          <Input placeholder="7c6b2d" value={form.icao24} onChange={(event) => updateField('icao24', event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-muted-foreground">Registration</label>
+          <Input placeholder="VH-VXA" value={form.registration} onChange={(event) => updateField('registration', event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-muted-foreground">Type code</label>
+          <Input placeholder="B738" value={form.typeCode} onChange={(event) => updateField('typeCode', event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-muted-foreground">Operator</label>
+          <Input value={form.operator} onChange={(event) => updateField('operator', event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-muted-foreground">Year built</label>
+          <Input value={form.built} onChange={(event) => updateField('built', event.target.value)} />
+        </div>
+      </div>
+      <div className="flex items-center gap-3">
+        <Button onClick={handleSave}>Save aircraft</Button>
+        {form.icao24 && <Button variant="ghost" onClick={() => setForm(emptyForm)}>Clear</Button>}
+        {error && <p className="text-sm text-aviation-red">{error}</p>}
+      </div>
+
+      <Input
+        placeholder="Search address, registration, type or operator"
+        value={search}
+        onChange={(event) => {
+          setSearch(event.target.value);
+          setPage(0);
+        }}
+      />
+
+      {(data?.aircraft || []).length === 0 ? (
+        <p className="text-muted-foreground">No aircraft found.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>ICAO24</TableHead>
+              <TableHead>Registration</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Operator</TableHead>
+              <TableHead>Built</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(data?.aircraft || []).map((airframe) => (
+              <TableRow key={airframe.icao24}>
+                <TableCell className="font-mono">{airframe.icao24}</TableCell>
+                <TableCell className="font-mono">{airframe.registration}</TableCell>
+                <TableCell className="font-mono">{airframe.typeCode}</TableCell>
+                <TableCell>{airframe.operator}</TableCell>
+                <TableCell>{airframe.built}</TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button variant="secondary" size="sm" onClick={() => handleEdit(airframe)}>Edit</Button>
+                  <Button variant="destructive" size="sm" onClick={() => handleDelete(airframe.icao24)}>Delete</Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-3">
+          <Button variant="secondary" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>Previous</Button>
+          <span className="text-sm text-muted-foreground">Page {page + 1} of {pageCount}</span>
+          <Button variant="secondary" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>Next</Button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default AircraftRegistry;
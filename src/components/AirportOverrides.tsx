@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+type AirportOverride = {
+  code: string;
+  icao?: string | null;
+  iata?: string | null;
+  name?: string | null;
+  city?: string | null;
+  country?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  timezone?: string | null;
+};
+
+const emptyForm = {
+  code: '',
+  name: '',
+  city: '',
+  country: '',
+  latitude: '',
+  longitude: '',
+  timezone: ''
+};
+
+interface AirportOverridesProps {
+  authHeaders: Record<string, string>;
+}
+
+// Admin table of airports missing from the bundled dataset (or corrected locally)
+const AirportOverrides = ({ authHeaders }: AirportOverridesProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState('');
+
+  const { data: overrides, refetch } = useQuery({
+    queryKey: ['admin-airport-overrides', authHeaders.Authorization],
+    queryFn: async () => {
+      const response = await fetch('/api/airports/overrides', { headers: authHeaders });
+      if (!response.ok) throw new Error('Failed to load airport overrides');
+      return response.json() as Promise<AirportOverride[]>;
+    }
+  });
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleEdit = (override: AirportOverride) => {
+    setForm({
+      code: override.code,
+      name: override.name || '',
+      city: override.city || '',
+      country: override.country || '',
+      latitude: override.latitude != null ? String(override.latitude) : '',
+      longitude: override.longitude != null ? String(override.longitude) : '',
+      timezone: override.timezone || ''
+    });
+  };
+
+  const handleSave = async () => {
+    const code = form.code.trim().toUpperCase();
+    if (!/^[A-Z0-9]{3,4}$/.test(code)) {
+      setError('Enter a 3-letter IATA or 4-letter ICAO code');
+      return;
+    }
+    setError('');
+
+    const response = await fetch(`/api/airports/overrides/${code}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders
+      },
+      body: JSON.stringify({
+        name: form.name,
+        city: form.city,
+        country: form.country,
+        latitude: form.latitude ? Number(form.latitude) : null,
+        longitude: form.longitude ? Number(form.longitude) : null,
+        timezone: form.timezone
+      })
+    });
+
+    if (!response.ok) {
+      setError('Failed to save airport');
+      return;
+    }
+
+    setForm(emptyForm);
+    await refetch();
+  };
+
+  const handleDelete = async (code: string) => {
+    const response = await fetch(`/api/airports/overrides/${code}`, {
+      method: 'DELETE',
+      headers: authHeaders
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete airport override');
+    }
+
+    await refetch();
+  };
+
+  return (
+    <section className="card-glass rounded-3xl p-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold">Airports</h2>
+          <p className="text-muted-foreground mt-1 text-sm">
+            Add private airfields or correct names shown on flight cards. Entries take precedence over the built-in airport list.
+          </p>
+        </div>
+        <Button onClick={handleSave}>Save airport</Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm text-muted-foreground">Code (IATA or ICAO)</label>
+          <Input placeholder="YXPV" value={form.code} onChange={(event) => updateField('code', event.target.value)} />
+        </div>
+        <div className="space-y-2 md:col-span-3">
+          <label className="text-sm text-muted-foreground">Name</label>
+          <Input value={form.name} onChange={(event) => updateField('name', event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-muted-foreground">City</label>
+          <Input value={form.city} onChange={(event) => updateField('city', event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-muted-foreground">Country</label>
+          <Input value={form.country} onChange={(event) => updateField('country', event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-muted-foreground">Latitude</label>
+          <Input value={form.latitude} onChange={(event) => updateField('latitude', event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-muted-foreground">Longitude</label>
+          <Input value={form.longitude} onChange={(event) => updateField('longitude', event.target.value)} />
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <label className="text-sm text-muted-foreground">Timezone</label>
+          <Input placeholder="Australia/Brisbane" value={form.timezone} onChange={(event) => updateField('timezone', event.target.value)} />
+        </div>
+      </div>
+      {error && <p className="text-sm text-aviation-red">{error}</p>}
+
+      {(overrides || []).length === 0 ? (
+        <p className="text-muted-foreground">No airport overrides yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>City</TableHead>
+              <TableHead>Country</TableHead>
+              <TableHead>Timezone</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(overrides || []).map((override) => (
+              <TableRow key={override.code}>
+                <TableCell className="font-mono">{override.code}</TableCell>
+                <TableCell>{override.name}</TableCell>
+                <TableCell>{override.city}</TableCell>
+                <TableCell>{override.country}</TableCell>
+                <TableCell>{override.timezone}</TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button variant="secondary" size="sm" onClick={() => handleEdit(override)}>Edit</Button>
+                  <Button variant="destructive" size="sm" onClick={() => handleDelete(override.code)}>Delete</Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </section>
+  );
+};
+
+export default AirportOverrides;
@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from 'react';
+import mapboxgl from 'mapbox-gl';
+import 'mapbox-gl/dist/mapbox-gl.css';
+
+import { setDensityLayer } from '@/lib/densityLayer';
+import { TrafficDensity } from '@/types/flight';
+
+const circleSourceId = 'selection-circle';
+const circleFillId = 'selection-circle-fill';
+const circleOutlineId = 'selection-circle-outline';
+
+const EARTH_RADIUS_KM = 6371.0088;
+const CIRCLE_STEPS = 96;
+
+// Geodesic circle, so the drawn shape matches the backend's great-circle distance filter
+const circleToFeature = (latitude: number, longitude: number, radiusKm: number): GeoJSON.Feature<GeoJSON.Polygon> => {
+  const lat1 = (latitude * Math.PI) / 180;
+  const lon1 = (longitude * Math.PI) / 180;
+  const angular = radiusKm / EARTH_RADIUS_KM;
+  const ring = Array.from({ length: CIRCLE_STEPS + 1 }, (_, step) => {
+    const bearing = (2 * Math.PI * step) / CIRCLE_STEPS;
+    const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing));
+    const lon2 = lon1 + Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+    return [(lon2 * 180) / Math.PI, (lat2 * 180) / Math.PI];
+  });
+  return { type: 'Feature', geometry: { type: 'Polygon', coordinates: [ring] }, properties: {} };
+};
+
+interface CircleAreaEditorProps {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+  onCenterChange: (latitude: number, longitude: number) => void;
+  mapboxToken?: string;
+  density?: TrafficDensity | null; // traffic heatmap drawn under the circle
+}
+
+// Mapbox view of the circle location: drag the centre marker to move it, the radius comes from the form
+const CircleAreaEditor = ({ latitude, longitude, radiusKm, onCenterChange, mapboxToken, density }: CircleAreaEditorProps) => {
+  const mapContainerRef = useRef<HTMLDivElement | null>(null);
+  const mapRef = useRef<mapboxgl.Map | null>(null);
+  const markerRef = useRef<mapboxgl.Marker | null>(null);
+  const onCenterChangeRef = useRef(onCenterChange);
+  const circleRef = useRef({ latitude, longitude, radiusKm });
+  const [mapReady, setMapReady] = useState(false);
+
+  const valid = Number.isFinite(latitude) && Number.isFinite(longitude) && radiusKm > 0;
+
+  useEffect(() => {
+    onCenterChangeRef.current = onCenterChange;
+    circleRef.current = { latitude, longitude, radiusKm };
+  });
+
+  useEffect(() => {
+    if (!mapboxToken || !mapContainerRef.current || mapRef.current) return;
+
+    mapboxgl.accessToken = mapboxToken;
+    const initial = circleRef.current;
+    const hasCenter = Number.isFinite(initial.latitude) && Number.isFinite(initial.longitude);
+    const map = new mapboxgl.Map({
+      container: mapContainerRef.current,
+      style: 'mapbox://styles/mapbox/dark-v11',
+      center: hasCenter ? [initial.longitude, initial.latitude] : [-122.45, 37.76],
+      zoom: 10
+    });
+    mapRef.current = map;
+
+    const initializeLayers = () => {
+      if (map.getSource(circleSourceId)) return;
+      map.addSource(circleSourceId, { type: 'geojson', data: { type: 'FeatureCollection', features: [] } });
+      map.addLayer({
+        id: circleFillId,
+        type: 'fill',
+        source: circleSourceId,
+        paint: { 'fill-color': '#38bdf8', 'fill-opacity': 0.15 }
+      });
+      map.addLayer({
+        id: circleOutlineId,
+        type: 'line',
+        source: circleSourceId,
+        paint: { 'line-color': '#38bdf8', 'line-width': 2 }
+      });
+      setMapReady(true);
+    };
+
+    map.on('load', initializeLayers);
+    map.on('styledata', initializeLayers);
+
+    const markerEl = document.createElement('div');
+    markerEl.className = 'w-3 h-3 rounded-full bg-aviation-amber shadow-[0_0_10px_rgba(255,186,73,0.8)] cursor-move';
+    const marker = new mapboxgl.Marker({ element: markerEl, draggable: true });
+    marker.on('dragend', () => {
+      const { lng, lat } = marker.getLngLat();
+      onCenterChangeRef.current(lat, lng);
+    });
+    markerRef.current = marker;
+
+    return () => {
+      marker.remove();
+      markerRef.current = null;
+      map.remove();
+      mapRef.current = null;
+      setMapReady(false);
+    };
+  }, [mapboxToken]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const marker = markerRef.current;
+    if (!map || !marker || !mapReady) return;
+
+    const source = map.getSource(circleSourceId) as mapboxgl.GeoJSONSource | undefined;
+    if (!valid) {
+      source?.setData({ type: 'FeatureCollection', features: [] });
+      marker.remove();
+      return;
+    }
+
+    const feature = circleToFeature(latitude, longitude, radiusKm);
+    source?.setData(feature);
+    marker.setLngLat([longitude, latitude]).addTo(map);
+
+    const bounds = new mapboxgl.LngLatBounds();
+    feature.geometry.coordinates[0].forEach((point) => bounds.extend(point as [number, number]));
+    map.fitBounds(bounds, { padding: 40 });
+  }, [latitude, longitude, radiusKm, valid, mapReady]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    setDensityLayer(map, density ?? null, circleFillId);
+  }, [density, mapReady]);
+
+  if (!mapboxToken) {
+    return <p className="text-sm text-aviation-red">Missing Mapbox token. Set VITE_MAPBOX_TOKEN in .env.</p>;
+  }
+
+  return (
+    <div className="relative h-80 rounded-2xl overflow-hidden border border-border/60">
+      <div ref={mapContainerRef} className="absolute inset-0" />
+    </div>
+  );
+};
+
+export default CircleAreaEditor;
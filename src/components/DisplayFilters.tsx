@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+type FilterRules = {
+  minAltitude: number | null;
+  maxAltitude: number | null;
+  minSpeed: number | null;
+  maxSpeed: number | null;
+  excludeCategories: string[];
+  includeAirlines: string[];
+  excludeAirlines: string[];
+  includeTypes: string[];
+  excludeTypes: string[];
+  hiddenRegistrations: string[];
+};
+
+type FilterResponse = {
+  filters: FilterRules;
+  categories: string[];
+  filtered: Record<string, number>;
+};
+
+type NumberRule = 'minAltitude' | 'maxAltitude' | 'minSpeed' | 'maxSpeed';
+type ListRule = 'includeAirlines' | 'excludeAirlines' | 'includeTypes' | 'excludeTypes' | 'hiddenRegistrations';
+
+const NUMBER_FIELDS: { rule: NumberRule; label: string; placeholder: string }[] = [
+  { rule: 'minAltitude', label: 'Minimum altitude (ft)', placeholder: '1000' },
+  { rule: 'maxAltitude', label: 'Maximum altitude (ft)', placeholder: '40000' },
+  { rule: 'minSpeed', label: 'Minimum speed (kt)', placeholder: '60' },
+  { rule: 'maxSpeed', label: 'Maximum speed (kt)', placeholder: '600' }
+];
+
+const LIST_FIELDS: { rule: ListRule; label: string; placeholder: string }[] = [
+  { rule: 'includeAirlines', label: 'Only these airlines', placeholder: 'QF, VA' },
+  { rule: 'excludeAirlines', label: 'Hide these airlines', placeholder: 'JST' },
+  { rule: 'includeTypes', label: 'Only these aircraft types', placeholder: 'A388, B789' },
+  { rule: 'excludeTypes', label: 'Hide these aircraft types', placeholder: 'C172' },
+  { rule: 'hiddenRegistrations', label: 'Hidden registrations', placeholder: 'VH-ABC' }
+];
+
+const RULE_LABELS: Record<string, string> = {
+  hiddenRegistrations: 'Hidden registrations',
+  minAltitude: 'Below minimum altitude',
+  maxAltitude: 'Above maximum altitude',
+  minSpeed: 'Below minimum speed',
+  maxSpeed: 'Above maximum speed',
+  excludeCategories: 'Hidden categories',
+  includeAirlines: 'Not an included airline',
+  excludeAirlines: 'Hidden airlines',
+  includeTypes: 'Not an included type',
+  excludeTypes: 'Hidden types'
+};
+
+type FormState = Record<NumberRule | ListRule, string> & { excludeCategories: string[] };
+
+const toForm = (filters: FilterRules): FormState => ({
+  minAltitude: filters.minAltitude === null ? '' : String(filters.minAltitude),
+  maxAltitude: filters.maxAltitude === null ? '' : String(filters.maxAltitude),
+  minSpeed: filters.minSpeed === null ? '' : String(filters.minSpeed),
+  maxSpeed: filters.maxSpeed === null ? '' : String(filters.maxSpeed),
+  includeAirlines: filters.includeAirlines.join(', '),
+  excludeAirlines: filters.excludeAirlines.join(', '),
+  includeTypes: filters.includeTypes.join(', '),
+  excludeTypes: filters.excludeTypes.join(', '),
+  hiddenRegistrations: filters.hiddenRegistrations.join(', '),
+  excludeCategories: filters.excludeCategories
+});
+
+const emptyForm: FormState = {
+  minAltitude: '',
+  maxAltitude: '',
+  minSpeed: '',
+  maxSpeed: '',
+  includeAirlines: '',
+  excludeAirlines: '',
+  includeTypes: '',
+  excludeTypes: '',
+  hiddenRegistrations: '',
+  excludeCategories: []
+};
+
+interface DisplayFiltersProps {
+  authHeaders: Record<string, string>;
+}
+
+// Admin screen for the rules that hide flights from the display, with how many each rule hid in the latest poll
+const DisplayFilters = ({ authHeaders }: DisplayFiltersProps) => {
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const { data, refetch } = useQuery({
+    queryKey: ['admin-filters', authHeaders.Authorization],
+    queryFn: async () => {
+      const response = await fetch('/api/filters', { headers: authHeaders });
+      if (!response.ok) throw new Error('Failed to load display filters');
+      return response.json() as Promise<FilterResponse>;
+    },
+    refetchInterval: 15000
+  });
+
+  const savedFilters = data?.filters;
+  useEffect(() => {
+    if (savedFilters) {
+      setForm(toForm(savedFilters));
+    }
+  }, [savedFilters]);
+
+  const updateField = (field: NumberRule | ListRule, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const toggleCategory = (category: string) => {
+    setForm((prev) => ({
+      ...prev,
+      excludeCategories: prev.excludeCategories.includes(category)
+        ? prev.excludeCategories.filter((entry) => entry !== category)
+        : [...prev.excludeCategories, category]
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage('');
+    setError('');
+    try {
+      const response = await fetch('/api/filters', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders
+        },
+        body: JSON.stringify({ filters: form })
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(result.error || 'Failed to save display filters');
+        return;
+      }
+      setMessage('Display filters saved');
+      await refetch();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const filtered = Object.entries(data?.filtered || {});
+
+  return (
+    <section className="card-glass rounded-3xl p-8 space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold">Display Filters</h2>
+        <p className="text-muted-foreground mt-1 text-sm">
+          Hide flights from the display by altitude, speed, category, airline, type or registration. Leave a field empty to switch its rule off.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {NUMBER_FIELDS.map(({ rule, label, placeholder }) => (
+          <div key={rule} className="space-y-2">
+            <label className="text-sm text-muted-foreground">{label}</label>
+            <Input
+              type="number"
+              min={0}
+              placeholder={placeholder}
+              value={form[rule]}
+              onChange={(event) => updateField(rule, event.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm text-muted-foreground">Hidden categories</label>
+        <div className="flex flex-wrap gap-2">
+          {(data?.categories || []).map((category) => (
+            <Button
+              key={category}
+              size="sm"
+              variant={form.excludeCategories.includes(category) ? 'default' : 'secondary'}
+              onClick={() => toggleCategory(category)}
+            >
+              {category}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {LIST_FIELDS.map(({ rule, label, placeholder }) => (
+          <div key={rule} className="space-y-2">
+            <label className="text-sm text-muted-foreground">{label}</label>
+            <Input placeholder={placeholder} value={form[rule]} onChange={(event) => updateField(rule, event.target.value)} />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-4">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save filters'}
+        </Button>
+        {message && <span className="text-sm text-muted-foreground">{message}</span>}
+        {error && <span className="text-sm text-aviation-red">{error}</span>}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Hidden in the latest poll</h3>
+        {filtered.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rules are active.</p>
+        ) : (
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+            {filtered.map(([rule, count]) => (
+              <li key={rule} className="flex items-center justify-between rounded-xl bg-secondary/40 px-4 py-2">
+                <span className="text-muted-foreground">{RULE_LABELS[rule] || rule}</span>
+                <span className="font-mono">{count.toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default DisplayFilters;
@@ -1,8 +1,13 @@
-import { Plane, ArrowDown, ArrowRight, ArrowUp, Gauge, Minus, Mountain } from 'lucide-react';
+import { Plane, ArrowDown, ArrowRight, ArrowUp, Eye, Gauge, Minus, Mountain, Ruler } from 'lucide-react';
 
+import LookCompass from '@/components/LookCompass';
+import { useDeadReckoning } from '@/hooks/use-dead-reckoning';
 import { getAircraftName, getAirline, getLogoUrl, extractAirlineCode } from '@/lib/airlines';
 import { Flight } from '@/types/flight';
 
+// Within this ground distance (km) the closest approach reads as passing overhead
+const OVERHEAD_KM = 1;
+
 interface FlightCardProps {
   flight: Flight;
 }
@@ -10,9 +15,13 @@ interface FlightCardProps {
 const FlightCard = ({ flight }: FlightCardProps) => {
   const rawAirlineCode = flight.airline.iata || extractAirlineCode(flight.flightNumber);
   const airlineCode = rawAirlineCode.length === 2 ? rawAirlineCode : extractAirlineCode(flight.flightNumber);
-  const airline = getAirline(airlineCode);
+  // The backend resolves ICAO designators, so its name covers airlines missing from the local table
+  const resolvedName = flight.airline.name && flight.airline.name !== flight.airline.icao ? flight.airline.name : undefined;
+  const airline = getAirline(airlineCode, resolvedName);
   const airlineLogo = getLogoUrl(airlineCode);
   const aircraftName = getAircraftName(flight.aircraft.icao || flight.aircraft.type);
+  // Flown on between updates so the numbers keep moving
+  const position = useDeadReckoning(flight).position;
 
   const getVerticalIcon = () => {
     if (flight.position.verticalSpeed > 100) return <ArrowUp className="w-5 h-5 text-aviation-green" />;
@@ -21,13 +30,41 @@ const FlightCard = ({ flight }: FlightCardProps) => {
   };
 
   const formatAltitude = (alt: number) => {
-    return alt.toLocaleString() + ' ft';
+    return Math.round(alt).toLocaleString() + ' ft';
   };
 
   const formatSpeed = (speed: number) => {
-    return speed + ' kts';
+    return Math.round(speed) + ' kts';
+  };
+
+  const formatDistance = (km: number) => {
+    return km < 10 ? km.toFixed(1) : Math.round(km).toLocaleString();
+  };
+
+  const formatCountdown = (seconds: number) => {
+    if (seconds < 90) return `${Math.max(0, Math.round(seconds))} s`;
+    return `${Math.round(seconds / 60)} min`;
+  };
+
+  const getClosestApproach = () => {
+    const cpa = flight.observer?.cpa;
+    if (!cpa) return null;
+    if (cpa.distance <= OVERHEAD_KM) {
+      const remaining = (new Date(cpa.time).getTime() - Date.now()) / 1000;
+      return `Passing overhead in ${formatCountdown(remaining)}`;
+    }
+    const time = new Date(cpa.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return `Closest ${formatDistance(cpa.distance)} km at ${time}`;
   };
 
+  const getApproachLabel = () => {
+    if (flight.observer?.approaching === true) return 'approaching';
+    if (flight.observer?.approaching === false) return 'moving away';
+    return 'stationary';
+  };
+
+  const closestApproach = getClosestApproach();
+
   return (
     <div 
       className="w-full h-full flex flex-col justify-center items-center p-8 animate-fade-in"
@@ -82,6 +119,14 @@ const FlightCard = ({ flight }: FlightCardProps) => {
                 <span className="text-muted-foreground text-lg">
                   {flight.callsign}
                 </span>
+                {flight.airline.callsign && (
+                  <>
+                    <span className="text-muted-foreground text-lg">•</span>
+                    <span className="text-muted-foreground text-lg uppercase tracking-wider">
+                      {flight.airline.callsign}
+                    </span>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -102,11 +147,13 @@ const FlightCard = ({ flight }: FlightCardProps) => {
           <div className="flex items-center justify-between">
             {/* Departure */}
             <div className="text-center flex-1">
-              <div className="text-8xl font-bold text-foreground tracking-tighter mb-2">
-                {flight.departure.iata}
+              <div
+                className={`text-8xl font-bold tracking-tighter mb-2 ${flight.departure.iata ? 'text-foreground' : 'text-muted-foreground/40'}`}
+              >
+                {flight.departure.iata || '---'}
               </div>
               <div className="text-xl text-muted-foreground mb-1">
-                {flight.departure.city}
+                {flight.departure.iata ? flight.departure.city : 'Route unknown'}
               </div>
               {flight.departure.time && (
                 <div className="font-mono text-lg text-primary/70">
@@ -136,17 +183,21 @@ const FlightCard = ({ flight }: FlightCardProps) => {
                 {aircraftName}
               </div>
               <div className="font-mono text-xs text-muted-foreground/60">
-                {flight.aircraft.registration}
+                {[flight.aircraft.registration, flight.aircraft.built ? `Built ${flight.aircraft.built}` : null]
+                  .filter(Boolean)
+                  .join(' • ')}
               </div>
             </div>
 
             {/* Arrival */}
             <div className="text-center flex-1">
-              <div className="text-8xl font-bold text-foreground tracking-tighter mb-2">
-                {flight.arrival.iata}
+              <div
+                className={`text-8xl font-bold tracking-tighter mb-2 ${flight.arrival.iata ? 'text-foreground' : 'text-muted-foreground/40'}`}
+              >
+                {flight.arrival.iata || '---'}
               </div>
               <div className="text-xl text-muted-foreground mb-1">
-                {flight.arrival.city}
+                {flight.arrival.iata ? flight.arrival.city : 'Route unknown'}
               </div>
               {flight.arrival.time && (
                 <div className="font-mono text-lg text-aviation-green">
@@ -166,7 +217,7 @@ const FlightCard = ({ flight }: FlightCardProps) => {
               <span className="text-sm text-muted-foreground uppercase tracking-wider">Altitude</span>
             </div>
             <div className="font-mono text-4xl font-bold text-foreground">
-              {formatAltitude(flight.position.altitude)}
+              {formatAltitude(position.altitude)}
             </div>
           </div>
 
@@ -177,7 +228,7 @@ const FlightCard = ({ flight }: FlightCardProps) => {
               <span className="text-sm text-muted-foreground uppercase tracking-wider">Speed</span>
             </div>
             <div className="font-mono text-4xl font-bold text-foreground">
-              {formatSpeed(flight.position.speed)}
+              {formatSpeed(position.speed)}
             </div>
           </div>
 
@@ -204,6 +255,38 @@ const FlightCard = ({ flight }: FlightCardProps) => {
             </div>
           </div>
         </div>
+
+        {/* Where to look from home */}
+        {flight.observer && (
+          <div className="grid grid-cols-2 gap-4 mt-4">
+            <div className="card-glass rounded-2xl p-6 text-center" style={{ boxShadow: `0 0 30px -8px ${airline.color}30` }}>
+              <div className="flex items-center justify-center gap-2 mb-2">
+                <Eye className="w-5 h-5" style={{ color: `${airline.color}aa` }} />
+                <span className="text-sm text-muted-foreground uppercase tracking-wider">Look</span>
+              </div>
+              <LookCompass bearing={flight.observer.bearing} elevation={flight.observer.elevation} color={airline.color} />
+            </div>
+
+            <div className="card-glass rounded-2xl p-6 text-center" style={{ boxShadow: `0 0 30px -8px ${airline.color}30` }}>
+              <div className="flex items-center justify-center gap-2 mb-2">
+                <Ruler className="w-5 h-5" style={{ color: `${airline.color}aa` }} />
+                <span className="text-sm text-muted-foreground uppercase tracking-wider">Slant Range</span>
+              </div>
+              <div className="font-mono text-4xl font-bold text-foreground">
+                {formatDistance(flight.observer.slantRange)}
+                <span className="text-xl text-muted-foreground ml-1">km</span>
+              </div>
+              <div className="font-mono text-lg text-muted-foreground">
+                {formatDistance(flight.observer.distance)} km over ground • {getApproachLabel()}
+              </div>
+              {closestApproach && (
+                <div className="font-mono text-lg mt-1" style={{ color: airline.color }}>
+                  {closestApproach}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
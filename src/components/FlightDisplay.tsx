@@ -1,18 +1,24 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 
 import { samplePhotos } from '@/data/sampleFlights';
-import { Flight, Photo } from '@/types/flight';
+import { defaultRotation, RotationSettings, useFlightRotation } from '@/hooks/use-flight-rotation';
+import { useFlightStream } from '@/hooks/use-flight-stream';
+import { Flight, IncomingFlight, Photo } from '@/types/flight';
 
 import FlightCard from './FlightCard';
+import IncomingFlightCard from './IncomingFlightCard';
 import PhotoSlideshow from './PhotoSlideshow';
 
-type DisplayMode = 'flight' | 'photos';
+type DisplayMode = 'flight' | 'incoming' | 'photos';
 
 type FlightResponse = {
   flights: Flight[];
+  incoming?: IncomingFlight[]; // flights about to enter the area, soonest first
   source?: string;
   timestamp?: number;
+  fetchedAt?: string;
+  snapshotAge?: number; // ms since the backend poller fetched this snapshot
 };
 
 type PhotoApiItem = {
@@ -27,6 +33,7 @@ type SettingsResponse = {
     shuffle?: boolean;
     fitMode?: 'cover' | 'contain';
   };
+  rotation?: Partial<RotationSettings>;
 };
 
 const emptyThreshold = 3;
@@ -56,13 +63,15 @@ const fetchSettings = async (): Promise<SettingsResponse> => {
 };
 
 const FlightDisplay = () => {
-  const [currentFlight, setCurrentFlight] = useState<Flight | null>(null);
-  const [flightIndex, setFlightIndex] = useState(0);
   const [emptyStreak, setEmptyStreak] = useState(0);
 
-  const { data, isError, dataUpdatedAt } = useQuery({
+  // Pushed updates when the stream is up; polling only while it is down
+  const stream = useFlightStream();
+
+  const { data, isError: isPollError, dataUpdatedAt } = useQuery({
     queryKey: ['flights'],
     queryFn: fetchFlights,
+    enabled: !stream.connected,
     refetchInterval: (query) => {
       const flightCount = query.state.data?.flights?.length || 0;
       return flightCount > 0 ? 15000 : 30000;
@@ -84,7 +93,10 @@ const FlightDisplay = () => {
     refetchIntervalInBackground: true
   });
 
-  const flights = data?.flights ?? [];
+  const flights = stream.connected ? stream.flights : data?.flights ?? [];
+  const incoming = stream.connected ? stream.incoming : data?.incoming ?? [];
+  const isError = stream.connected ? stream.isError : isPollError;
+  const flightsUpdatedAt = stream.connected ? stream.updatedAt : dataUpdatedAt;
   const hasFlights = flights.length > 0;
   const photos: Photo[] = (photoData ?? samplePhotos).map((photo) => ({
     id: photo.id,
@@ -94,6 +106,12 @@ const FlightDisplay = () => {
   const slideshowInterval = settingsData?.slideshow?.interval ?? 10000;
   const slideshowShuffle = settingsData?.slideshow?.shuffle ?? true;
   const slideshowFit = settingsData?.slideshow?.fitMode ?? 'cover';
+  const rotationSettings = useMemo(
+    () => ({ ...defaultRotation, ...settingsData?.rotation }),
+    [settingsData?.rotation]
+  );
+  const rotation = useFlightRotation(flights, rotationSettings);
+  const currentFlight = rotation.current;
 
   useEffect(() => {
     if (isError) {
@@ -102,34 +120,12 @@ const FlightDisplay = () => {
     }
 
     setEmptyStreak((prev) => (hasFlights ? 0 : prev + 1));
-  }, [hasFlights, isError, dataUpdatedAt]);
-
-  useEffect(() => {
-    if (!hasFlights) {
-      setCurrentFlight(null);
-      return;
-    }
-
-    const safeIndex = Math.min(flightIndex, flights.length - 1);
-    setFlightIndex(safeIndex);
-    setCurrentFlight(flights[safeIndex]);
-  }, [flights, flightIndex, hasFlights]);
-
-  useEffect(() => {
-    if (!hasFlights || flights.length < 2) return;
-
-    const timer = setInterval(() => {
-      setFlightIndex((prev) => {
-        const next = (prev + 1) % flights.length;
-        setCurrentFlight(flights[next]);
-        return next;
-      });
-    }, 15000);
-
-    return () => clearInterval(timer);
-  }, [flights, hasFlights]);
+  }, [hasFlights, isError, flightsUpdatedAt]);
 
-  const mode: DisplayMode = hasFlights || emptyStreak < emptyThreshold ? 'flight' : 'photos';
+  // An incoming flight leaves the slideshow before it reaches the area
+  const mode: DisplayMode = hasFlights || (emptyStreak < emptyThreshold && incoming.length === 0)
+    ? 'flight'
+    : incoming.length > 0 ? 'incoming' : 'photos';
 
   return (
     <div className="w-full h-screen bg-background overflow-hidden relative">
@@ -143,6 +139,8 @@ const FlightDisplay = () => {
                Looking for flights overhead...
             </div>
           )
+        ) : mode === 'incoming' ? (
+          <IncomingFlightCard flight={incoming[0]} more={incoming.length - 1} key={incoming[0].id} />
         ) : (
           <PhotoSlideshow
             photos={photos}
@@ -154,17 +152,14 @@ const FlightDisplay = () => {
       </div>
 
       {/* Flight pagination dots (when in flight mode) */}
-      {mode === 'flight' && flights.length > 1 && (
+      {mode === 'flight' && rotation.flights.length > 1 && (
         <div className="absolute bottom-6 left-1/2 -translate-x-1/2 flex gap-2">
-          {flights.map((_, index) => (
+          {rotation.flights.map((flight) => (
             <button
-              key={index}
-              onClick={() => {
-                setFlightIndex(index);
-                setCurrentFlight(flights[index]);
-              }}
+              key={flight.id}
+              onClick={() => rotation.select(flight.id)}
               className={`w-2 h-2 rounded-full transition-all duration-300 ${
-                index === flightIndex
+                flight.id === currentFlight?.id
                   ? 'bg-primary w-8'
                   : 'bg-muted-foreground/30 hover:bg-muted-foreground/50'
               }`}
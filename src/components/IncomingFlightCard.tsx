@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { Plane } from 'lucide-react';
+
+import { getAircraftName, getAirline, extractAirlineCode } from '@/lib/airlines';
+import { compassPoint } from '@/lib/compass';
+import { IncomingFlight } from '@/types/flight';
+
+interface IncomingFlightCardProps {
+  flight: IncomingFlight;
+  more: number; // other incoming flights behind this one
+}
+
+const secondsUntil = (time: string) => Math.max(0, Math.round((new Date(time).getTime() - Date.now()) / 1000));
+
+// Teaser shown instead of the slideshow while a flight is about to enter the area
+const IncomingFlightCard = ({ flight, more }: IncomingFlightCardProps) => {
+  const [remaining, setRemaining] = useState(() => secondsUntil(flight.eta.time));
+
+  useEffect(() => {
+    setRemaining(secondsUntil(flight.eta.time));
+    const timer = setInterval(() => setRemaining(secondsUntil(flight.eta.time)), 1000);
+    return () => clearInterval(timer);
+  }, [flight.eta.time]);
+
+  const rawAirlineCode = flight.airline.iata || extractAirlineCode(flight.flightNumber);
+  const resolvedName = flight.airline.name && flight.airline.name !== flight.airline.icao ? flight.airline.name : undefined;
+  const airline = getAirline(rawAirlineCode, resolvedName);
+  const aircraftName = getAircraftName(flight.aircraft.icao || flight.aircraft.type);
+  const route = flight.departure.iata && flight.arrival.iata ? `${flight.departure.iata} → ${flight.arrival.iata}` : null;
+  const direction = flight.observer ? compassPoint(flight.observer.bearing) : null;
+
+  return (
+    <div className="w-full h-full flex flex-col justify-center items-center p-8 animate-fade-in">
+      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+        <div
+          className="w-[600px] h-[300px] rounded-full blur-[120px] animate-pulse-glow"
+          style={{ backgroundColor: `${airline.color}25` }}
+        />
+      </div>
+
+      <div
+        className="relative z-10 card-glass rounded-3xl px-16 py-12 text-center space-y-4"
+        style={{ boxShadow: `0 0 60px -10px ${airline.color}40` }}
+      >
+        <div className="flex items-center justify-center gap-3 text-muted-foreground uppercase tracking-wider text-sm">
+          <Plane className="w-5 h-5" style={{ color: airline.color }} />
+          Incoming
+        </div>
+        <div className="text-6xl font-bold text-foreground tracking-tight">
+          {remaining > 0 ? `Arriving in ${remaining} s` : 'Arriving now'}
+        </div>
+        <div className="text-3xl text-foreground">
+          {airline.name}
+          <span className="font-mono ml-3" style={{ color: airline.color }}>{flight.flightNumber}</span>
+        </div>
+        <div className="font-mono text-lg text-muted-foreground">
+          {[aircraftName, route, direction ? `from the ${direction}` : null].filter(Boolean).join(' • ')}
+        </div>
+        {more > 0 && (
+          <div className="text-sm text-muted-foreground/70">
+            +{more} more on the way
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IncomingFlightCard;
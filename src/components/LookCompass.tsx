@@ -0,0 +1,43 @@
+import { Navigation2 } from 'lucide-react';
+
+import { COMPASS_POINTS, compassPoint } from '@/lib/compass';
+
+interface LookCompassProps {
+  bearing: number;
+  elevation: number;
+  color: string;
+}
+
+// "Look here" dial: the needle points along the compass bearing from home, the label gives how high to look
+const LookCompass = ({ bearing, elevation, color }: LookCompassProps) => {
+  const belowHorizon = elevation < 0;
+
+  return (
+    <div className="flex items-center justify-center gap-4">
+      <div className="relative w-20 h-20 rounded-full border border-border/60 bg-background/40">
+        {COMPASS_POINTS.filter((_, index) => index % 2 === 0).map((point, index) => (
+          <span
+            key={point}
+            className="absolute inset-0 flex justify-center text-[10px] font-semibold text-muted-foreground pt-0.5"
+            style={{ transform: `rotate(${index * 90}deg)` }}
+          >
+            <span style={{ transform: `rotate(${-index * 90}deg)` }}>{point}</span>
+          </span>
+        ))}
+        <div className="absolute inset-0 flex items-center justify-center" style={{ transform: `rotate(${bearing}deg)` }}>
+          <Navigation2 className="w-8 h-8" style={{ color, fill: `${color}66` }} />
+        </div>
+      </div>
+      <div className="text-left">
+        <div className="font-mono text-4xl font-bold text-foreground">
+          {compassPoint(bearing)} {bearing}°
+        </div>
+        <div className={`font-mono text-lg ${belowHorizon ? 'text-muted-foreground/60' : 'text-muted-foreground'}`}>
+          {belowHorizon ? 'Below horizon' : `${elevation.toFixed(0)}° up`}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LookCompass;
@@ -0,0 +1,192 @@
+import { useEffect, useRef, useState } from 'react';
+import mapboxgl from 'mapbox-gl';
+import 'mapbox-gl/dist/mapbox-gl.css';
+
+import { Button } from '@/components/ui/button';
+import { setDensityLayer } from '@/lib/densityLayer';
+import { TrafficDensity } from '@/types/flight';
+
+export type PolygonVertex = {
+  latitude: number;
+  longitude: number;
+};
+
+const polygonSourceId = 'selection-polygon';
+const polygonFillId = 'selection-polygon-fill';
+const polygonOutlineId = 'selection-polygon-outline';
+
+const verticesToFeature = (vertices: PolygonVertex[]): GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.LineString> => {
+  const ring = vertices.map((vertex) => [vertex.longitude, vertex.latitude]);
+  if (ring.length < 3) {
+    return { type: 'Feature', geometry: { type: 'LineString', coordinates: ring }, properties: {} };
+  }
+  return { type: 'Feature', geometry: { type: 'Polygon', coordinates: [[...ring, ring[0]]] }, properties: {} };
+};
+
+interface PolygonAreaEditorProps {
+  vertices: PolygonVertex[];
+  onChange: (vertices: PolygonVertex[]) => void;
+  mapboxToken?: string;
+  focus?: [number, number] | null; // [lng, lat] to fly to, e.g. an address search result
+  density?: TrafficDensity | null; // traffic heatmap drawn under the polygon
+}
+
+// Mapbox editor for polygon areas: click to add vertices, drag to move them, right-click to delete
+const PolygonAreaEditor = ({ vertices, onChange, mapboxToken, focus, density }: PolygonAreaEditorProps) => {
+  const mapContainerRef = useRef<HTMLDivElement | null>(null);
+  const mapRef = useRef<mapboxgl.Map | null>(null);
+  const markersRef = useRef<mapboxgl.Marker[]>([]);
+  const verticesRef = useRef(vertices);
+  const onChangeRef = useRef(onChange);
+  const drawingRef = useRef(false);
+  const [drawing, setDrawing] = useState(false);
+  const [mapReady, setMapReady] = useState(false);
+
+  useEffect(() => {
+    verticesRef.current = vertices;
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    drawingRef.current = drawing;
+    if (mapRef.current) {
+      mapRef.current.getCanvas().style.cursor = drawing ? 'crosshair' : '';
+    }
+  }, [drawing]);
+
+  useEffect(() => {
+    if (!mapboxToken || !mapContainerRef.current || mapRef.current) return;
+
+    mapboxgl.accessToken = mapboxToken;
+    const initial = verticesRef.current;
+    const map = new mapboxgl.Map({
+      container: mapContainerRef.current,
+      style: 'mapbox://styles/mapbox/dark-v11',
+      center: initial.length > 0 ? [initial[0].longitude, initial[0].latitude] : [-122.45, 37.76],
+      zoom: 10
+    });
+    mapRef.current = map;
+
+    const initializeLayers = () => {
+      if (map.getSource(polygonSourceId)) return;
+      map.addSource(polygonSourceId, { type: 'geojson', data: verticesToFeature(verticesRef.current) });
+      map.addLayer({
+        id: polygonFillId,
+        type: 'fill',
+        source: polygonSourceId,
+        paint: { 'fill-color': '#38bdf8', 'fill-opacity': 0.15 }
+      });
+      map.addLayer({
+        id: polygonOutlineId,
+        type: 'line',
+        source: polygonSourceId,
+        paint: { 'line-color': '#38bdf8', 'line-width': 2 }
+      });
+      setMapReady(true);
+    };
+
+    map.on('load', () => {
+      initializeLayers();
+      const current = verticesRef.current;
+      if (current.length > 1) {
+        const bounds = new mapboxgl.LngLatBounds();
+        current.forEach((vertex) => bounds.extend([vertex.longitude, vertex.latitude]));
+        map.fitBounds(bounds, { padding: 40, animate: false });
+      }
+    });
+    map.on('styledata', initializeLayers);
+
+    map.on('click', (event) => {
+      if (!drawingRef.current) return;
+      onChangeRef.current([...verticesRef.current, { latitude: event.lngLat.lat, longitude: event.lngLat.lng }]);
+    });
+
+    return () => {
+      markersRef.current.forEach((marker) => marker.remove());
+      markersRef.current = [];
+      map.remove();
+      mapRef.current = null;
+      setMapReady(false);
+    };
+  }, [mapboxToken]);
+
+  // Redraw the shape and one draggable marker per vertex whenever the vertices change
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+
+    const source = map.getSource(polygonSourceId) as mapboxgl.GeoJSONSource | undefined;
+    source?.setData(verticesToFeature(vertices));
+
+    markersRef.current.forEach((marker) => marker.remove());
+    markersRef.current = vertices.map((vertex, index) => {
+      const markerEl = document.createElement('div');
+      markerEl.className = 'w-3 h-3 rounded-full bg-aviation-amber shadow-[0_0_10px_rgba(255,186,73,0.8)] cursor-move';
+      markerEl.title = 'Drag to move, right-click to delete';
+      markerEl.addEventListener('contextmenu', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        onChangeRef.current(verticesRef.current.filter((_, position) => position !== index));
+      });
+
+      const marker = new mapboxgl.Marker({ element: markerEl, draggable: true })
+        .setLngLat([vertex.longitude, vertex.latitude])
+        .addTo(map);
+      marker.on('dragend', () => {
+        const { lng, lat } = marker.getLngLat();
+        onChangeRef.current(verticesRef.current.map((existing, position) => (
+          position === index ? { latitude: lat, longitude: lng } : existing
+        )));
+      });
+      return marker;
+    });
+  }, [vertices, mapReady]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapReady) return;
+    setDensityLayer(map, density ?? null, polygonFillId);
+  }, [density, mapReady]);
+
+  useEffect(() => {
+    if (!focus || !mapRef.current) return;
+    mapRef.current.flyTo({ center: focus, zoom: 11 });
+  }, [focus]);
+
+  const handleDraw = () => {
+    onChange([]);
+    setDrawing(true);
+  };
+
+  const handleRemoveLast = () => {
+    onChange(vertices.slice(0, -1));
+  };
+
+  if (!mapboxToken) {
+    return <p className="text-sm text-aviation-red">Missing Mapbox token. Set VITE_MAPBOX_TOKEN in .env.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        {drawing ? (
+          <Button onClick={() => setDrawing(false)}>Finish polygon</Button>
+        ) : (
+          <Button variant="secondary" onClick={handleDraw}>Draw new polygon</Button>
+        )}
+        {!drawing && <Button variant="secondary" onClick={() => setDrawing(true)}>Add vertices</Button>}
+        <Button variant="secondary" onClick={handleRemoveLast} disabled={vertices.length === 0}>Remove last vertex</Button>
+        <span className="text-sm text-muted-foreground">
+          {drawing
+            ? 'Click the map to add vertices.'
+            : `${vertices.length} vertices. Drag a vertex to move it, right-click to delete it.`}
+        </span>
+      </div>
+      <div className="relative h-80 rounded-2xl overflow-hidden border border-border/60">
+        <div ref={mapContainerRef} className="absolute inset-0" />
+      </div>
+    </div>
+  );
+};
+
+export default PolygonAreaEditor;
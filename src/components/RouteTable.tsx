@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+type RouteEntry = {
+  callsign: string;
+  origin: string;
+  destination: string;
+  source?: string | null;
+  updatedAt?: string | null;
+};
+
+type RoutePage = {
+  routes: RouteEntry[];
+  total: number;
+};
+
+const PAGE_SIZE = 25;
+
+const emptyForm = {
+  callsign: '',
+  origin: '',
+  destination: ''
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  import: 'Imported',
+  manual: 'Manual',
+  flightradar24: 'Learned from FR24'
+};
+
+interface RouteTableProps {
+  authHeaders: Record<string, string>;
+}
+
+// Admin screen for the callsign to route table used when providers omit origin and destination
+const RouteTable = ({ authHeaders }: RouteTableProps) => {
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(0);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState('');
+
+  const { data, refetch } = useQuery({
+    queryKey: ['admin-routes', authHeaders.Authorization, search, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ search, limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+      const response = await fetch(`/api/routes?${params}`, { headers: authHeaders });
+      if (!response.ok) throw new Error('Failed to load routes');
+      return response.json() as Promise<RoutePage>;
+    }
+  });
+
+  const total = data?.total || 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    const callsign = form.callsign.trim().toUpperCase();
+    if (!callsign) {
+      setError('Enter a callsign');
+      return;
+    }
+    setError('');
+
+    const response = await fetch(`/api/routes/${encodeURIComponent(callsign)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders
+      },
+      body: JSON.stringify({ origin: form.origin, destination: form.destination })
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      setError(result.error || 'Failed to save route');
+      return;
+    }
+
+    setForm(emptyForm);
+    await refetch();
+  };
+
+  const handleDelete = async (callsign: string) => {
+    const response = await fetch(`/api/routes/${encodeURIComponent(callsign)}`, {
+      method: 'DELETE',
+      headers: authHeaders
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete route');
+    }
+
+    await refetch();
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setImporting(true);
+    setImportResult('');
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/routes/import', {
+        method: 'POST',
+        headers: authHeaders,
+        body: formData
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setImportResult(result.error || 'Import failed');
+        return;
+      }
+      setImportResult(`Imported ${result.imported.toLocaleString()} routes (${result.skipped.toLocaleString()} rows skipped)`);
+      setFile(null);
+      await refetch();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <section className="card-glass rounded-3xl p-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold">Routes</h2>
+          <p className="text-muted-foreground mt-1 text-sm">
+            Origin and destination by callsign, used when the provider does not report them. Routes seen in FlightRadar24 answers are added automatically.
+          </p>
+        </div>
+        <span className="text-sm text-muted-foreground">{total.toLocaleString()} routes</span>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm text-muted-foreground">
+          Import CSV (columns callsign, origin, destination, or the VRS standing data routes file)
+        </label>
+        <div className="flex flex-col md:flex-row gap-3 md:items-center">
+          <Input type="file" accept=".csv,text/csv" onChange={(event) => setFile(event.target.files?.[0] || null)} />
+          <Button onClick={handleImport} disabled={!file || importing}>
+            {importing ? 'Importing...' : 'Import'}
+          </Button>
+        </div>
+        {importResult && <p className="text-sm text-muted-foreground">{importResult}</p>}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 md:items-end">
+        <div className="space-y-2">
+          <label className="text-sm text-muted-foreground">Callsign</label>
+          <Input placeholder="QFA512" value={form.callsign} onChange={(event) => updateField('callsign', event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-muted-foreground">Origin</label>
+          <Input placeholder="SYD" value={form.origin} onChange={(event) => updateField('origin', event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-muted-foreground">Destination</label>
+          <Input placeholder="BNE" value={form.destination} onChange={(event) => updateField('destination', event.target.value)} />
+        </div>
+        <Button onClick={handleSave}>Save route</Button>
+      </div>
+      {error && <p className="text-sm text-aviation-red">{error}</p>}
+
+      <Input
+        placeholder="Search callsign or airport"
+        value={search}
+        onChange={(event) => {
+          setSearch(event.target.value);
+          setPage(0);
+        }}
+      />
+
+      {(data?.routes || []).length === 0 ? (
+        <p className="text-muted-foreground">No routes found.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Callsign</TableHead>
+              <TableHead>Origin</TableHead>
+              <TableHead>Destination</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(data?.routes || []).map((route) => (
+              <TableRow key={route.callsign}>
+                <TableCell className="font-mono">{route.callsign}</TableCell>
+                <TableCell className="font-mono">{route.origin}</TableCell>
+                <TableCell className="font-mono">{route.destination}</TableCell>
+                <TableCell>{SOURCE_LABELS[route.source || ''] || route.source}</TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setForm({ callsign: route.callsign, origin: route.origin, destination: route.destination })}
+                  >
+                    Edit
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => handleDelete(route.callsign)}>Delete</Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end gap-3">
+          <Button variant="secondary" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>Previous</Button>
+          <span className="text-sm text-muted-foreground">Page {page + 1} of {pageCount}</span>
+          <Button variant="secondary" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>Next</Button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RouteTable;
@@ -0,0 +1,159 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { getAircraftName, getAirline } from '@/lib/airlines';
+import { SightingDetail as SightingDetailData, TrackPoint } from '@/types/flight';
+
+const PLOT_SIZE = 240;
+const PLOT_PADDING = 12;
+
+const formatTime = (time: string) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return minutes > 0 ? `${minutes} min ${seconds} s` : `${seconds} s`;
+};
+
+const formatFeet = (feet: number | null | undefined) => (feet === null || feet === undefined ? '—' : `${feet.toLocaleString()} ft`);
+
+// Ground track scaled to fit the plot, north up
+const trackPath = (track: TrackPoint[]) => {
+  const midLatitude = track.reduce((sum, point) => sum + point.latitude, 0) / track.length;
+  const xs = track.map((point) => point.longitude * Math.cos((midLatitude * Math.PI) / 180));
+  const ys = track.map((point) => point.latitude);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX;
+  const spanY = Math.max(...ys) - minY;
+  const scale = (PLOT_SIZE - PLOT_PADDING * 2) / Math.max(spanX, spanY, 1e-6);
+  const offsetX = (PLOT_SIZE - spanX * scale) / 2;
+  const offsetY = (PLOT_SIZE - spanY * scale) / 2;
+  return track.map((_, index) => ({
+    x: offsetX + (xs[index] - minX) * scale,
+    y: PLOT_SIZE - (offsetY + (ys[index] - minY) * scale)
+  }));
+};
+
+// Altitude against time across the plot width
+const altitudePath = (track: TrackPoint[]) => {
+  const points = track.filter((point) => point.altitude !== null);
+  if (points.length < 2) return [];
+  const start = new Date(points[0].t).getTime();
+  const span = Math.max(new Date(points[points.length - 1].t).getTime() - start, 1);
+  const highest = Math.max(...points.map((point) => point.altitude as number), 1);
+  return points.map((point) => ({
+    x: PLOT_PADDING + ((new Date(point.t).getTime() - start) / span) * (PLOT_SIZE - PLOT_PADDING * 2),
+    y: PLOT_SIZE / 2 - PLOT_PADDING - ((point.altitude as number) / highest) * (PLOT_SIZE / 2 - PLOT_PADDING * 2)
+  }));
+};
+
+const toPoints = (points: { x: number; y: number }[]) => points.map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+
+interface SightingDetailProps {
+  sightingId: number | null;
+  onClose: () => void;
+}
+
+// Side panel with one past sighting, its telemetry summary and the positions it was seen at
+const SightingDetail = ({ sightingId, onClose }: SightingDetailProps) => {
+  const { data: sighting, isError } = useQuery({
+    queryKey: ['sighting', sightingId],
+    enabled: sightingId !== null,
+    queryFn: async () => {
+      const response = await fetch(`/api/history/${sightingId}`);
+      if (!response.ok) throw new Error('Failed to load sighting');
+      return response.json() as Promise<SightingDetailData>;
+    }
+  });
+
+  const track = sighting?.track || [];
+  const ground = track.length > 0 ? trackPath(track) : [];
+  const profile = altitudePath(track);
+  const altitudes = track.map((point) => point.altitude).filter((altitude): altitude is number => altitude !== null);
+  const speeds = track.map((point) => point.speed).filter((speed): speed is number => speed !== null);
+  const airline = sighting ? getAirline(sighting.airlineIata, sighting.airlineName || undefined) : null;
+
+  const summary = sighting ? [
+    { label: 'Seen', value: `${new Date(sighting.firstSeen).toLocaleString()} – ${formatTime(sighting.lastSeen)}` },
+    { label: 'In view', value: formatDuration(new Date(sighting.lastSeen).getTime() - new Date(sighting.firstSeen).getTime()) },
+    { label: 'Lowest', value: formatFeet(sighting.minAltitude) },
+    { label: 'Highest', value: formatFeet(altitudes.length > 0 ? Math.max(...altitudes) : null) },
+    { label: 'Top speed', value: speeds.length > 0 ? `${Math.max(...speeds)} kt` : '—' },
+    { label: 'Closest', value: sighting.cpaDistance !== null ? `${sighting.cpaDistance.toFixed(1)} km` : '—' },
+    { label: 'Route', value: sighting.origin || sighting.destination ? `${sighting.origin || '?'} → ${sighting.destination || '?'}` : '—' },
+    { label: 'Registration', value: sighting.registration || '—' },
+    { label: 'ICAO24', value: sighting.icao24 || '—' }
+  ] : [];
+
+  return (
+    <Sheet open={sightingId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-mono">{sighting ? sighting.flightNumber || sighting.callsign || sighting.icao24 : 'Sighting'}</SheetTitle>
+          <SheetDescription>
+            {sighting ? [airline?.name, getAircraftName(sighting.aircraftType)].filter(Boolean).join(' • ') : isError ? 'Failed to load sighting.' : 'Loading...'}
+          </SheetDescription>
+        </SheetHeader>
+
+        {sighting && (
+          <div className="space-y-6 mt-6">
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-3 text-sm">
+              {summary.map((item) => (
+                <div key={item.label}>
+                  <dt className="text-muted-foreground">{item.label}</dt>
+                  <dd className="font-mono">{item.value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            {ground.length > 0 && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">Ground track</p>
+                  <svg viewBox={`0 0 ${PLOT_SIZE} ${PLOT_SIZE}`} className="w-full rounded-xl bg-muted/30">
+                    <polyline points={toPoints(ground)} fill="none" stroke="hsl(var(--aviation-cyan))" strokeWidth={2} />
+                    <circle cx={ground[0].x} cy={ground[0].y} r={4} fill="hsl(var(--aviation-green))" />
+                    <circle cx={ground[ground.length - 1].x} cy={ground[ground.length - 1].y} r={4} fill="hsl(var(--aviation-red))" />
+                  </svg>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">Altitude</p>
+                  <svg viewBox={`0 0 ${PLOT_SIZE} ${PLOT_SIZE / 2}`} className="w-full rounded-xl bg-muted/30">
+                    {profile.length > 0 && (
+                      <polyline points={toPoints(profile)} fill="none" stroke="hsl(var(--aviation-amber))" strokeWidth={2} />
+                    )}
+                  </svg>
+                </div>
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead className="text-right">Altitude</TableHead>
+                  <TableHead className="text-right">Speed</TableHead>
+                  <TableHead className="text-right">Heading</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {track.map((point) => (
+                  <TableRow key={point.t}>
+                    <TableCell className="font-mono">{formatTime(point.t)}</TableCell>
+                    <TableCell className="font-mono text-right">{formatFeet(point.altitude)}</TableCell>
+                    <TableCell className="font-mono text-right">{point.speed !== null ? `${point.speed} kt` : '—'}</TableCell>
+                    <TableCell className="font-mono text-right">{point.heading !== null ? `${point.heading}°` : '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SightingDetail;
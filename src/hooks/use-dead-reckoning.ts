@@ -0,0 +1,58 @@
+import { useEffect, useLayoutEffect, useState } from 'react';
+
+import {
+  applyOffset,
+  easeWeight,
+  extrapolatePosition,
+  PositionOffset,
+  positionOffset,
+  zeroOffset
+} from '@/lib/deadReckoning';
+import { Flight } from '@/types/flight';
+
+// How often the estimate is refreshed on screen
+const TICK_MS = 250;
+// How long a correction takes to blend in after a new sample
+const EASE_MS = 2500;
+
+type Sample = {
+  flight: Flight;
+  receivedAt: number;
+  offset: PositionOffset;
+};
+
+const estimate = (sample: Sample, now: number) => {
+  const flown = extrapolatePosition(sample.flight.position, (now - sample.receivedAt) / 1000);
+  return applyOffset(flown, sample.offset, easeWeight(now - sample.receivedAt, EASE_MS));
+};
+
+/**
+ * The flight with its position dead-reckoned between updates.
+ * Each new sample is flown on from where the previous estimate had got to,
+ * so a correction eases in over EASE_MS instead of snapping.
+ */
+export function useDeadReckoning(flight: Flight): Flight {
+  const [now, setNow] = useState(() => Date.now());
+  const [sample, setSample] = useState<Sample>(() => ({ flight, receivedAt: Date.now(), offset: zeroOffset }));
+
+  // Take the new sample before paint, so a different aircraft never shows at the previous one's position
+  useLayoutEffect(() => {
+    const receivedAt = Date.now();
+    setSample((previous) => {
+      if (previous.flight === flight) return previous;
+      const sameAircraft = previous.flight.id === flight.id;
+      return {
+        flight,
+        receivedAt,
+        offset: sameAircraft ? positionOffset(estimate(previous, receivedAt), flight.position) : zeroOffset
+      };
+    });
+  }, [flight]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return { ...sample.flight, position: estimate(sample, Math.max(now, sample.receivedAt)) };
+}
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { Flight } from '@/types/flight';
+
+export type RotationOrder = 'proximity' | 'altitude' | 'newest' | 'rarity';
+
+export type DwellOverride = 'close' | 'rare';
+
+export type RotationSettings = {
+  order: RotationOrder;
+  dwell: number; // ms each flight stays on screen
+  dwellOverrides: Partial<Record<DwellOverride, number>>; // ms for close flights and rare types instead of `dwell`
+  preempt: boolean; // a new flight that ranks ahead of the current one takes over at once
+};
+
+export const defaultRotation: RotationSettings = {
+  order: 'proximity',
+  dwell: 15000,
+  dwellOverrides: {},
+  preempt: true
+};
+
+// A flight this close to home (km over the ground) gets the 'close' dwell
+export const CLOSE_DWELL_DISTANCE = 2;
+// An aircraft type this display has seen this many times or fewer gets the 'rare' dwell
+export const RARE_DWELL_SIGHTINGS = 3;
+
+type RotationContext = {
+  firstSeen: Map<string, number>;
+  sightings: Record<string, number>;
+};
+
+// Aircraft types seen by this display, kept across reloads for the rarity order
+const SIGHTINGS_KEY = 'flightTypeSightings';
+
+const loadSightings = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(SIGHTINGS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const typeKey = (flight: Flight) => (flight.aircraft.icao || flight.aircraft.type || '').toUpperCase();
+
+const rotationScore = (flight: Flight, order: RotationOrder, context: RotationContext) => {
+  switch (order) {
+    case 'altitude':
+      return flight.position.altitude;
+    case 'newest':
+      // Not recorded yet means it arrived in this very update
+      return -(context.firstSeen.get(flight.id) ?? Infinity);
+    case 'rarity':
+      return context.sightings[typeKey(flight)] ?? 0;
+    default:
+      return flight.observer?.distance ?? Infinity;
+  }
+};
+
+// Highest priority first; ties keep provider order
+export const orderFlights = (flights: Flight[], order: RotationOrder, context: RotationContext) => {
+  return [...flights].sort((a, b) => {
+    const diff = rotationScore(a, order, context) - rotationScore(b, order, context);
+    return Number.isNaN(diff) ? 0 : diff;
+  });
+};
+
+// How long a flight stays on screen: the longest override that applies, else the plain dwell
+export const flightDwell = (flight: Flight, settings: RotationSettings, sightings: Record<string, number>) => {
+  const overrides = settings.dwellOverrides ?? {};
+  const key = typeKey(flight);
+  const applicable = [
+    (flight.observer?.distance ?? Infinity) <= CLOSE_DWELL_DISTANCE ? overrides.close : undefined,
+    key && (sightings[key] ?? 0) <= RARE_DWELL_SIGHTINGS ? overrides.rare : undefined
+  ].filter((dwell): dwell is number => typeof dwell === 'number' && dwell > 0);
+  return applicable.length > 0 ? Math.max(...applicable) : settings.dwell;
+};
+
+/**
+ * Which flight the display shows, tracked by id so polls that reorder the list do not move the card.
+ * Each flight stays for `dwell` ms (or its override, see flightDwell), then the least recently shown flight follows (highest priority first).
+ */
+export function useFlightRotation(flights: Flight[], settings: RotationSettings) {
+  const firstSeen = useRef(new Map<string, number>());
+  const lastShown = useRef(new Map<string, number>());
+  const sightings = useRef<Record<string, number>>(loadSightings());
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [shownAt, setShownAt] = useState(0);
+
+  const ordered = useMemo(
+    () => orderFlights(flights, settings.order, { firstSeen: firstSeen.current, sightings: sightings.current }),
+    [flights, settings.order]
+  );
+
+  const show = useCallback((id: string) => {
+    const now = Date.now();
+    lastShown.current.set(id, now);
+    setCurrentId(id);
+    setShownAt(now);
+  }, []);
+
+  useEffect(() => {
+    const now = Date.now();
+    const present = new Set(ordered.map((flight) => flight.id));
+    const arrivals = ordered.filter((flight) => !firstSeen.current.has(flight.id));
+
+    for (const flight of arrivals) {
+      firstSeen.current.set(flight.id, now);
+      const key = typeKey(flight);
+      if (key) sightings.current[key] = (sightings.current[key] ?? 0) + 1;
+    }
+    if (arrivals.length > 0) {
+      localStorage.setItem(SIGHTINGS_KEY, JSON.stringify(sightings.current));
+    }
+    // A flight that leaves and comes back counts as a new arrival
+    for (const id of firstSeen.current.keys()) {
+      if (!present.has(id)) {
+        firstSeen.current.delete(id);
+        lastShown.current.delete(id);
+      }
+    }
+
+    if (ordered.length === 0) {
+      setCurrentId(null);
+      return;
+    }
+
+    const currentIndex = ordered.findIndex((flight) => flight.id === currentId);
+    if (currentIndex === -1) {
+      show(ordered[0].id);
+      return;
+    }
+    if (settings.preempt) {
+      const challenger = ordered.findIndex((flight) => arrivals.includes(flight));
+      if (challenger !== -1 && challenger < currentIndex) show(ordered[challenger].id);
+    }
+  }, [ordered, currentId, settings.preempt, show]);
+
+  const current = ordered.find((flight) => flight.id === currentId) ?? null;
+  const dwell = current ? flightDwell(current, settings, sightings.current) : settings.dwell;
+
+  useEffect(() => {
+    if (!currentId || ordered.length < 2) return;
+
+    const timer = setTimeout(() => {
+      const next = ordered
+        .filter((flight) => flight.id !== currentId)
+        .reduce((best, flight) =>
+          (lastShown.current.get(flight.id) ?? 0) < (lastShown.current.get(best.id) ?? 0) ? flight : best
+        );
+      show(next.id);
+    }, Math.max(0, shownAt + dwell - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [ordered, currentId, shownAt, dwell, show]);
+
+  return {
+    flights: ordered,
+    current,
+    select: show
+  };
+}
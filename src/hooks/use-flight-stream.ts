@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+
+import { Flight, IncomingFlight } from '@/types/flight';
+
+export type FlightSnapshot = {
+  flights: Flight[];
+  incoming?: IncomingFlight[]; // replaced whole on every diff
+  source?: string;
+  timestamp?: number;
+  fetchedAt?: string;
+};
+
+type FlightDiff = Omit<FlightSnapshot, 'flights'> & {
+  added: Flight[];
+  updated: Flight[];
+  removed: string[];
+};
+
+const RECONNECT_MIN_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+// Apply an added/updated/removed diff, keeping the existing flight order
+export const applyFlightDiff = (snapshot: FlightSnapshot | null, diff: FlightDiff): FlightSnapshot => {
+  const { added, updated, removed, ...meta } = diff;
+  const updates = new Map(updated.map((flight) => [flight.id, flight]));
+  const gone = new Set(removed);
+  const flights = (snapshot?.flights ?? [])
+    .filter((flight) => !gone.has(flight.id))
+    .map((flight) => updates.get(flight.id) ?? flight);
+
+  return { ...snapshot, ...meta, flights: [...flights, ...added] };
+};
+
+/**
+ * Live flight list pushed by the backend over Server-Sent Events.
+ * Reconnects with backoff; `connected` is false while the stream is down so
+ * callers can fall back to polling /api/flights/overhead.
+ */
+export function useFlightStream(url = '/api/flights/stream') {
+  const [snapshot, setSnapshot] = useState<FlightSnapshot | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [isError, setIsError] = useState(false);
+  const [updatedAt, setUpdatedAt] = useState(0);
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let delay = RECONNECT_MIN_DELAY;
+    let disposed = false;
+
+    const connect = () => {
+      source = new EventSource(url);
+
+      source.addEventListener('snapshot', (event) => {
+        setSnapshot(JSON.parse((event as MessageEvent).data));
+        setConnected(true);
+        setIsError(false);
+        setUpdatedAt(Date.now());
+        delay = RECONNECT_MIN_DELAY;
+      });
+
+      source.addEventListener('diff', (event) => {
+        const diff: FlightDiff = JSON.parse((event as MessageEvent).data);
+        setSnapshot((prev) => applyFlightDiff(prev, diff));
+        setIsError(false);
+        setUpdatedAt(Date.now());
+      });
+
+      source.addEventListener('flights-error', () => {
+        setIsError(true);
+        setUpdatedAt(Date.now());
+      });
+
+      // EventSource gives up on HTTP errors, so reconnect ourselves
+      source.onerror = () => {
+        source?.close();
+        setConnected(false);
+        if (disposed) return;
+        reconnectTimer = setTimeout(connect, delay);
+        delay = Math.min(delay * 2, RECONNECT_MAX_DELAY);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      source?.close();
+    };
+  }, [url]);
+
+  return {
+    flights: snapshot?.flights ?? [],
+    incoming: snapshot?.incoming ?? [],
+    source: snapshot?.source,
+    connected,
+    isError,
+    updatedAt
+  };
+}
@@ -1,3 +1,5 @@
+import tables from '../../backend/data/airlineTables.json';
+
 export type AirlineInfo = {
   name: string;
   color: string;
@@ -7,312 +9,10 @@ export type AirlineInfo = {
 
 const logoBaseUrl = 'https://www.gstatic.com/flights/airline_logos/70px/';
 
-const airlines: Record<string, AirlineInfo> = {
-  AA: { name: 'American Airlines', color: '#C73530', region: 'North America', alliance: 'oneworld' },
-  UA: { name: 'United Airlines', color: '#0033A1', region: 'North America', alliance: 'Star Alliance' },
-  DL: { name: 'Delta Air Lines', color: '#D2343E', region: 'North America', alliance: 'SkyTeam' },
-  WN: { name: 'Southwest Airlines', color: '#304CB2', region: 'North America', alliance: null },
-  B6: { name: 'JetBlue Airways', color: '#0F4C96', region: 'North America', alliance: null },
-  AS: { name: 'Alaska Airlines', color: '#00467F', region: 'North America', alliance: null },
-  F9: { name: 'Frontier Airlines', color: '#00843D', region: 'North America', alliance: null },
-  NK: { name: 'Spirit Airlines', color: '#FFD100', region: 'North America', alliance: null },
-  G4: { name: 'Allegiant Air', color: '#003F7F', region: 'North America', alliance: null },
-
-  BA: { name: 'British Airways', color: '#075AAA', region: 'Europe', alliance: 'oneworld' },
-  LH: { name: 'Lufthansa', color: '#FFD700', region: 'Europe', alliance: 'Star Alliance' },
-  AF: { name: 'Air France', color: '#002157', region: 'Europe', alliance: 'SkyTeam' },
-  KL: { name: 'KLM', color: '#006DB7', region: 'Europe', alliance: 'SkyTeam' },
-  LX: { name: 'Swiss International Air Lines', color: '#E30613', region: 'Europe', alliance: 'Star Alliance' },
-  OS: { name: 'Austrian Airlines', color: '#E40520', region: 'Europe', alliance: 'Star Alliance' },
-  SN: { name: 'Brussels Airlines', color: '#3E5AA0', region: 'Europe', alliance: 'Star Alliance' },
-  FR: { name: 'Ryanair', color: '#073590', region: 'Europe', alliance: null },
-  U2: { name: 'easyJet', color: '#FF6600', region: 'Europe', alliance: null },
-  VY: { name: 'Vueling', color: '#FFD100', region: 'Europe', alliance: null },
-
-  SQ: { name: 'Singapore Airlines', color: '#fcb130', region: 'Asia', alliance: 'Star Alliance' },
-  CX: { name: 'Cathay Pacific', color: '#007367', region: 'Asia', alliance: 'oneworld' },
-  JL: { name: 'Japan Airlines', color: '#DC143C', region: 'Asia', alliance: 'oneworld' },
-  NH: { name: 'All Nippon Airways', color: '#1E4294', region: 'Asia', alliance: 'Star Alliance' },
-  TG: { name: 'Thai Airways', color: '#7B3F98', region: 'Asia', alliance: 'Star Alliance' },
-  KE: { name: 'Korean Air', color: '#0047AB', region: 'Asia', alliance: 'SkyTeam' },
-  OZ: { name: 'Asiana Airlines', color: '#E30613', region: 'Asia', alliance: 'Star Alliance' },
-  AK: { name: 'Air Asia', color: '#dc2425', region: 'Asia', alliance: null },
-  MH: { name: 'Malaysia Airlines', color: '#001E62', region: 'Asia', alliance: 'oneworld' },
-  CA: { name: 'Air China', color: '#E30613', region: 'Asia', alliance: 'Star Alliance' },
-  CZ: { name: 'China Southern Airlines', color: '#0057B8', region: 'Asia', alliance: 'SkyTeam' },
-
-  EK: { name: 'Emirates', color: '#C8242F', region: 'Middle East', alliance: null },
-  QR: { name: 'Qatar Airways', color: '#5C0633', region: 'Middle East', alliance: 'oneworld' },
-  EY: { name: 'Etihad Airways', color: '#BE9B3B', region: 'Middle East', alliance: null },
-  TK: { name: 'Turkish Airlines', color: '#C70025', region: 'Middle East', alliance: 'Star Alliance' },
-  MS: { name: 'EgyptAir', color: '#002654', region: 'Middle East', alliance: 'Star Alliance' },
-
-  QF: { name: 'Qantas', color: '#E30613', region: 'Oceania', alliance: 'oneworld' },
-  JQ: { name: 'Jetstar Airways', color: '#FF6600', region: 'Oceania', alliance: null },
-  VA: { name: 'Virgin Australia', color: '#E40520', region: 'Oceania', alliance: null },
-  NZ: { name: 'Air New Zealand', color: '#003F7F', region: 'Oceania', alliance: 'Star Alliance' },
-  QQ: { name: 'Alliance Airlines', color: '#F6C94C', region: 'Oceania', alliance: null },
-
-  SA: { name: 'South African Airways', color: '#006DB7', region: 'Africa', alliance: 'Star Alliance' },
-  ET: { name: 'Ethiopian Airlines', color: '#00A651', region: 'Africa', alliance: 'Star Alliance' },
+// Shared with the backend, which resolves airlines and picks simulator traffic from the same tables
+const airlines: Record<string, AirlineInfo> = tables.airlines;
 
-  AC: { name: 'Air Canada', color: '#FF0000', region: 'North America', alliance: 'Star Alliance' },
-  WS: { name: 'WestJet', color: '#003F7F', region: 'North America', alliance: null },
-  PD: { name: 'Porter Airlines', color: '#00457C', region: 'North America', alliance: null },
-
-  LA: { name: 'LATAM Airlines', color: '#E30613', region: 'South America', alliance: 'oneworld' },
-  AV: { name: 'Avianca', color: '#E30613', region: 'South America', alliance: 'Star Alliance' },
-  AM: { name: 'Aeromexico', color: '#00447C', region: 'North America', alliance: 'SkyTeam' },
-  CM: { name: 'Copa Airlines', color: '#003F7F', region: 'Central America', alliance: 'Star Alliance' },
-
-  WF: { name: 'Wideroe', color: '#E30613', region: 'Europe', alliance: null },
-  '6E': { name: 'IndiGo', color: '#003F7F', region: 'Asia', alliance: null },
-  AI: { name: 'Air India', color: '#E30613', region: 'Asia', alliance: 'Star Alliance' },
-  IX: { name: 'Air India Express', color: '#E30613', region: 'Asia', alliance: null },
-
-  FX: { name: 'FedEx Express', color: '#4B0082', region: 'North America', alliance: null },
-  '5X': { name: 'UPS Airlines', color: '#654321', region: 'North America', alliance: null }
-};
-
-const aircraftTypes: Record<string, string> = {
-  A124: 'Antonov An-124 Ruslan',
-  A140: 'Antonov An-140',
-  A148: 'Antonov An-148',
-  A158: 'Antonov An-158',
-  A19N: 'Airbus A319neo',
-  A20N: 'Airbus A320neo',
-  A21N: 'Airbus A321neo',
-  A225: 'Antonov An-225 Mriya',
-  A306: 'Airbus A300-600',
-  A30B: 'Airbus A300B2/B4/C4',
-  A310: 'Airbus A310',
-  A318: 'Airbus A318',
-  A319: 'Airbus A319',
-  A320: 'Airbus A320',
-  A321: 'Airbus A321',
-  A332: 'Airbus A330-200',
-  A333: 'Airbus A330-300',
-  A337: 'Airbus A330-700 BelugaXL',
-  A338: 'Airbus A330-800',
-  A339: 'Airbus A330-900',
-  A342: 'Airbus A340-200',
-  A343: 'Airbus A340-300',
-  A345: 'Airbus A340-500',
-  A346: 'Airbus A340-600',
-  A359: 'Airbus A350-900',
-  A35K: 'Airbus A350-1000',
-  A388: 'Airbus A380-800',
-  A3ST: 'Airbus A300-600ST Beluga',
-  A400: 'Airbus A400M Atlas',
-  A748: 'Hawker Siddeley HS 748',
-  AC90: 'Gulfstream/Rockwell Turbo Commander 690',
-  AJ27: 'Comac ARJ21-700',
-  AN12: 'Antonov An-12',
-  AN24: 'Antonov An-24',
-  AN26: 'Antonov An-26',
-  AN28: 'Antonov An-28',
-  AN30: 'Antonov An-30',
-  AN32: 'Antonov An-32',
-  AN72: 'Antonov An-72/An-74',
-  AT43: 'ATR 42-300/320',
-  AT45: 'ATR 42-500',
-  AT46: 'ATR 42-600',
-  AT72: 'ATR 72-201/202',
-  AT73: 'ATR 72-211/212',
-  AT75: 'ATR 72-500',
-  AT76: 'ATR 72-600',
-  ATP: 'British Aerospace ATP',
-  B190: 'Beechcraft 1900',
-  B37M: 'Boeing 737 MAX 7',
-  B38M: 'Boeing 737 MAX 8',
-  B39M: 'Boeing 737 MAX 9',
-  B3XM: 'Boeing 737 MAX 10',
-  B461: 'BAe 146-100',
-  B462: 'BAe 146-200',
-  B463: 'BAe 146-300',
-  B52: 'Boeing B-52 Stratofortress',
-  B703: 'Boeing 707',
-  B712: 'Boeing 717',
-  B720: 'Boeing 720B',
-  B721: 'Boeing 727-100',
-  B722: 'Boeing 727-200',
-  B732: 'Boeing 737-200',
-  B733: 'Boeing 737-300',
-  B734: 'Boeing 737-400',
-  B735: 'Boeing 737-500',
-  B736: 'Boeing 737-600',
-  B737: 'Boeing 737-700',
-  B738: 'Boeing 737-800',
-  B739: 'Boeing 737-900',
-  B741: 'Boeing 747-100',
-  B742: 'Boeing 747-200',
-  B743: 'Boeing 747-300',
-  B744: 'Boeing 747-400',
-  B748: 'Boeing 747-8',
-  B74R: 'Boeing 747SR',
-  B74S: 'Boeing 747SP',
-  B752: 'Boeing 757-200',
-  B753: 'Boeing 757-300',
-  B762: 'Boeing 767-200',
-  B763: 'Boeing 767-300',
-  B764: 'Boeing 767-400ER',
-  B772: 'Boeing 777-200',
-  B773: 'Boeing 777-300',
-  B778: 'Boeing 777-8',
-  B779: 'Boeing 777-9',
-  B77L: 'Boeing 777-200LR/Freighter',
-  B77W: 'Boeing 777-300ER',
-  B788: 'Boeing 787-8',
-  B789: 'Boeing 787-9',
-  B78X: 'Boeing 787-10',
-  BA11: 'British Aerospace BAC One Eleven',
-  BCS1: 'Bombardier CS100/Airbus A220-100',
-  BCS3: 'Bombardier CS300/Airbus A220-300',
-  BE20: 'Beechcraft King Air 200',
-  BE40: 'Hawker 400',
-  BE99: 'Beechcraft Model 99',
-  BELF: 'Shorts SC-5 Belfast',
-  BER2: 'Beriev Be-200 Altair',
-  BLCF: 'Boeing 747-400 LCF Dreamlifter',
-  C130: 'Lockheed C-130 Hercules',
-  C208: 'Cessna 208 Caravan',
-  C212: 'CASA/IPTN 212 Aviocar',
-  C25A: 'Cessna Citation CJ2',
-  C25B: 'Cessna Citation CJ3',
-  C25C: 'Cessna Citation CJ4',
-  C30J: 'Lockheed Martin C-130J',
-  C408: 'Cessna 408 SkyCourier',
-  C5M: 'Lockheed C-5M Super Galaxy',
-  C500: 'Cessna Citation I',
-  C510: 'Cessna Citation Mustang',
-  C525: 'Cessna CitationJet',
-  C550: 'Cessna Citation II',
-  C560: 'Cessna Citation V',
-  C56X: 'Cessna Citation Excel',
-  C650: 'Cessna Citation III/VI/VII',
-  C680: 'Cessna Citation Sovereign',
-  C68A: 'Cessna Citation Latitude',
-  C700: 'Cessna Citation Longitude',
-  C750: 'Cessna Citation X',
-  C919: 'Comac C919',
-  CL2T: 'Bombardier 415',
-  CL30: 'Bombardier Challenger 300',
-  CL60: 'Canadair Challenger 600',
-  CN35: 'CASA/IPTN CN-235',
-  CRJ1: 'Canadair Regional Jet 100',
-  CRJ2: 'Canadair Regional Jet 200',
-  CRJ7: 'Canadair Regional Jet 700',
-  CRJ9: 'Canadair Regional Jet 900',
-  CRJX: 'Canadair Regional Jet 1000',
-  CVLT: 'Convair CV-580/600/640',
-  D228: 'Dornier 228',
-  D328: 'Fairchild Dornier Do.328',
-  DC10: 'McDonnell Douglas DC-10',
-  DC85: 'Douglas DC-8-50',
-  DC86: 'Douglas DC-8-62',
-  DC87: 'Douglas DC-8-72',
-  DC91: 'Douglas DC-9-10',
-  DC92: 'Douglas DC-9-20',
-  DC93: 'Douglas DC-9-30',
-  DC94: 'Douglas DC-9-40',
-  DC95: 'Douglas DC-9-50',
-  DH8A: 'De Havilland Canada Dash 8-100',
-  DH8B: 'De Havilland Canada Dash 8-200',
-  DH8C: 'De Havilland Canada Dash 8-300',
-  DH8D: 'De Havilland Canada Dash 8-400',
-  DHC5: 'De Havilland Canada DHC-5 Buffalo',
-  DHC6: 'De Havilland Canada DHC-6 Twin Otter',
-  DHC7: 'De Havilland Canada DHC-7 Dash 7',
-  E110: 'Embraer EMB 110 Bandeirante',
-  E120: 'Embraer EMB 120 Brasilia',
-  E135: 'Embraer RJ135',
-  E145: 'Embraer RJ145',
-  E170: 'Embraer 170',
-  E190: 'Embraer 190',
-  E195: 'Embraer 195',
-  E290: 'Embraer E190-E2',
-  E295: 'Embraer E195-E2',
-  E35L: 'Embraer Legacy 600/650',
-  E50P: 'Embraer Phenom 100',
-  E545: 'Embraer Legacy 450/Praetor 500',
-  E550: 'Embraer Legacy 500/Praetor 600',
-  E55P: 'Embraer Phenom 300',
-  E75L: 'Embraer 175 Long Wing',
-  E75S: 'Embraer 175 Short Wing',
-  EA50: 'Eclipse 500',
-  F100: 'Fokker 100',
-  F27: 'Fokker F27 Friendship',
-  F28: 'Fokker F28 Fellowship',
-  F2TH: 'Dassault Falcon 2000',
-  F406: 'Reims-Cessna F406 Caravan II',
-  F50: 'Fokker 50',
-  F70: 'Fokker 70',
-  F900: 'Dassault Falcon 900',
-  FA50: 'Dassault Falcon 50',
-  FA6X: 'Dassault Falcon 6X',
-  FA7X: 'Dassault Falcon 7X',
-  G159: 'Gulfstream G-159 Gulfstream I',
-  G280: 'Gulfstream G280',
-  G73T: 'Grumman G-73 Turbo Mallard',
-  GL5T: 'Bombardier Global 5000',
-  GLEX: 'Bombardier Global Express',
-  GLF4: 'Gulfstream IV',
-  GLF5: 'Gulfstream V',
-  GLF6: 'Gulfstream G650',
-  GA7C: 'Gulfstream G700',
-  H25B: 'British Aerospace 125/Hawker 700/800/850/900',
-  H25C: 'British Aerospace 125-1000/Hawker 1000',
-  HDJT: 'Honda HA-420 HondaJet',
-  I114: 'Ilyushin Il-114',
-  IL18: 'Ilyushin Il-18',
-  IL62: 'Ilyushin Il-62',
-  IL76: 'Ilyushin Il-76',
-  IL86: 'Ilyushin Il-86',
-  IL96: 'Ilyushin Il-96',
-  J328: 'Fairchild Dornier 328JET',
-  JS31: 'British Aerospace Jetstream 31',
-  JS32: 'British Aerospace Jetstream 32',
-  JS41: 'British Aerospace Jetstream 41',
-  K35R: 'Boeing KC-135 Stratotanker',
-  L101: 'Lockheed L-1011 Tristar',
-  L188: 'Lockheed L-188 Electra',
-  L410: 'LET 410',
-  LJ35: 'Learjet 35/36',
-  LJ60: 'Learjet 60',
-  MD11: 'McDonnell Douglas MD-11',
-  MD81: 'McDonnell Douglas MD-81',
-  MD82: 'McDonnell Douglas MD-82',
-  MD83: 'McDonnell Douglas MD-83',
-  MD87: 'McDonnell Douglas MD-87',
-  MD88: 'McDonnell Douglas MD-88',
-  MD90: 'McDonnell Douglas MD-90',
-  MU2: 'Mitsubishi Mu-2',
-  N262: 'Aerospatiale Nord 262',
-  NOMA: 'GAF N22B/N24A Nomad',
-  P8: 'Boeing P-8 Poseidon',
-  P180: 'Piaggio P.180 Avanti',
-  PAY2: 'Piper Cheyenne II',
-  PC24: 'Pilatus PC-24',
-  RJ1H: 'Avro RJ100',
-  RJ70: 'Avro RJ70',
-  RJ85: 'Avro RJ85',
-  S601: 'Aerospatiale SN.601 Corvette',
-  SB20: 'Saab 2000',
-  SC7: 'Shorts SC-7 Skyvan',
-  SF34: 'Saab SF340',
-  SH33: 'Shorts SD.330',
-  SH36: 'Shorts SD.360',
-  SU95: 'Sukhoi Superjet 100-95',
-  SW4: 'Fairchild Swearingen Metroliner',
-  T134: 'Tupolev Tu-134',
-  T154: 'Tupolev Tu-154',
-  T204: 'Tupolev Tu-204/Tu-214',
-  WW24: 'Israel Aircraft Industries 1124 Westwind',
-  Y12: 'Harbin Y-12',
-  YK40: 'Yakovlev Yak-40',
-  YK42: 'Yakovlev Yak-42',
-  YS11: 'NAMC YS-11'
-};
+const aircraftTypes: Record<string, string> = tables.aircraftTypes;
 
 export const extractAirlineCode = (flightNumber: string) => {
   if (!flightNumber) return '';
@@ -320,14 +20,14 @@ export const extractAirlineCode = (flightNumber: string) => {
   return match ? match[1].toUpperCase() : '';
 };
 
-export const getAirline = (code?: string): AirlineInfo => {
+export const getAirline = (code?: string, fallbackName?: string): AirlineInfo => {
   if (!code) {
-    return { name: 'Unknown Airline', color: '#666666', region: 'Unknown', alliance: null };
+    return { name: fallbackName || 'Unknown Airline', color: '#666666', region: 'Unknown', alliance: null };
   }
 
   const normalized = code.toUpperCase();
   return airlines[normalized] || {
-    name: `${normalized} Airlines`,
+    name: fallbackName || `${normalized} Airlines`,
     color: '#666666',
     region: 'Unknown',
     alliance: null
@@ -0,0 +1,5 @@
+export const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+// Nearest of the eight compass points to a bearing in degrees
+export const compassPoint = (bearing: number) =>
+  COMPASS_POINTS[Math.round((((bearing % 360) + 360) % 360) / 45) % COMPASS_POINTS.length];
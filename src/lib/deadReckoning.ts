@@ -0,0 +1,65 @@
+import { Flight } from '@/types/flight';
+
+type Position = Flight['position'];
+
+const EARTH_RADIUS_M = 6371008.8;
+const MPS_PER_KNOT = 0.514444;
+// Beyond this a stale sample is held rather than flown on
+export const MAX_EXTRAPOLATION_S = 60;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Fly a reported position on along its heading at ground speed, climbing or descending at its vertical speed
+ * @param position - Last reported position (feet, knots, degrees, feet per minute)
+ * @param seconds - Time since the report
+ */
+export const extrapolatePosition = (position: Position, seconds: number): Position => {
+  const elapsed = Math.min(Math.max(seconds, 0), MAX_EXTRAPOLATION_S);
+  if (elapsed === 0 || position.speed <= 0) return position;
+
+  const delta = (position.speed * MPS_PER_KNOT * elapsed) / EARTH_RADIUS_M;
+  const theta = toRadians(position.heading);
+  const phi1 = toRadians(position.latitude);
+  const lambda1 = toRadians(position.longitude);
+  const phi2 = Math.asin(Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta));
+  const lambda2 = lambda1 + Math.atan2(
+    Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+    Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2)
+  );
+
+  return {
+    ...position,
+    latitude: toDegrees(phi2),
+    longitude: ((toDegrees(lambda2) + 540) % 360) - 180,
+    altitude: Math.max(0, position.altitude + (position.verticalSpeed * elapsed) / 60)
+  };
+};
+
+export type PositionOffset = Pick<Position, 'latitude' | 'longitude' | 'altitude' | 'speed'>;
+
+export const zeroOffset: PositionOffset = { latitude: 0, longitude: 0, altitude: 0, speed: 0 };
+
+// Difference between what is on screen and where a new sample says the aircraft is
+export const positionOffset = (shown: Position, sample: Position): PositionOffset => ({
+  latitude: shown.latitude - sample.latitude,
+  longitude: shown.longitude - sample.longitude,
+  altitude: shown.altitude - sample.altitude,
+  speed: shown.speed - sample.speed
+});
+
+// Apply an offset scaled by `weight` (1 right after a new sample, easing to 0)
+export const applyOffset = (position: Position, offset: PositionOffset, weight: number): Position => ({
+  ...position,
+  latitude: position.latitude + offset.latitude * weight,
+  longitude: position.longitude + offset.longitude * weight,
+  altitude: position.altitude + offset.altitude * weight,
+  speed: position.speed + offset.speed * weight
+});
+
+// Ease-out weight for the correction, from 1 at the new sample to 0 after `duration` ms
+export const easeWeight = (elapsedMs: number, duration: number) => {
+  const progress = Math.min(Math.max(elapsedMs / duration, 0), 1);
+  return (1 - progress) ** 2;
+};
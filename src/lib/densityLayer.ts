@@ -0,0 +1,76 @@
+import mapboxgl from 'mapbox-gl';
+
+import { TrafficDensity } from '@/types/flight';
+
+const densitySourceId = 'traffic-density';
+const densityLayerId = 'traffic-density-heat';
+
+// Metres per pixel at zoom 0 on the equator
+const METERS_PER_PIXEL_Z0 = 156543.03;
+
+const emptyCollection: GeoJSON.FeatureCollection<GeoJSON.Point> = { type: 'FeatureCollection', features: [] };
+
+// One weighted point per cell centre, weight 1 for the busiest cell
+export const densityToGeoJson = (density: TrafficDensity): GeoJSON.FeatureCollection<GeoJSON.Point> => ({
+  type: 'FeatureCollection',
+  features: density.cells.map((cell) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [cell.longitude, cell.latitude] },
+    properties: { weight: density.max > 0 ? cell.count / density.max : 0 }
+  }))
+});
+
+// Heatmap radius that covers about one and a half cells at every zoom
+const radiusExpression = (density: TrafficDensity): mapboxgl.Expression => {
+  const latitude = (density.bounds.north + density.bounds.south) / 2;
+  const metersPerPixel = METERS_PER_PIXEL_Z0 * Math.cos((latitude * Math.PI) / 180);
+  const radiusAtZ0 = (density.cellSize * 1000 * 1.5) / metersPerPixel;
+  return ['interpolate', ['exponential', 2], ['zoom'], 0, radiusAtZ0, 22, radiusAtZ0 * 2 ** 22];
+};
+
+/**
+ * Show traffic density as a heatmap beneath the area shape, or hide it with null.
+ * Waits for the style to finish loading when called too early.
+ */
+export const setDensityLayer = (map: mapboxgl.Map, density: TrafficDensity | null, beforeId?: string) => {
+  if (!map.isStyleLoaded()) {
+    map.once('idle', () => setDensityLayer(map, density, beforeId));
+    return;
+  }
+
+  const data = density ? densityToGeoJson(density) : emptyCollection;
+  const source = map.getSource(densitySourceId) as mapboxgl.GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+  } else {
+    map.addSource(densitySourceId, { type: 'geojson', data });
+    map.addLayer(
+      {
+        id: densityLayerId,
+        type: 'heatmap',
+        source: densitySourceId,
+        paint: {
+          'heatmap-weight': ['get', 'weight'],
+          'heatmap-intensity': 1,
+          'heatmap-opacity': 0.75,
+          'heatmap-color': [
+            'interpolate',
+            ['linear'],
+            ['heatmap-density'],
+            0, 'rgba(56, 189, 248, 0)',
+            0.2, 'rgba(56, 189, 248, 0.6)',
+            0.5, '#facc15',
+            0.8, '#f97316',
+            1, '#ef4444'
+          ]
+        }
+      },
+      beforeId && map.getLayer(beforeId) ? beforeId : undefined
+    );
+  }
+
+  if (density) {
+    map.setPaintProperty(densityLayerId, 'heatmap-radius', radiusExpression(density));
+  }
+  map.setLayoutProperty(densityLayerId, 'visibility', density ? 'visible' : 'none');
+};
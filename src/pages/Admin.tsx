@@ -3,9 +3,24 @@ import { useQuery } from '@tanstack/react-query';
 import mapboxgl from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
 
+import AircraftRegistry from '@/components/AircraftRegistry';
+import AirportOverrides from '@/components/AirportOverrides';
+import CircleAreaEditor from '@/components/CircleAreaEditor';
+import DisplayFilters from '@/components/DisplayFilters';
+import PolygonAreaEditor, { PolygonVertex } from '@/components/PolygonAreaEditor';
+import RouteTable from '@/components/RouteTable';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
+import {
+  CLOSE_DWELL_DISTANCE,
+  defaultRotation,
+  RARE_DWELL_SIGHTINGS,
+  RotationOrder,
+  RotationSettings
+} from '@/hooks/use-flight-rotation';
+import { setDensityLayer } from '@/lib/densityLayer';
+import { TrafficDensity } from '@/types/flight';
 
 type AdminPhoto = {
   id: string;
@@ -22,14 +37,75 @@ type SettingsResponse = {
     shuffle?: boolean;
     fitMode?: 'cover' | 'contain';
   };
+  rotation?: Partial<RotationSettings>;
 };
 
+const ROTATION_ORDER_OPTIONS: { value: RotationOrder; label: string }[] = [
+  { value: 'proximity', label: 'Closest first' },
+  { value: 'altitude', label: 'Lowest first' },
+  { value: 'newest', label: 'Newest arrival first' },
+  { value: 'rarity', label: 'Rarest type first' }
+];
+
+type ProviderSettings = {
+  readsb?: {
+    source?: string;
+  };
+  basestation?: {
+    host?: string;
+    port?: number;
+  };
+  avr?: {
+    host?: string;
+    port?: number;
+    receiver?: { latitude: number; longitude: number };
+  };
+  replay?: {
+    file?: string;
+    speed?: number;
+    loop?: boolean;
+  };
+  simulator?: {
+    scenario?: string;
+    seed?: number | string;
+    density?: number;
+  };
+  chain?: {
+    mode?: 'failover' | 'fusion';
+    cooldownMs?: number;
+    timeoutMs?: number;
+  };
+};
+
+const PROVIDER_OPTIONS = [
+  { value: 'flightradar24', label: 'FlightRadar24' },
+  { value: 'opensky', label: 'OpenSky' },
+  { value: 'readsb', label: 'Local receiver (readsb / dump1090)' },
+  { value: 'basestation', label: 'BaseStation feed (SBS-1, port 30003)' },
+  { value: 'avr', label: 'Raw Mode-S frames (AVR, port 30002)' },
+  { value: 'replay', label: 'Replay a recording' },
+  { value: 'simulator', label: 'Traffic simulator' }
+];
+
+const SIMULATOR_SCENARIOS = [
+  { value: 'mixed', label: 'Mixed traffic' },
+  { value: 'busy-approach', label: 'Busy approach' },
+  { value: 'empty-night', label: 'Empty night' },
+  { value: 'single-flyover', label: 'Single flyover' },
+  { value: 'emergency-squawk', label: 'Emergency squawk' }
+];
+
+const providerLabel = (value: string) =>
+  PROVIDER_OPTIONS.find((option) => option.value === value)?.label || value;
+
 type ConfigResponse = {
-  provider?: string;
+  provider?: string | string[];
+  providerSettings?: ProviderSettings;
   location?: {
     latitude: number;
     longitude: number;
     radius: number;
+    maxAltitude?: number | null;
     name: string;
   } | null;
   area?: {
@@ -37,7 +113,25 @@ type ConfigResponse = {
     name: string;
     northwest: { latitude: number; longitude: number };
     southeast: { latitude: number; longitude: number };
+  } | {
+    type: 'polygon';
+    name: string;
+    vertices: PolygonVertex[];
   } | null;
+  home?: {
+    latitude: number;
+    longitude: number;
+    elevation?: number | null;
+  } | null;
+};
+
+type LocationMode = 'circle' | 'rectangle' | 'polygon';
+
+type RecordingResponse = {
+  recording: boolean;
+  file: string | null;
+  frames: number;
+  recordings: { name: string; size: number; modifiedAt: string }[];
 };
 
 type MapboxFeature = {
@@ -78,15 +172,14 @@ const boundsFromConfig = (config?: ConfigResponse | null): RectangleBounds => {
     });
   }
 
-  if (config?.location) {
-    const lat = config.location.latitude;
-    const lon = config.location.longitude;
-    const delta = Math.max(config.location.radius / 100, 0.05);
+  if (config?.area?.type === 'polygon' && config.area.vertices.length > 0) {
+    const latitudes = config.area.vertices.map((vertex) => vertex.latitude);
+    const longitudes = config.area.vertices.map((vertex) => vertex.longitude);
     return sanitizeBounds({
-      north: lat + delta,
-      south: lat - delta,
-      west: lon - delta,
-      east: lon + delta
+      north: Math.max(...latitudes),
+      south: Math.min(...latitudes),
+      west: Math.min(...longitudes),
+      east: Math.max(...longitudes)
     });
   }
 
@@ -117,17 +210,43 @@ const Admin = () => {
   const [slideshowInterval, setSlideshowInterval] = useState(10000);
   const [slideshowShuffle, setSlideshowShuffle] = useState(true);
   const [slideshowFit, setSlideshowFit] = useState<'cover' | 'contain'>('cover');
-
-  const [provider, setProvider] = useState('flightradar24');
-  const [locationMode, setLocationMode] = useState<'circle' | 'rectangle'>('circle');
+  const [rotationOrder, setRotationOrder] = useState<RotationOrder>(defaultRotation.order);
+  const [rotationDwell, setRotationDwell] = useState(defaultRotation.dwell);
+  // Empty means the plain time per flight
+  const [closeDwell, setCloseDwell] = useState('');
+  const [rareDwell, setRareDwell] = useState('');
+  const [rotationPreempt, setRotationPreempt] = useState(defaultRotation.preempt);
+
+  const [providerChain, setProviderChain] = useState<string[]>(['flightradar24']);
+  const [chainMode, setChainMode] = useState<'failover' | 'fusion'>('failover');
+  const [chainCooldown, setChainCooldown] = useState('');
+  const [readsbSource, setReadsbSource] = useState('');
+  const [sbsHost, setSbsHost] = useState('');
+  const [sbsPort, setSbsPort] = useState('');
+  const [avrHost, setAvrHost] = useState('');
+  const [avrPort, setAvrPort] = useState('');
+  const [avrReceiverLat, setAvrReceiverLat] = useState('');
+  const [avrReceiverLon, setAvrReceiverLon] = useState('');
+  const [replayFile, setReplayFile] = useState('');
+  const [replaySpeed, setReplaySpeed] = useState('');
+  const [simulatorScenario, setSimulatorScenario] = useState('mixed');
+  const [simulatorSeed, setSimulatorSeed] = useState('');
+  const [locationMode, setLocationMode] = useState<LocationMode>('circle');
   const [locationName, setLocationName] = useState('');
   const [latitude, setLatitude] = useState('');
   const [longitude, setLongitude] = useState('');
   const [radius, setRadius] = useState('');
+  const [maxAltitude, setMaxAltitude] = useState('');
   const [nwLat, setNwLat] = useState('');
   const [nwLon, setNwLon] = useState('');
   const [seLat, setSeLat] = useState('');
   const [seLon, setSeLon] = useState('');
+  const [polygonVertices, setPolygonVertices] = useState<PolygonVertex[]>([]);
+  const [homeLatitude, setHomeLatitude] = useState('');
+  const [homeLongitude, setHomeLongitude] = useState('');
+  const [homeElevation, setHomeElevation] = useState('');
+  const [searchFocus, setSearchFocus] = useState<[number, number] | null>(null);
+  const [densityVisible, setDensityVisible] = useState(false);
 
   const mapContainerRef = useRef<HTMLDivElement | null>(null);
   const mapRef = useRef<mapboxgl.Map | null>(null);
@@ -218,16 +337,58 @@ const Admin = () => {
     enabled: !!token
   });
 
+  // Keyed on the saved area so the heatmap follows it after a save
+  const { data: densityData } = useQuery({
+    queryKey: ['traffic-density', configData?.area ?? null, configData?.location ?? null],
+    enabled: densityVisible,
+    queryFn: async () => {
+      const response = await fetch('/api/history/density?cells=80');
+      if (!response.ok) throw new Error('Failed to load traffic density');
+      return response.json() as Promise<TrafficDensity>;
+    }
+  });
+  const density = densityVisible ? densityData ?? null : null;
+
+  const { data: recordingData, refetch: refetchRecording } = useQuery({
+    queryKey: ['admin-recording', token],
+    queryFn: async () => {
+      const response = await fetch('/api/recording', { headers: authHeaders });
+      if (!response.ok) throw new Error('Failed to load recording status');
+      return response.json() as Promise<RecordingResponse>;
+    },
+    enabled: !!token
+  });
+
   useEffect(() => {
     if (!settingsData?.slideshow) return;
     setSlideshowInterval(settingsData.slideshow.interval ?? 10000);
     setSlideshowShuffle(settingsData.slideshow.shuffle ?? true);
     setSlideshowFit(settingsData.slideshow.fitMode ?? 'cover');
+    setRotationOrder(settingsData.rotation?.order ?? defaultRotation.order);
+    setRotationDwell(settingsData.rotation?.dwell ?? defaultRotation.dwell);
+    setCloseDwell(String(settingsData.rotation?.dwellOverrides?.close ?? ''));
+    setRareDwell(String(settingsData.rotation?.dwellOverrides?.rare ?? ''));
+    setRotationPreempt(settingsData.rotation?.preempt ?? defaultRotation.preempt);
   }, [settingsData]);
 
   useEffect(() => {
     if (!configData) return;
-    setProvider(configData.provider || 'flightradar24');
+    const configuredProvider = configData.provider || 'flightradar24';
+    setProviderChain(Array.isArray(configuredProvider) ? configuredProvider : [configuredProvider]);
+    setChainMode(configData.providerSettings?.chain?.mode === 'fusion' ? 'fusion' : 'failover');
+    const cooldownMs = configData.providerSettings?.chain?.cooldownMs;
+    setChainCooldown(cooldownMs ? String(cooldownMs / 1000) : '');
+    setReadsbSource(configData.providerSettings?.readsb?.source || '');
+    setSbsHost(configData.providerSettings?.basestation?.host || '');
+    setSbsPort(String(configData.providerSettings?.basestation?.port ?? ''));
+    setAvrHost(configData.providerSettings?.avr?.host || '');
+    setAvrPort(String(configData.providerSettings?.avr?.port ?? ''));
+    setAvrReceiverLat(String(configData.providerSettings?.avr?.receiver?.latitude ?? ''));
+    setAvrReceiverLon(String(configData.providerSettings?.avr?.receiver?.longitude ?? ''));
+    setReplayFile(configData.providerSettings?.replay?.file || '');
+    setReplaySpeed(String(configData.providerSettings?.replay?.speed ?? ''));
+    setSimulatorScenario(configData.providerSettings?.simulator?.scenario || 'mixed');
+    setSimulatorSeed(String(configData.providerSettings?.simulator?.seed ?? ''));
 
     if (configData.area?.type === 'rectangle') {
       setLocationMode('rectangle');
@@ -235,16 +396,22 @@ const Admin = () => {
       const bounds = boundsFromConfig(configData);
       setRectBounds(bounds);
       syncRectangleFields(bounds);
+    } else if (configData.area?.type === 'polygon') {
+      setLocationMode('polygon');
+      setLocationName(configData.area.name || '');
+      setPolygonVertices(configData.area.vertices || []);
     } else if (configData.location) {
       setLocationMode('circle');
       setLocationName(configData.location.name || '');
       setLatitude(String(configData.location.latitude ?? ''));
       setLongitude(String(configData.location.longitude ?? ''));
       setRadius(String(configData.location.radius ?? ''));
-      const bounds = boundsFromConfig(configData);
-      setRectBounds(bounds);
-      syncRectangleFields(bounds);
+      setMaxAltitude(String(configData.location.maxAltitude ?? ''));
     }
+
+    setHomeLatitude(String(configData.home?.latitude ?? ''));
+    setHomeLongitude(String(configData.home?.longitude ?? ''));
+    setHomeElevation(String(configData.home?.elevation ?? ''));
   }, [configData]);
 
   useEffect(() => {
@@ -432,6 +599,12 @@ const Admin = () => {
     });
   }, [rectBounds]);
 
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || locationMode !== 'rectangle') return;
+    setDensityLayer(map, density, rectangleFillId);
+  }, [density, locationMode]);
+
   const sortedPhotos = useMemo(() => {
     const photos = photosData || [];
     return [...photos].sort((a, b) => (a.ord || 0) - (b.ord || 0));
@@ -536,6 +709,15 @@ const Admin = () => {
           interval: Number(slideshowInterval),
           shuffle: slideshowShuffle,
           fitMode: slideshowFit
+        },
+        rotation: {
+          order: rotationOrder,
+          dwell: Number(rotationDwell),
+          dwellOverrides: {
+            close: closeDwell.trim() ? Number(closeDwell) : undefined,
+            rare: rareDwell.trim() ? Number(rareDwell) : undefined
+          },
+          preempt: rotationPreempt
         }
       })
     });
@@ -547,11 +729,58 @@ const Admin = () => {
     await refetchSettings();
   };
 
+  const handleMoveProvider = (index: number, direction: 'up' | 'down') => {
+    const target = direction === 'up' ? index - 1 : index + 1;
+    if (target < 0 || target >= providerChain.length) return;
+    const next = [...providerChain];
+    [next[index], next[target]] = [next[target], next[index]];
+    setProviderChain(next);
+  };
+
   const handleSaveConfig = async () => {
     const payload: ConfigResponse = {
-      provider,
+      provider: providerChain.length === 1 ? providerChain[0] : providerChain,
+      providerSettings: {
+        ...(configData?.providerSettings || {}),
+        chain: {
+          ...(configData?.providerSettings?.chain || {}),
+          mode: chainMode,
+          cooldownMs: chainCooldown ? Number(chainCooldown) * 1000 : undefined
+        },
+        readsb: { ...(configData?.providerSettings?.readsb || {}), source: readsbSource.trim() },
+        basestation: {
+          ...(configData?.providerSettings?.basestation || {}),
+          host: sbsHost.trim() || undefined,
+          port: sbsPort ? Number(sbsPort) : undefined
+        },
+        avr: {
+          ...(configData?.providerSettings?.avr || {}),
+          host: avrHost.trim() || undefined,
+          port: avrPort ? Number(avrPort) : undefined,
+          receiver: avrReceiverLat && avrReceiverLon
+            ? { latitude: Number(avrReceiverLat), longitude: Number(avrReceiverLon) }
+            : undefined
+        },
+        replay: {
+          ...(configData?.providerSettings?.replay || {}),
+          file: replayFile || undefined,
+          speed: replaySpeed ? Number(replaySpeed) : undefined
+        },
+        simulator: {
+          ...(configData?.providerSettings?.simulator || {}),
+          scenario: simulatorScenario,
+          seed: simulatorSeed.trim() || undefined
+        }
+      },
       location: null,
-      area: null
+      area: null,
+      home: homeLatitude.trim() && homeLongitude.trim()
+        ? {
+          latitude: Number(homeLatitude),
+          longitude: Number(homeLongitude),
+          elevation: homeElevation.trim() ? Number(homeElevation) : null
+        }
+        : null
     };
 
     if (locationMode === 'circle') {
@@ -559,8 +788,15 @@ const Admin = () => {
         latitude: Number(latitude),
         longitude: Number(longitude),
         radius: Number(radius),
+        maxAltitude: maxAltitude.trim() ? Number(maxAltitude) : null,
         name: locationName
       };
+    } else if (locationMode === 'polygon') {
+      payload.area = {
+        type: 'polygon',
+        name: locationName,
+        vertices: polygonVertices
+      };
     } else {
       payload.area = {
         type: 'rectangle',
@@ -592,6 +828,23 @@ const Admin = () => {
     await refetchConfig();
   };
 
+  const handleToggleRecording = async (enabled: boolean) => {
+    const response = await fetch('/api/recording', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders
+      },
+      body: JSON.stringify({ enabled })
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to update recording');
+    }
+
+    await refetchRecording();
+  };
+
   const handleSearch = async () => {
     if (!mapboxToken) {
       setMapError('Missing Mapbox token. Set VITE_MAPBOX_TOKEN in .env.');
@@ -626,6 +879,13 @@ const Admin = () => {
     if (map) {
       map.flyTo({ center: [lng, lat], zoom: 11 });
     }
+    setSearchFocus([lng, lat]);
+    if (locationMode === 'circle') {
+      setLatitude(lat.toFixed(6));
+      setLongitude(lng.toFixed(6));
+      return;
+    }
+    if (locationMode === 'polygon') return;
 
     updateRectangle({
       north: lat + 0.06,
@@ -667,6 +927,40 @@ const Admin = () => {
     updateRectangle(parsed);
   };
 
+  const addressSearch = (
+    <div className="flex flex-col gap-3">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Search address"
+          value={searchQuery}
+          onChange={(event) => setSearchQuery(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              event.preventDefault();
+              handleSearch();
+            }
+          }}
+        />
+        <Button onClick={handleSearch} disabled={searchLoading}>
+          {searchLoading ? 'Searching' : 'Search'}
+        </Button>
+      </div>
+      {searchResults.length > 0 && (
+        <div className="border border-border rounded-xl p-2 max-h-48 overflow-auto bg-background">
+          {searchResults.map((result) => (
+            <button
+              key={result.id}
+              onClick={() => handleSelectSearch(result)}
+              className="block w-full text-left px-2 py-1.5 rounded-lg hover:bg-secondary text-sm"
+            >
+              {result.place_name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   if (!token) {
     return (
       <div className="min-h-screen bg-background text-foreground flex items-center justify-center p-6">
@@ -734,6 +1028,57 @@ const Admin = () => {
               <Switch checked={slideshowShuffle} onCheckedChange={setSlideshowShuffle} />
             </div>
           </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground">Flight order</label>
+              <select
+                value={rotationOrder}
+                onChange={(event) => setRotationOrder(event.target.value as RotationOrder)}
+                className="w-full h-10 rounded-md bg-background border border-border px-3"
+              >
+                {ROTATION_ORDER_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground">Time per flight (ms)</label>
+              <Input
+                type="number"
+                value={rotationDwell}
+                onChange={(event) => setRotationDwell(Number(event.target.value))}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Interrupt</p>
+                <p className="text-lg">New flights ahead in the order take over</p>
+              </div>
+              <Switch checked={rotationPreempt} onCheckedChange={setRotationPreempt} />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground">Time for flights within {CLOSE_DWELL_DISTANCE} km (ms)</label>
+              <Input
+                type="number"
+                value={closeDwell}
+                placeholder={String(rotationDwell)}
+                onChange={(event) => setCloseDwell(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground">
+                Time for types seen {RARE_DWELL_SIGHTINGS} times or fewer (ms)
+              </label>
+              <Input
+                type="number"
+                value={rareDwell}
+                placeholder={String(rotationDwell)}
+                onChange={(event) => setRareDwell(event.target.value)}
+              />
+            </div>
+          </div>
         </section>
 
         <section className="card-glass rounded-3xl p-8 space-y-6">
@@ -743,50 +1088,261 @@ const Admin = () => {
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="space-y-2">
-              <label className="text-sm text-muted-foreground">Provider</label>
-              <select
-                value={provider}
-                onChange={(event) => setProvider(event.target.value)}
-                className="w-full h-10 rounded-md bg-background border border-border px-3"
-              >
-                <option value="flightradar24">FlightRadar24</option>
-                <option value="opensky">OpenSky</option>
-              </select>
+              <label className="text-sm text-muted-foreground">
+                {chainMode === 'fusion' && providerChain.length > 1 ? 'Providers (merged, earlier ones win route and identity)' : 'Providers (tried in order)'}
+              </label>
+              <div className="space-y-2">
+                {providerChain.map((name, index) => (
+                  <div key={name} className="flex items-center gap-2">
+                    <span className="flex-1 text-sm">
+                      {index + 1}. {providerLabel(name)}
+                    </span>
+                    <Button variant="secondary" size="sm" onClick={() => handleMoveProvider(index, 'up')} disabled={index === 0}>
+                      Up
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => handleMoveProvider(index, 'down')}
+                      disabled={index === providerChain.length - 1}
+                    >
+                      Down
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => setProviderChain(providerChain.filter((item) => item !== name))}
+                      disabled={providerChain.length === 1}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              {providerChain.length < PROVIDER_OPTIONS.length && (
+                <select
+                  value=""
+                  onChange={(event) => event.target.value && setProviderChain([...providerChain, event.target.value])}
+                  className="w-full h-10 rounded-md bg-background border border-border px-3"
+                >
+                  <option value="">Add fallback provider…</option>
+                  {PROVIDER_OPTIONS.filter((option) => !providerChain.includes(option.value)).map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              )}
             </div>
             <div className="space-y-2">
               <label className="text-sm text-muted-foreground">Tracking mode</label>
               <select
                 value={locationMode}
-                onChange={(event) => setLocationMode(event.target.value as 'circle' | 'rectangle')}
+                onChange={(event) => setLocationMode(event.target.value as LocationMode)}
                 className="w-full h-10 rounded-md bg-background border border-border px-3"
               >
                 <option value="circle">Circle radius</option>
                 <option value="rectangle">Rectangle bounds</option>
+                <option value="polygon">Polygon</option>
               </select>
             </div>
           </div>
 
+          {providerChain.length > 1 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm text-muted-foreground">Multiple providers</label>
+                <select
+                  value={chainMode}
+                  onChange={(event) => setChainMode(event.target.value as 'failover' | 'fusion')}
+                  className="w-full h-10 rounded-md bg-background border border-border px-3"
+                >
+                  <option value="failover">Failover: use the first one that answers</option>
+                  <option value="fusion">Fusion: query all and merge by aircraft</option>
+                </select>
+              </div>
+              {chainMode === 'failover' && (
+                <div className="space-y-2">
+                  <label className="text-sm text-muted-foreground">Retry a failed provider after (seconds)</label>
+                  <Input placeholder="120" value={chainCooldown} onChange={(event) => setChainCooldown(event.target.value)} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {providerChain.includes('readsb') && (
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground">aircraft.json URL or file path</label>
+              <Input
+                placeholder="http://localhost/tar1090/data/aircraft.json"
+                value={readsbSource}
+                onChange={(event) => setReadsbSource(event.target.value)}
+              />
+            </div>
+          )}
+
+          {providerChain.includes('basestation') && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm text-muted-foreground">Feed host</label>
+                <Input placeholder="127.0.0.1" value={sbsHost} onChange={(event) => setSbsHost(event.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm text-muted-foreground">Feed port</label>
+                <Input placeholder="30003" value={sbsPort} onChange={(event) => setSbsPort(event.target.value)} />
+              </div>
+            </div>
+          )}
+
+          {providerChain.includes('avr') && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm text-muted-foreground">Feed host</label>
+                <Input placeholder="127.0.0.1" value={avrHost} onChange={(event) => setAvrHost(event.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm text-muted-foreground">Feed port</label>
+                <Input placeholder="30002" value={avrPort} onChange={(event) => setAvrPort(event.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm text-muted-foreground">Receiver latitude</label>
+                <Input value={avrReceiverLat} onChange={(event) => setAvrReceiverLat(event.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm text-muted-foreground">Receiver longitude</label>
+                <Input value={avrReceiverLon} onChange={(event) => setAvrReceiverLon(event.target.value)} />
+              </div>
+            </div>
+          )}
+
+          {providerChain.includes('replay') && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm text-muted-foreground">Recording</label>
+                <select
+                  value={replayFile}
+                  onChange={(event) => setReplayFile(event.target.value)}
+                  className="w-full h-10 rounded-md bg-background border border-border px-3"
+                >
+                  <option value="">Choose a recording…</option>
+                  {replayFile && !recordingData?.recordings.some((item) => item.name === replayFile) && (
+                    <option value={replayFile}>{replayFile}</option>
+                  )}
+                  {(recordingData?.recordings || []).map((item) => (
+                    <option key={item.name} value={item.name}>{item.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm text-muted-foreground">Playback speed (x)</label>
+                <Input placeholder="1" value={replaySpeed} onChange={(event) => setReplaySpeed(event.target.value)} />
+              </div>
+            </div>
+          )}
+
+          {providerChain.includes('simulator') && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm text-muted-foreground">Scenario</label>
+                <select
+                  value={simulatorScenario}
+                  onChange={(event) => setSimulatorScenario(event.target.value)}
+                  className="w-full h-10 rounded-md bg-background border border-border px-3"
+                >
+                  {SIMULATOR_SCENARIOS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm text-muted-foreground">Seed</label>
+                <Input placeholder="1" value={simulatorSeed} onChange={(event) => setSimulatorSeed(event.target.value)} />
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-muted-foreground">Record provider answers</p>
+              <p className="text-lg">
+                {recordingData?.recording
+                  ? `Recording to ${recordingData.file} (${recordingData.frames} frames)`
+                  : 'Save traffic to replay later'}
+              </p>
+            </div>
+            <Switch checked={!!recordingData?.recording} onCheckedChange={handleToggleRecording} />
+          </div>
+
           <div className="space-y-4">
             <div className="space-y-2">
               <label className="text-sm text-muted-foreground">Location name</label>
               <Input value={locationName} onChange={(event) => setLocationName(event.target.value)} />
             </div>
 
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Traffic density</p>
+                <p className="text-lg">
+                  {densityVisible && densityData
+                    ? `Heatmap of flights seen over the saved area (${densityData.cellSize.toFixed(1)} km cells)`
+                    : 'Show where aircraft have flown on the map'}
+                </p>
+              </div>
+              <Switch checked={densityVisible} onCheckedChange={setDensityVisible} />
+            </div>
+
             {locationMode === 'circle' ? (
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="space-y-2">
-                  <label className="text-sm text-muted-foreground">Latitude</label>
-                  <Input value={latitude} onChange={(event) => setLatitude(event.target.value)} />
-                </div>
-                <div className="space-y-2">
-                  <label className="text-sm text-muted-foreground">Longitude</label>
-                  <Input value={longitude} onChange={(event) => setLongitude(event.target.value)} />
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-sm text-muted-foreground">Latitude</label>
+                      <Input value={latitude} onChange={(event) => setLatitude(event.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm text-muted-foreground">Longitude</label>
+                      <Input value={longitude} onChange={(event) => setLongitude(event.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm text-muted-foreground">Radius (km)</label>
+                      <Input value={radius} onChange={(event) => setRadius(event.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm text-muted-foreground">Altitude ceiling (ft, optional)</label>
+                      <Input placeholder="No ceiling" value={maxAltitude} onChange={(event) => setMaxAltitude(event.target.value)} />
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Only flights within the radius (and below the ceiling, if set) are shown.
+                  </p>
+                  {mapError && <p className="text-sm text-aviation-red">{mapError}</p>}
                 </div>
-                <div className="space-y-2">
-                  <label className="text-sm text-muted-foreground">Radius (km)</label>
-                  <Input value={radius} onChange={(event) => setRadius(event.target.value)} />
+
+                <div className="space-y-3">
+                  {addressSearch}
+                  <CircleAreaEditor
+                    latitude={latitude.trim() ? Number(latitude) : NaN}
+                    longitude={longitude.trim() ? Number(longitude) : NaN}
+                    radiusKm={Number(radius)}
+                    onCenterChange={(lat, lng) => {
+                      setLatitude(lat.toFixed(6));
+                      setLongitude(lng.toFixed(6));
+                    }}
+                    mapboxToken={mapboxToken}
+                    density={density}
+                  />
                 </div>
               </div>
+            ) : locationMode === 'polygon' ? (
+              <div className="space-y-3">
+                {addressSearch}
+                <PolygonAreaEditor
+                  vertices={polygonVertices}
+                  onChange={setPolygonVertices}
+                  mapboxToken={mapboxToken}
+                  focus={searchFocus}
+                  density={density}
+                />
+                {mapError && <p className="text-sm text-aviation-red">{mapError}</p>}
+              </div>
             ) : (
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <div className="space-y-4">
@@ -832,46 +1388,44 @@ const Admin = () => {
                 </div>
 
                 <div className="space-y-3">
-                  <div className="flex flex-col gap-3">
-                    <div className="flex gap-2">
-                      <Input
-                        placeholder="Search address"
-                        value={searchQuery}
-                        onChange={(event) => setSearchQuery(event.target.value)}
-                        onKeyDown={(event) => {
-                          if (event.key === 'Enter') {
-                            event.preventDefault();
-                            handleSearch();
-                          }
-                        }}
-                      />
-                      <Button onClick={handleSearch} disabled={searchLoading}>
-                        {searchLoading ? 'Searching' : 'Search'}
-                      </Button>
-                    </div>
-                    {searchResults.length > 0 && (
-                      <div className="border border-border rounded-xl p-2 max-h-48 overflow-auto bg-background">
-                        {searchResults.map((result) => (
-                          <button
-                            key={result.id}
-                            onClick={() => handleSelectSearch(result)}
-                            className="block w-full text-left px-2 py-1.5 rounded-lg hover:bg-secondary text-sm"
-                          >
-                            {result.place_name}
-                          </button>
-                        ))}
-                      </div>
-                    )}
-                  </div>
+                  {addressSearch}
                   <div className="relative h-80 rounded-2xl overflow-hidden border border-border/60">
                     <div ref={mapContainerRef} className="absolute inset-0" />
                   </div>
                 </div>
               </div>
             )}
+
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Home is where you watch from; the display uses it to show where to look. Leave it empty to use the circle centre.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm text-muted-foreground">Home latitude</label>
+                  <Input value={homeLatitude} onChange={(event) => setHomeLatitude(event.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm text-muted-foreground">Home longitude</label>
+                  <Input value={homeLongitude} onChange={(event) => setHomeLongitude(event.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm text-muted-foreground">Ground elevation (ft)</label>
+                  <Input placeholder="0" value={homeElevation} onChange={(event) => setHomeElevation(event.target.value)} />
+                </div>
+              </div>
+            </div>
           </div>
         </section>
 
+        <AirportOverrides authHeaders={authHeaders} />
+
+        <AircraftRegistry authHeaders={authHeaders} />
+
+        <RouteTable authHeaders={authHeaders} />
+
+        <DisplayFilters authHeaders={authHeaders} />
+
         <section className="card-glass rounded-3xl p-8 space-y-6">
           <div className="flex items-center justify-between">
             <h2 className="text-2xl font-semibold">Photo Library</h2>
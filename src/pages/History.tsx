@@ -0,0 +1,259 @@
+import { MouseEvent, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import { DateRange } from 'react-day-picker';
+
+import { NavLink } from '@/components/NavLink';
+import SightingDetail from '@/components/SightingDetail';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { getAircraftName, getAirline } from '@/lib/airlines';
+import { Sighting } from '@/types/flight';
+
+type SightingPage = {
+  sightings: Sighting[];
+  total: number;
+};
+
+const PAGE_SIZE = 25;
+
+const emptyFilters = {
+  callsign: '',
+  registration: '',
+  airline: '',
+  type: '',
+  minAltitude: '',
+  maxAltitude: ''
+};
+
+// Page numbers to offer: first, last and the neighbours of the current page, with gaps as null
+const pageNumbers = (page: number, pageCount: number) => {
+  const pages: (number | null)[] = [];
+  for (let index = 0; index < pageCount; index++) {
+    if (index === 0 || index === pageCount - 1 || Math.abs(index - page) <= 1) {
+      pages.push(index);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+
+// Searchable log of every flight seen overhead
+const History = () => {
+  const [filters, setFilters] = useState(emptyFilters);
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [page, setPage] = useState(0);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data, isError } = useQuery({
+    queryKey: ['history', filters, range?.from?.getTime(), range?.to?.getTime(), page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value.trim()) params.set(key, value.trim());
+      });
+      if (range?.from) {
+        params.set('from', range.from.toISOString());
+        params.set('to', endOfDay(range.to || range.from).toISOString());
+      }
+      const response = await fetch(`/api/history?${params}`);
+      if (!response.ok) throw new Error('Failed to load history');
+      return response.json() as Promise<SightingPage>;
+    },
+    placeholderData: (previous) => previous
+  });
+
+  const total = data?.total || 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const updateFilter = (field: keyof typeof emptyFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [field]: value }));
+    setPage(0);
+  };
+
+  const goTo = (event: MouseEvent, target: number) => {
+    event.preventDefault();
+    if (target >= 0 && target < pageCount) setPage(target);
+  };
+
+  const rangeLabel = range?.from
+    ? range.to && range.to.getTime() !== range.from.getTime()
+      ? `${format(range.from, 'd MMM yyyy')} – ${format(range.to, 'd MMM yyyy')}`
+      : format(range.from, 'd MMM yyyy')
+    : 'Any date';
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-8">
+      <div className="max-w-6xl mx-auto space-y-10">
+        <header className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-semibold">Flight History</h1>
+            <p className="text-muted-foreground mt-2">Every flight seen overhead. Pick one to see its track.</p>
+          </div>
+          <div className="flex gap-3">
+            <Button variant="secondary" asChild>
+              <NavLink to="/stats">Statistics</NavLink>
+            </Button>
+            <Button variant="secondary" asChild>
+              <NavLink to="/">Back to display</NavLink>
+            </Button>
+          </div>
+        </header>
+
+        <section className="card-glass rounded-3xl p-8 space-y-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-semibold">Sightings</h2>
+            <span className="text-sm text-muted-foreground">{total.toLocaleString()} sightings</span>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 md:items-end">
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground">Callsign or flight</label>
+              <Input placeholder="QFA512" value={filters.callsign} onChange={(event) => updateFilter('callsign', event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground">Registration</label>
+              <Input placeholder="VH-VXA" value={filters.registration} onChange={(event) => updateFilter('registration', event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground">Airline</label>
+              <Input placeholder="QF, QFA or Qantas" value={filters.airline} onChange={(event) => updateFilter('airline', event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground">Aircraft type</label>
+              <Input placeholder="B738" value={filters.type} onChange={(event) => updateFilter('type', event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground">Date</label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start font-normal">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {rangeLabel}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={(next) => {
+                      setRange(next);
+                      setPage(0);
+                    }}
+                    disabled={{ after: new Date() }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground">Lowest altitude at least (ft)</label>
+              <Input type="number" min={0} value={filters.minAltitude} onChange={(event) => updateFilter('minAltitude', event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm text-muted-foreground">Lowest altitude at most (ft)</label>
+              <Input type="number" min={0} placeholder="3000" value={filters.maxAltitude} onChange={(event) => updateFilter('maxAltitude', event.target.value)} />
+            </div>
+            <Button
+              variant="secondary"
+              onClick={() => {
+                setFilters(emptyFilters);
+                setRange(undefined);
+                setPage(0);
+              }}
+            >
+              Clear filters
+            </Button>
+          </div>
+
+          {isError ? (
+            <p className="text-aviation-red">Failed to load history.</p>
+          ) : (data?.sightings || []).length === 0 ? (
+            <p className="text-muted-foreground">No sightings found.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Seen</TableHead>
+                  <TableHead>Flight</TableHead>
+                  <TableHead>Airline</TableHead>
+                  <TableHead>Aircraft</TableHead>
+                  <TableHead>Registration</TableHead>
+                  <TableHead>Route</TableHead>
+                  <TableHead className="text-right">Lowest</TableHead>
+                  <TableHead className="text-right">Closest</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(data?.sightings || []).map((sighting) => (
+                  <TableRow key={sighting.id} className="cursor-pointer" onClick={() => setSelectedId(sighting.id)}>
+                    <TableCell className="font-mono">{format(new Date(sighting.firstSeen), 'd MMM HH:mm')}</TableCell>
+                    <TableCell className="font-mono">{sighting.flightNumber || sighting.callsign || sighting.icao24}</TableCell>
+                    <TableCell>{sighting.airlineIata || sighting.airlineIcao ? getAirline(sighting.airlineIata, sighting.airlineName || undefined).name : '—'}</TableCell>
+                    <TableCell>{sighting.aircraftType ? getAircraftName(sighting.aircraftType) : '—'}</TableCell>
+                    <TableCell className="font-mono">{sighting.registration || '—'}</TableCell>
+                    <TableCell className="font-mono">
+                      {sighting.origin || sighting.destination ? `${sighting.origin || '?'} → ${sighting.destination || '?'}` : '—'}
+                    </TableCell>
+                    <TableCell className="font-mono text-right">
+                      {sighting.minAltitude !== null ? `${sighting.minAltitude.toLocaleString()} ft` : '—'}
+                    </TableCell>
+                    <TableCell className="font-mono text-right">
+                      {sighting.cpaDistance !== null ? `${sighting.cpaDistance.toFixed(1)} km` : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {pageCount > 1 && (
+            <Pagination>
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious href="#" onClick={(event) => goTo(event, page - 1)} />
+                </PaginationItem>
+                {pageNumbers(page, pageCount).map((number, index) =>
+                  number === null ? (
+                    <PaginationItem key={`gap-${index}`}>
+                      <PaginationEllipsis />
+                    </PaginationItem>
+                  ) : (
+                    <PaginationItem key={number}>
+                      <PaginationLink href="#" isActive={number === page} onClick={(event) => goTo(event, number)}>
+                        {number + 1}
+                      </PaginationLink>
+                    </PaginationItem>
+                  )
+                )}
+                <PaginationItem>
+                  <PaginationNext href="#" onClick={(event) => goTo(event, page + 1)} />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </section>
+      </div>
+
+      <SightingDetail sightingId={selectedId} onClose={() => setSelectedId(null)} />
+    </div>
+  );
+};
+
+export default History;
@@ -0,0 +1,245 @@
+import { ReactNode, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+
+import { NavLink } from '@/components/NavLink';
+import { Button } from '@/components/ui/button';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { getAircraftName, getAirline } from '@/lib/airlines';
+import { TrafficStats } from '@/types/flight';
+
+const RANGE_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' }
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const UNALIGNED = 'Unaligned';
+
+const countConfig = {
+  count: { label: 'Flights', color: 'hsl(var(--aviation-cyan))' }
+} satisfies ChartConfig;
+
+const altitudeConfig = {
+  averageAltitude: { label: 'Average lowest altitude (ft)', color: 'hsl(var(--aviation-amber))' }
+} satisfies ChartConfig;
+
+const allianceConfig = {
+  count: { label: 'Flights', color: 'hsl(var(--aviation-green))' }
+} satisfies ChartConfig;
+
+interface StatsCardProps {
+  title: string;
+  description?: string;
+  children: ReactNode;
+}
+
+const StatsCard = ({ title, description, children }: StatsCardProps) => (
+  <section className="card-glass rounded-3xl p-8 space-y-4">
+    <div>
+      <h2 className="text-2xl font-semibold">{title}</h2>
+      {description && <p className="text-muted-foreground mt-1 text-sm">{description}</p>}
+    </div>
+    {children}
+  </section>
+);
+
+// Airlines summed by alliance, each with its busiest members
+const groupByAlliance = (airlines: TrafficStats['airlines']) => {
+  const groups = new Map<string, { alliance: string; count: number; airlines: { name: string; count: number }[] }>();
+  for (const entry of airlines) {
+    const airline = getAirline(entry.iata, entry.name || entry.icao);
+    const alliance = airline.alliance || UNALIGNED;
+    const group = groups.get(alliance) || { alliance, count: 0, airlines: [] };
+    group.count += entry.count;
+    group.airlines.push({ name: airline.name, count: entry.count });
+    groups.set(alliance, group);
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count);
+};
+
+// Traffic charts computed from the sighting history
+const Stats = () => {
+  const [days, setDays] = useState(30);
+
+  const { data: stats, isError } = useQuery({
+    queryKey: ['traffic-stats', days],
+    queryFn: async () => {
+      const to = new Date();
+      const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+      const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+      const response = await fetch(`/api/history/stats?${params}`);
+      if (!response.ok) throw new Error('Failed to load statistics');
+      return response.json() as Promise<TrafficStats>;
+    },
+    refetchInterval: 5 * 60 * 1000
+  });
+
+  const alliances = useMemo(() => groupByAlliance(stats?.airlines || []), [stats]);
+  const types = useMemo(
+    () => (stats?.types || []).map((entry) => ({ ...entry, name: getAircraftName(entry.type) })),
+    [stats]
+  );
+  const busiest = useMemo(() => {
+    const grid = WEEKDAYS.map(() => Array<number>(24).fill(0));
+    for (const cell of stats?.busiest || []) grid[cell.weekday][cell.hour] = cell.count;
+    return grid;
+  }, [stats]);
+  const busiestMax = Math.max(1, ...busiest.flat());
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-8">
+      <div className="max-w-6xl mx-auto space-y-10">
+        <header className="flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-semibold">Traffic Statistics</h1>
+            <p className="text-muted-foreground mt-2">
+              {stats ? `${stats.total.toLocaleString()} flights seen in the last ${days} days.` : 'Flights seen overhead.'}
+            </p>
+          </div>
+          <div className="flex gap-3">
+            {RANGE_OPTIONS.map((option) => (
+              <Button
+                key={option.days}
+                variant={option.days === days ? 'default' : 'secondary'}
+                onClick={() => setDays(option.days)}
+              >
+                {option.label}
+              </Button>
+            ))}
+            <Button variant="secondary" asChild>
+              <NavLink to="/history">History</NavLink>
+            </Button>
+          </div>
+        </header>
+
+        {isError && <p className="text-aviation-red">Failed to load statistics.</p>}
+
+        {stats && (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+              <StatsCard title="Flights per day">
+                <ChartContainer config={countConfig} className="h-64 w-full">
+                  <BarChart data={stats.daily}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={(date: string) => date.slice(5)} tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </StatsCard>
+
+              <StatsCard title="Flights per hour" description="The last 48 hours of the range.">
+                <ChartContainer config={countConfig} className="h-64 w-full">
+                  <BarChart data={stats.hourly}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="hour" tickFormatter={(hour: string) => hour.slice(11, 13)} tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+                  </BarChart>
+                </ChartContainer>
+              </StatsCard>
+            </div>
+
+            <StatsCard title="Busiest hours" description="Flights by day of the week and hour of the day.">
+              <div className="overflow-x-auto">
+                <div className="grid gap-1 min-w-[640px]" style={{ gridTemplateColumns: '3rem repeat(24, minmax(0, 1fr))' }}>
+                  <span />
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <span key={hour} className="text-xs text-muted-foreground text-center">{hour}</span>
+                  ))}
+                  {busiest.map((row, weekday) => [
+                    <span key={`label-${weekday}`} className="text-xs text-muted-foreground">{WEEKDAYS[weekday]}</span>,
+                    ...row.map((count, hour) => (
+                      <div
+                        key={`${weekday}-${hour}`}
+                        title={`${WEEKDAYS[weekday]} ${hour}:00 – ${count} flights`}
+                        className="h-6 rounded-sm bg-aviation-cyan"
+                        style={{ opacity: count === 0 ? 0.05 : 0.15 + (count / busiestMax) * 0.85 }}
+                      />
+                    ))
+                  ])}
+                </div>
+              </div>
+            </StatsCard>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+              <StatsCard title="Top airlines" description="Grouped by alliance.">
+                <ChartContainer config={allianceConfig} className="h-64 w-full">
+                  <BarChart data={alliances} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="alliance" tickLine={false} axisLine={false} width={96} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  {alliances.map((group) => (
+                    <div key={group.alliance}>
+                      <p className="text-muted-foreground">{group.alliance}</p>
+                      {group.airlines.slice(0, 3).map((airline) => (
+                        <p key={airline.name} className="flex justify-between">
+                          <span>{airline.name}</span>
+                          <span className="font-mono">{airline.count.toLocaleString()}</span>
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </StatsCard>
+
+              <StatsCard title="Top aircraft types">
+                <ChartContainer config={countConfig} className="h-80 w-full">
+                  <BarChart data={types} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={140} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </StatsCard>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+              <StatsCard title="Altitude distribution" description="Lowest altitude of each flight.">
+                <ChartContainer config={countConfig} className="h-64 w-full">
+                  <BarChart data={stats.altitudes}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="altitude"
+                      tickFormatter={(altitude: number) => `${altitude / 1000}k`}
+                      tickLine={false}
+                      axisLine={false}
+                    />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(altitude) => `From ${Number(altitude).toLocaleString()} ft`} />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </StatsCard>
+
+              <StatsCard title="Average altitude over time" description="Mean lowest altitude of the flights seen each day.">
+                <ChartContainer config={altitudeConfig} className="h-64 w-full">
+                  <LineChart data={stats.daily}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={(date: string) => date.slice(5)} tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={48} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line dataKey="averageAltitude" stroke="var(--color-averageAltitude)" strokeWidth={2} dot={false} connectNulls />
+                  </LineChart>
+                </ChartContainer>
+              </StatsCard>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Stats;
@@ -0,0 +1,97 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { useDeadReckoning } from '@/hooks/use-dead-reckoning';
+import {
+  applyOffset,
+  easeWeight,
+  extrapolatePosition,
+  MAX_EXTRAPOLATION_S,
+  positionOffset,
+  zeroOffset
+} from '@/lib/deadReckoning';
+import { makeFlight } from './flights';
+
+const position = makeFlight().position;
+// Degrees of latitude per nautical mile
+const DEGREES_PER_NM = 1 / 60;
+
+describe('extrapolatePosition', () => {
+  it('flies along the heading at ground speed', () => {
+    // 240 kt for a minute is 4 nm due north
+    const flown = extrapolatePosition(position, 60);
+    expect(flown.latitude - position.latitude).toBeCloseTo(4 * DEGREES_PER_NM, 3);
+    expect(flown.longitude).toBeCloseTo(position.longitude, 6);
+
+    const east = extrapolatePosition({ ...position, heading: 90 }, 30);
+    expect(east.latitude).toBeCloseTo(position.latitude, 3);
+    expect(east.longitude).toBeGreaterThan(position.longitude);
+  });
+
+  it('climbs or descends at the vertical speed without going below ground', () => {
+    expect(extrapolatePosition({ ...position, verticalSpeed: 1200 }, 30).altitude).toBeCloseTo(3600);
+    expect(extrapolatePosition({ ...position, verticalSpeed: -6000 }, 40).altitude).toBe(0);
+  });
+
+  it(`holds stale samples after ${MAX_EXTRAPOLATION_S} s`, () => {
+    expect(extrapolatePosition(position, 600)).toEqual(extrapolatePosition(position, MAX_EXTRAPOLATION_S));
+  });
+
+  it('leaves stationary aircraft and negative times alone', () => {
+    expect(extrapolatePosition({ ...position, speed: 0 }, 30)).toEqual({ ...position, speed: 0 });
+    expect(extrapolatePosition(position, -5)).toBe(position);
+  });
+});
+
+describe('position offsets', () => {
+  it('restores the shown position at full weight and the sample at zero', () => {
+    const shown = { ...position, latitude: -27.41, altitude: 3100, speed: 250 };
+    const offset = positionOffset(shown, position);
+
+    expect(applyOffset(position, offset, 1)).toEqual(shown);
+    expect(applyOffset(position, offset, 0)).toEqual(position);
+    expect(applyOffset(position, offset, 0.5).altitude).toBeCloseTo(3050);
+    expect(positionOffset(position, position)).toEqual(zeroOffset);
+  });
+
+  it('eases the weight out from 1 to 0', () => {
+    expect(easeWeight(0, 2500)).toBe(1);
+    expect(easeWeight(1250, 2500)).toBeCloseTo(0.25);
+    expect(easeWeight(2500, 2500)).toBe(0);
+    expect(easeWeight(5000, 2500)).toBe(0);
+    expect(easeWeight(-100, 2500)).toBe(1);
+  });
+});
+
+describe('useDeadReckoning', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-01T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('eases a correction in for the same aircraft and snaps for a new one', () => {
+    const { result, rerender } = renderHook(({ flight }) => useDeadReckoning(flight), {
+      initialProps: { flight: makeFlight() }
+    });
+    expect(result.current.position.latitude).toBeCloseTo(position.latitude, 6);
+
+    act(() => {
+      vi.advanceTimersByTime(10000);
+    });
+    const shown = result.current.position.latitude;
+    expect(shown).toBeGreaterThan(position.latitude);
+
+    // A fresh report back at the old spot starts from where the estimate had got to
+    rerender({ flight: makeFlight() });
+    expect(result.current.position.latitude).toBeCloseTo(shown, 6);
+
+    const other = makeFlight({ id: '7c1234', position: { ...position, latitude: -27.3 } });
+    rerender({ flight: other });
+    expect(result.current.id).toBe('7c1234');
+    expect(result.current.position.latitude).toBeCloseTo(-27.3, 6);
+  });
+});
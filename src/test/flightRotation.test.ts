@@ -0,0 +1,126 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { flightDwell, orderFlights, RotationSettings, useFlightRotation } from '@/hooks/use-flight-rotation';
+import { Flight } from '@/types/flight';
+import { makeFlight } from './flights';
+
+const at = (id: string, distance: number, altitude: number, type = 'B738') =>
+  makeFlight({
+    id,
+    aircraft: { type: '', icao: type, registration: '' },
+    position: { ...makeFlight().position, altitude },
+    observer: { distance, bearing: 0, elevation: 10, slantRange: distance, approaching: true, cpa: null }
+  });
+
+const near = at('near', 1, 9000, 'A388');
+const low = at('low', 5, 1500);
+const far = at('far', 9, 4000, 'B738');
+
+const ids = (flights: Flight[]) => flights.map((flight) => flight.id);
+
+describe('orderFlights', () => {
+  const context = { firstSeen: new Map([['near', 3000], ['low', 1000], ['far', 2000]]), sightings: { B738: 12, A388: 1 } };
+
+  it('orders by distance from home by default', () => {
+    expect(ids(orderFlights([far, low, near], 'proximity', context))).toEqual(['near', 'low', 'far']);
+  });
+
+  it('orders by altitude, arrival and rarity', () => {
+    expect(ids(orderFlights([far, near, low], 'altitude', context))).toEqual(['low', 'far', 'near']);
+    expect(ids(orderFlights([far, near, low], 'newest', context))).toEqual(['near', 'far', 'low']);
+    expect(ids(orderFlights([far, low, near], 'rarity', context))[0]).toBe('near');
+  });
+
+  it('keeps provider order for ties and flights without an observer', () => {
+    const first = makeFlight({ id: 'first' });
+    const second = makeFlight({ id: 'second' });
+    expect(ids(orderFlights([first, second], 'proximity', context))).toEqual(['first', 'second']);
+  });
+});
+
+describe('flightDwell', () => {
+  const settings: RotationSettings = { order: 'proximity', dwell: 15000, dwellOverrides: { close: 30000, rare: 45000 }, preempt: true };
+  const sightings = { B738: 12, A388: 1 };
+
+  it('gives close flights and rare types their own dwell, the longest winning', () => {
+    expect(flightDwell(far, settings, sightings)).toBe(15000);
+    expect(flightDwell(at('overhead', 1.5, 3000), settings, sightings)).toBe(30000);
+    expect(flightDwell(at('rare', 9, 3000, 'A388'), settings, sightings)).toBe(45000);
+    expect(flightDwell(near, settings, sightings)).toBe(45000);
+  });
+
+  it('falls back to the plain dwell without overrides', () => {
+    expect(flightDwell(near, { ...settings, dwellOverrides: {} }, sightings)).toBe(15000);
+    expect(flightDwell(near, { ...settings, dwellOverrides: { rare: 0 } }, sightings)).toBe(15000);
+  });
+});
+
+describe('useFlightRotation', () => {
+  const settings: RotationSettings = { order: 'proximity', dwell: 15000, dwellOverrides: {}, preempt: true };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const render = (flights: Flight[], options = settings) =>
+    renderHook(({ flights, options }) => useFlightRotation(flights, options), { initialProps: { flights, options } });
+
+  it('stays on the same flight when a poll reorders the list', () => {
+    const { result, rerender } = render([low, far]);
+    expect(result.current.current?.id).toBe('low');
+
+    rerender({ flights: [far, at('low', 10, 1500)], options: settings });
+    expect(result.current.current?.id).toBe('low');
+  });
+
+  it('moves on to the least recently shown flight after the dwell time', () => {
+    const { result } = render([low, far]);
+
+    act(() => {
+      vi.advanceTimersByTime(15000);
+    });
+    expect(result.current.current?.id).toBe('far');
+
+    act(() => {
+      vi.advanceTimersByTime(15000);
+    });
+    expect(result.current.current?.id).toBe('low');
+  });
+
+  it('keeps a close flight on screen for its own dwell', () => {
+    const { result } = render([near, far], { ...settings, dwellOverrides: { close: 40000 } });
+    expect(result.current.current?.id).toBe('near');
+
+    act(() => {
+      vi.advanceTimersByTime(15000);
+    });
+    expect(result.current.current?.id).toBe('near');
+
+    act(() => {
+      vi.advanceTimersByTime(25000);
+    });
+    expect(result.current.current?.id).toBe('far');
+  });
+
+  it('lets a new flight that ranks ahead take over, unless preemption is off', () => {
+    const { result, rerender } = render([low, far]);
+    rerender({ flights: [low, far, near], options: settings });
+    expect(result.current.current?.id).toBe('near');
+
+    const calm = render([low, far], { ...settings, preempt: false });
+    calm.rerender({ flights: [low, far, near], options: { ...settings, preempt: false } });
+    expect(calm.result.current.current?.id).toBe('low');
+  });
+
+  it('does not preempt for a new flight that ranks behind', () => {
+    const { result, rerender } = render([low]);
+    rerender({ flights: [low, far], options: settings });
+    expect(result.current.current?.id).toBe('low');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyFlightDiff } from '@/hooks/use-flight-stream';
+import { makeFlight } from './flights';
+
+const a = makeFlight({ id: 'a' });
+const b = makeFlight({ id: 'b' });
+const c = makeFlight({ id: 'c' });
+
+describe('applyFlightDiff', () => {
+  it('keeps the existing order and appends new flights', () => {
+    const next = applyFlightDiff({ flights: [b, a] }, { added: [c], updated: [], removed: [] });
+    expect(next.flights.map((flight) => flight.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('replaces updated flights in place', () => {
+    const moved = makeFlight({ id: 'a', position: { ...a.position, latitude: -27.3 } });
+    const next = applyFlightDiff({ flights: [a, b] }, { added: [], updated: [moved], removed: [] });
+
+    expect(next.flights[0]).toBe(moved);
+    expect(next.flights[1]).toBe(b);
+  });
+
+  it('drops removed flights and ignores ids it does not have', () => {
+    const next = applyFlightDiff({ flights: [a, b, c] }, { added: [], updated: [], removed: ['b', 'zz'] });
+    expect(next.flights.map((flight) => flight.id)).toEqual(['a', 'c']);
+  });
+
+  it('takes the latest metadata and incoming list from the diff', () => {
+    const incoming = [{ ...c, eta: { seconds: 40, time: '2025-03-01T10:00:40Z' } }];
+    const next = applyFlightDiff(
+      { flights: [a], source: 'readsb', incoming: [] },
+      { added: [], updated: [], removed: [], source: 'readsb+flightradar24', incoming }
+    );
+
+    expect(next.source).toBe('readsb+flightradar24');
+    expect(next.incoming).toBe(incoming);
+    expect(next.flights).toEqual([a]);
+  });
+
+  it('starts from an empty list before the first snapshot', () => {
+    expect(applyFlightDiff(null, { added: [a], updated: [b], removed: [] }).flights).toEqual([a]);
+  });
+});
@@ -0,0 +1,16 @@
+import { Flight } from '@/types/flight';
+
+// Minimal flight for tests; override what the test is about
+export const makeFlight = (overrides: Partial<Flight> = {}): Flight => ({
+  id: '7c6ddf',
+  icao24: '7c6ddf',
+  flightNumber: 'QF512',
+  callsign: 'QFA512',
+  airline: { name: 'Qantas', iata: 'QF', icao: 'QFA' },
+  aircraft: { type: 'Boeing 737-800', icao: 'B738', registration: 'VH-VZS' },
+  departure: { airport: 'Sydney', iata: 'SYD', city: 'Sydney', country: 'Australia' },
+  arrival: { airport: 'Brisbane', iata: 'BNE', city: 'Brisbane', country: 'Australia' },
+  position: { altitude: 3000, speed: 240, heading: 0, verticalSpeed: 0, latitude: -27.4, longitude: 153.1 },
+  status: 'cruising',
+  ...overrides
+});
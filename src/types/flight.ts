@@ -1,30 +1,44 @@
 export interface Flight {
   id: string;
+  icao24?: string;
   flightNumber: string;
   callsign: string;
+  squawk?: string;
   airline: {
     name: string;
     iata: string;
     icao: string;
+    callsign?: string; // radiotelephony callsign, e.g. 'SPEEDBIRD'
     logo?: string;
   };
   aircraft: {
     type: string;
     icao: string;
     registration: string;
+    category?: string; // ADS-B emitter category, e.g. 'A3'
+    operator?: string;
+    built?: number | null; // year built
   };
   departure: {
     airport: string;
     iata: string;
+    icao?: string;
     city: string;
     country: string;
+    latitude?: number | null;
+    longitude?: number | null;
+    timezone?: string; // IANA zone, e.g. 'Australia/Brisbane'
     time?: string;
   };
   arrival: {
     airport: string;
     iata: string;
+    icao?: string;
     city: string;
     country: string;
+    latitude?: number | null;
+    longitude?: number | null;
+    timezone?: string; // IANA zone, e.g. 'Australia/Brisbane'
     time?: string;
   };
   position: {
@@ -35,7 +49,86 @@ export interface Flight {
     latitude: number;
     longitude: number;
   };
+  observer?: {
+    distance: number; // km along the ground from home
+    bearing: number; // compass degrees from home
+    elevation: number; // degrees above the horizon
+    slantRange: number; // km in a straight line from home
+    approaching: boolean | null; // null when the aircraft is not moving
+    cpa: {
+      seconds: number; // until the closest point of approach
+      time: string; // ISO time of the closest point of approach
+      distance: number; // km over the ground at closest approach
+      altitude: number; // feet at closest approach
+    } | null; // null once the aircraft is moving away
+  };
   status: 'climbing' | 'descending' | 'cruising' | 'approaching' | 'landed';
+  sources?: Record<string, string>; // provider behind each field, e.g. { 'position.latitude': 'readsb' }, when several are merged
+}
+
+// Flight in the lookahead buffer that is about to enter the monitored area
+export interface IncomingFlight extends Flight {
+  eta: {
+    seconds: number; // until it enters the area, at the time of the snapshot
+    time: string; // ISO time it is expected to enter
+  };
+}
+
+// Past flight from the sighting history (GET /api/history)
+export interface Sighting {
+  id: number;
+  icao24: string;
+  callsign: string;
+  flightNumber: string;
+  registration: string;
+  aircraftType: string;
+  airlineIcao: string;
+  airlineIata: string;
+  airlineName: string;
+  origin: string;
+  destination: string;
+  firstSeen: string; // ISO time
+  lastSeen: string; // ISO time
+  minAltitude: number | null; // feet, lowest seen
+  cpaDistance: number | null; // km, closest to the observer
+}
+
+export interface TrackPoint {
+  t: string; // ISO time of the poll
+  latitude: number;
+  longitude: number;
+  altitude: number | null; // feet
+  speed: number | null; // knots
+  heading: number | null;
+  verticalSpeed: number | null; // feet per minute
+}
+
+export interface SightingDetail extends Sighting {
+  track: TrackPoint[];
+}
+
+// Traffic aggregates over a range (GET /api/history/stats), bucketed in the server's local time
+export interface TrafficStats {
+  from: string;
+  to: string;
+  total: number;
+  daily: { date: string; count: number; averageAltitude: number | null }[];
+  hourly: { hour: string; count: number }[]; // last 48 hours of the range
+  busiest: { weekday: number; hour: number; count: number }[]; // weekday 0 = Sunday
+  airlines: { iata: string; icao: string; name: string; count: number }[];
+  types: { type: string; count: number }[];
+  altitudes: { altitude: number; count: number }[]; // lowest altitude per sighting, 2000 ft bins
+}
+
+// Aircraft through each cell of a grid over and around the monitored area (GET /api/history/density)
+export interface TrafficDensity {
+  bounds: { north: number; south: number; west: number; east: number }; // of the grid, including the margin
+  area: { north: number; south: number; west: number; east: number }; // of the monitored area
+  rows: number;
+  columns: number;
+  cellSize: number; // km along each side
+  max: number;
+  cells: { row: number; column: number; latitude: number; longitude: number; count: number }[];
 }
 
 export interface Photo {